@@ -178,20 +178,15 @@ const mintTokens = async () => {
       usage: 'Provide seeds to generate a PDA that can be used for program-controlled accounts.',
       parameters: [
         {
-          name: 'seeds',
-          type: 'string[]',
-          description: 'Array of strings used as seeds for PDA derivation',
-          required: true
-        },
-        {
-          name: 'programId',
-          type: 'PublicKey',
-          description: 'Program ID for PDA derivation',
-          required: true
+          name: 'seed',
+          type: 'string',
+          description: 'Seed string combined with the authority key for PDA derivation',
+          required: true,
+          defaultValue: 'vault'
         }
       ],
       examples: [
-        'const [pda] = PublicKey.findProgramAddressSync([Buffer.from("vault")], programId);'
+        'const [pda] = PublicKey.findProgramAddressSync([Buffer.from("vault"), authority.toBuffer()], programId);'
       ]
     }
   },
@@ -295,21 +290,27 @@ const mintTokens = async () => {
       usage: 'Connect two tokens to create a liquidity pool for decentralized trading.',
       parameters: [
         {
-          name: 'feeRate',
+          name: 'feeBasisPoints',
           type: 'number',
-          description: 'Trading fee rate as percentage (0-1)',
+          description: 'Trading fee in basis points (30 = 0.3%)',
           required: true,
-          defaultValue: 0.003
+          defaultValue: 30
         },
         {
-          name: 'initialLiquidity',
-          type: 'object',
-          description: 'Initial liquidity amounts for both tokens',
+          name: 'initialAmountA',
+          type: 'number',
+          description: 'Initial deposit of token A',
+          required: true
+        },
+        {
+          name: 'initialAmountB',
+          type: 'number',
+          description: 'Initial deposit of token B',
           required: true
         }
       ],
       examples: [
-        'createLiquidityPool(tokenA, tokenB, 0.003, { tokenA: 1000, tokenB: 1000 });'
+        'createLiquidityPool(tokenA, tokenB, 30, 1000, 1000);'
       ]
     }
   }
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, History, GitCompare, Eye } from 'lucide-react';
+import { DeploymentRecord } from '@/types/deployment';
+import { ProjectSettings } from '@/types/project';
+import { describeConnection, diffGraphs } from '@/utils/deploymentHistory';
+import { explorerUrl, NETWORK_LABELS } from '@/utils/networks';
+
+interface DeploymentHistoryProps {
+  deployments: DeploymentRecord[];
+  settings: ProjectSettings;
+  loading?: boolean;
+}
+
+const ReleaseDiff = ({ from, to }: { from: DeploymentRecord; to: DeploymentRecord }) => {
+  const diff = diffGraphs(from.graph, to.graph);
+  const unchanged = diff.addedNodes.length + diff.removedNodes.length + diff.changedNodes.length +
+    diff.addedConnections.length + diff.removedConnections.length === 0;
+
+  return (
+    <div className="space-y-2 p-3 bg-muted rounded-lg text-xs">
+      <div className="flex items-center space-x-2 font-medium">
+        <GitCompare className="h-4 w-4" />
+        <span>{new Date(from.createdAt).toLocaleString()} → {new Date(to.createdAt).toLocaleString()}</span>
+      </div>
+      {from.sourceHash === to.sourceHash && (
+        <p className="text-muted-foreground">Both releases were built from identical source.</p>
+      )}
+      {unchanged && <p className="text-muted-foreground">The graph did not change.</p>}
+      {diff.addedNodes.map(node => (
+        <div key={`added-${node.id}`} className="text-green-600">+ {node.name} <span className="text-muted-foreground">({node.type})</span></div>
+      ))}
+      {diff.removedNodes.map(node => (
+        <div key={`removed-${node.id}`} className="text-red-500">− {node.name} <span className="text-muted-foreground">({node.type})</span></div>
+      ))}
+      {diff.changedNodes.map(change => (
+        <div key={`changed-${change.after.id}`} className="text-amber-600">
+          ~ {change.before.name !== change.after.name ? `${change.before.name} → ${change.after.name}` : change.after.name}
+          <span className="text-muted-foreground"> ({change.properties.join(', ')})</span>
+        </div>
+      ))}
+      {diff.addedConnections.map(connection => (
+        <div key={`connected-${connection.id}`} className="text-green-600">
+          + {describeConnection(connection, to.graph, from.graph)}
+        </div>
+      ))}
+      {diff.removedConnections.map(connection => (
+        <div key={`disconnected-${connection.id}`} className="text-red-500">
+          − {describeConnection(connection, from.graph, to.graph)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const DeploymentHistory = ({ deployments, settings, loading }: DeploymentHistoryProps) => {
+  // Up to two releases picked for comparison
+  const [selected, setSelected] = useState<string[]>([]);
+  const compared = deployments
+    .filter(deployment => selected.includes(deployment.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const toggle = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev.slice(-1), id]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Release History</span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {loading && <p className="text-sm text-muted-foreground">Loading releases...</p>}
+        {!loading && deployments.length === 0 && (
+          <p className="text-sm text-muted-foreground">Deployments and upgrades of this project are listed here.</p>
+        )}
+
+        {compared.length === 2 && <ReleaseDiff from={compared[0]} to={compared[1]} />}
+        {deployments.length > 1 && compared.length < 2 && (
+          <p className="text-xs text-muted-foreground">Select two releases to compare their graphs.</p>
+        )}
+
+        {deployments.map(deployment => (
+          <div
+            key={deployment.id}
+            className={`p-3 rounded-lg border text-xs space-y-1 ${selected.includes(deployment.id) ? 'border-primary' : 'border-transparent bg-muted'}`}
+          >
+            <div className="flex items-center space-x-2">
+              {deployment.success ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-500" />
+              )}
+              <Badge variant="outline">{deployment.kind === 'upgrade' ? 'Upgrade' : 'Deploy'}</Badge>
+              <Badge variant="secondary">{NETWORK_LABELS[deployment.network]}</Badge>
+              <span className="flex-1 text-muted-foreground">{new Date(deployment.createdAt).toLocaleString()}</span>
+              {deployment.signature && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => window.open(explorerUrl('tx', deployment.signature!, deployment.network, settings), '_blank')}
+                >
+                  <Eye className="h-3 w-3" />
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => toggle(deployment.id)}>
+                <GitCompare className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="font-mono break-all">{deployment.programId}</div>
+            <div className="text-muted-foreground">
+              Source {deployment.sourceHash.slice(0, 12)}
+              {deployment.deployer && ` · by ${deployment.deployer.slice(0, 4)}...${deployment.deployer.slice(-4)}`}
+            </div>
+            {deployment.error && <div className="text-red-500">{deployment.error}</div>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeploymentHistory;
@@ -1,25 +1,144 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Rocket, Globe, CheckCircle, XCircle, Loader2, Eye } from 'lucide-react';
-import { ProgramDeployer, DeploymentResult } from '@/utils/solanaUtils';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Rocket, Globe, CheckCircle, XCircle, Loader2, Eye, Terminal, Trash2, Calculator } from 'lucide-react';
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { ProgramDeployer, DeploymentResult, ProgramInfo, CompilationResult, DeploymentCostEstimate } from '@/utils/SolanaUtils';
+import { BuildDiagnostic, BuildOutputLine, diagnosticNode } from '@/utils/buildBackend';
+import { BufferAccount, LoaderWallet, UploadProgress } from '@/utils/programLoader';
+import { WorkspaceFile } from '@/utils/workspaceExport';
+import { CanvasNode } from '@/types/editor';
+import { Network, ProjectSettings } from '@/types/project';
+import { explorerUrl, NETWORK_LABELS, NETWORKS, networkCluster, resolveEndpoint } from '@/utils/networks';
+import { sourceHash } from '@/utils/deploymentHistory';
 import { useToast } from '@/hooks/use-toast';
+import UpgradeAuthorityCard from './UpgradeAuthorityCard';
 
 interface DeploymentPanelProps {
   programCode: string;
+  // Exported workspace the build backend compiles
+  files: WorkspaceFile[];
+  // Merge conflicts left in the hand-edited files; nothing is built while there are any
+  conflicts?: number;
+  nodes: CanvasNode[];
+  settings: ProjectSettings;
+  // Every deploy or upgrade attempt, for the release history
+  onResult?: (result: DeploymentResult, kind: 'deploy' | 'upgrade', deployer: string | null) => void;
 }
 
-const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
-  const [network, setNetwork] = useState<'devnet' | 'mainnet'>('devnet');
+// A build waiting for the user to confirm its estimated cost
+interface PreparedBuild {
+  compiled: CompilationResult;
+  estimate: DeploymentCostEstimate;
+  network: Network;
+  sourceHash: string;
+}
+
+const formatSol = (lamports: number): string => `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`;
+
+const UPLOAD_STAGES: Record<UploadProgress['stage'], string> = {
+  buffer: 'Preparing buffer',
+  write: 'Writing program',
+  deploy: 'Deploying',
+};
+
+const DeploymentPanel = ({ programCode, files, conflicts = 0, nodes, settings, onResult }: DeploymentPanelProps) => {
+  const [network, setNetwork] = useState<Network>('devnet');
   const [isDeploying, setIsDeploying] = useState(false);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [prepared, setPrepared] = useState<PreparedBuild | null>(null);
   const [deploymentResult, setDeploymentResult] = useState<DeploymentResult | null>(null);
   const [showCode, setShowCode] = useState(false);
+  const [buildOutput, setBuildOutput] = useState<BuildOutputLine[]>([]);
+  const [programKeypair, setProgramKeypair] = useState<Keypair | null>(null);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [buffers, setBuffers] = useState<BufferAccount[] | null>(null);
+  // The declared program as deployed on the network, or null when it has not been deployed there
+  const [programInfo, setProgramInfo] = useState<ProgramInfo | null>(null);
+  const { publicKey, signTransaction, signAllTransactions } = useWallet();
   const { toast } = useToast();
+  const diagnostics: BuildDiagnostic[] = deploymentResult?.diagnostics || [];
+  const declaredId = settings.programIds[networkCluster(network, settings)];
 
-  const deployProgram = async () => {
+  const wallet: LoaderWallet | undefined = publicKey && signTransaction && signAllTransactions
+    ? { publicKey, signTransaction, signAllTransactions }
+    : undefined;
+  const isDeployed = !!programInfo?.upgradeable;
+  const upgradeAuthority: string | null = programInfo?.upgradeable?.authority ?? null;
+  const canUpgrade = !!wallet && upgradeAuthority === wallet.publicKey.toString();
+  // An estimate only holds for the network and source it was built for
+  const estimate = prepared && prepared.network === network && prepared.sourceHash === sourceHash(files)
+    ? prepared
+    : null;
+
+  const loadProgramInfo = useCallback(async () => {
+    try {
+      setProgramInfo(await new ProgramDeployer(network, undefined, { settings }).getProgramInfo(declaredId));
+    } catch {
+      setProgramInfo(null);
+    }
+  }, [network, declaredId, settings]);
+
+  useEffect(() => {
+    loadProgramInfo();
+  }, [loadProgramInfo]);
+
+  // `target/deploy/<program>-keypair.json`, as written by `anchor build` or `solana-keygen`
+  const handleKeypairFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const keypair = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(await file.text())));
+      if (keypair.publicKey.toString() !== declaredId) {
+        toast({
+          title: "Keypair does not match",
+          description: `${file.name} is for ${keypair.publicKey.toString()}, but the program declares ${declaredId} on ${network}.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      setProgramKeypair(keypair);
+    } catch {
+      toast({ title: "Keypair not loaded", description: `${file.name} is not a keypair file.`, variant: "destructive" });
+    }
+  };
+
+  const loadBuffers = async () => {
+    try {
+      setBuffers(await new ProgramDeployer(network, wallet, { settings }).findStrandedBuffers());
+    } catch (error) {
+      toast({
+        title: "Could not list buffers",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const closeBuffer = async (buffer: BufferAccount) => {
+    try {
+      await new ProgramDeployer(network, wallet, { settings }).closeStrandedBuffer(buffer.address);
+      setBuffers(prev => prev?.filter(b => !b.address.equals(buffer.address)) || null);
+      toast({
+        title: "Buffer closed",
+        description: `${(buffer.lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL returned to your wallet.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not close buffer",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Builds the program and prices deploying it, so the cost is known before anything is signed
+  const buildAndEstimate = async () => {
     if (!programCode.trim()) {
       toast({
         title: "No code to deploy",
@@ -28,20 +147,96 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
       });
       return;
     }
+    if (conflicts > 0) {
+      toast({
+        title: "Unresolved conflicts",
+        description: `Resolve ${conflicts} merge conflict${conflicts === 1 ? '' : 's'} in the edited files before deploying.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!isDeployed && !programKeypair) {
+      toast({
+        title: "No program keypair",
+        description: `Load the keypair for ${declaredId} to deploy it.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsBuilding(true);
+    setPrepared(null);
+    setDeploymentResult(null);
+    setBuildOutput([]);
+    setProgress(null);
+
+    try {
+      const deployer = new ProgramDeployer(network, wallet, { settings });
+      const hash = sourceHash(files);
+      const compiled: CompilationResult = await deployer.compileProgram(files, (output: BuildOutputLine) =>
+        setBuildOutput(prev => [...prev, output])
+      );
+      if (!compiled.success || !compiled.program) {
+        setDeploymentResult({
+          programId: declaredId,
+          signature: '',
+          success: false,
+          error: `Compilation failed: ${compiled.errors?.join(', ')}`,
+          network,
+          buildLogs: compiled.errors,
+          diagnostics: compiled.diagnostics,
+        });
+        return;
+      }
+
+      const costs: DeploymentCostEstimate = await deployer.estimateDeploymentCost(
+        compiled.program.length,
+        isDeployed ? declaredId : undefined
+      );
+      setPrepared({ compiled, estimate: costs, network, sourceHash: hash });
+    } catch (error) {
+      toast({
+        title: "Estimate failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const deployProgram = async () => {
+    if (!estimate || conflicts > 0) return;
 
     setIsDeploying(true);
     setDeploymentResult(null);
+    setProgress(null);
 
     try {
-      const deployer = new ProgramDeployer(network);
-      const result = await deployer.deployProgram(programCode, network);
+      const deployer = new ProgramDeployer(network, wallet, { settings });
+      const onOutput = (output: BuildOutputLine) => setBuildOutput(prev => [...prev, output]);
+      // Once deployed, the program keeps its ID and later builds go out as upgrades. The confirmed
+      // estimate's priority fee is the one the transactions pay
+      const options = {
+        compiled: estimate.compiled,
+        computeUnitPrice: estimate.estimate.computeUnitPrice,
+        onOutput,
+        onProgress: setProgress,
+      };
+      const result: DeploymentResult = isDeployed
+        ? await deployer.upgradeProgram(files, network, { ...options, programId: new PublicKey(declaredId) })
+        : await deployer.deployProgram(files, network, { ...options, programKeypair: programKeypair! });
       
       setDeploymentResult(result);
+      setPrepared(null);
+      onResult?.(result, isDeployed ? 'upgrade' : 'deploy', wallet?.publicKey.toString() || null);
+      if (!result.success && buffers) loadBuffers();
 
       if (result.success) {
+        loadProgramInfo();
         toast({
-          title: "Deployment successful!",
-          description: `Program deployed to ${network} with ID: ${result.programId.slice(0, 8)}...`,
+          title: isDeployed ? "Upgrade successful!" : "Deployment successful!",
+          description: `Program ${isDeployed ? 'upgraded on' : 'deployed to'} ${network} with ID: ${result.programId.slice(0, 8)}...`,
         });
       } else {
         toast({
@@ -73,40 +268,123 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
       <CardContent className="space-y-4">
         <div className="space-y-2">
           <label className="text-sm font-medium">Target Network</label>
-          <Select value={network} onValueChange={(value: 'devnet' | 'mainnet') => setNetwork(value)}>
+          <Select
+            value={network}
+            onValueChange={(value: Network) => {
+              setNetwork(value);
+              setProgramKeypair(null);
+              setBuffers(null);
+            }}
+          >
             <SelectTrigger>
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="devnet">
-                <div className="flex items-center space-x-2">
-                  <Globe className="h-4 w-4" />
-                  <span>Devnet (Testing)</span>
-                </div>
-              </SelectItem>
-              <SelectItem value="mainnet">
-                <div className="flex items-center space-x-2">
-                  <Globe className="h-4 w-4" />
-                  <span>Mainnet (Production)</span>
-                </div>
-              </SelectItem>
+              {NETWORKS.map(option => (
+                <SelectItem key={option} value={option} disabled={option === 'custom' && !settings.customRpc}>
+                  <div className="flex items-center space-x-2">
+                    <Globe className="h-4 w-4" />
+                    <span>{NETWORK_LABELS[option]}</span>
+                  </div>
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
+          <p className="text-xs text-muted-foreground">
+            {network === 'custom' && !settings.customRpc ? 'No custom RPC configured' : resolveEndpoint(network, settings).http}
+          </p>
         </div>
 
+        {isDeployed ? (
+          <UpgradeAuthorityCard
+            programId={declaredId}
+            info={programInfo}
+            network={network}
+            settings={settings}
+            wallet={wallet}
+            onChanged={loadProgramInfo}
+          />
+        ) : (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Program Keypair</label>
+            <Input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleKeypairFile(e.target.files?.[0])}
+            />
+            <p className="text-xs text-muted-foreground">
+              {programKeypair ? `Deploying ${declaredId}` : `Keypair file for ${declaredId}, the program ID declared for ${network}.`}
+            </p>
+          </div>
+        )}
+
+        {!wallet && (
+          <p className="text-sm text-muted-foreground">
+            {isDeployed
+              ? 'Connect the upgrade authority wallet to upgrade.'
+              : 'Connect a wallet to deploy. It pays for the deployment and becomes the upgrade authority.'}
+          </p>
+        )}
+
+        {estimate && (
+          <div className="space-y-2 p-3 bg-muted rounded-lg text-sm">
+            <label className="font-medium">Estimated {isDeployed ? 'Upgrade' : 'Deployment'} Cost</label>
+            {estimate.estimate.lines.map(line => (
+              <div key={line.label} className="flex justify-between text-xs">
+                <span>
+                  {line.label}
+                  {line.detail && <span className="text-muted-foreground"> ({line.detail})</span>}
+                  {line.refunded && <span className="text-muted-foreground">, returned after deploying</span>}
+                </span>
+                <span className="font-mono">{formatSol(line.lamports)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between text-xs border-t pt-2">
+              <span>Wallet balance needed</span>
+              <span className="font-mono">{formatSol(estimate.estimate.requiredLamports)}</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Total cost</span>
+              <span className="font-mono">{formatSol(estimate.estimate.totalLamports)}</span>
+            </div>
+          </div>
+        )}
+
         <div className="flex space-x-2">
-          <Button
-            onClick={deployProgram}
-            disabled={isDeploying || !programCode.trim()}
-            className="flex-1"
-          >
-            {isDeploying ? (
-              <Loader2 className="h-4 w-4 animate-spin mr-2" />
-            ) : (
-              <Rocket className="h-4 w-4 mr-2" />
-            )}
-            {isDeploying ? 'Deploying...' : 'Deploy Program'}
-          </Button>
+          {estimate ? (
+            <>
+              <Button
+                onClick={deployProgram}
+                disabled={isDeploying || conflicts > 0 || !wallet || (isDeployed ? !canUpgrade : !programKeypair)}
+                className="flex-1"
+              >
+                {isDeploying ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Rocket className="h-4 w-4 mr-2" />
+                )}
+                {isDeploying
+                  ? (isDeployed ? 'Upgrading...' : 'Deploying...')
+                  : (isDeployed ? 'Confirm Upgrade' : 'Confirm Deploy')}
+              </Button>
+              <Button variant="outline" onClick={() => setPrepared(null)} disabled={isDeploying}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button
+              onClick={buildAndEstimate}
+              disabled={isBuilding || !programCode.trim() || !wallet || (isDeployed ? !canUpgrade : !programKeypair)}
+              className="flex-1"
+            >
+              {isBuilding ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <Calculator className="h-4 w-4 mr-2" />
+              )}
+              {isBuilding ? 'Building...' : 'Build & Estimate'}
+            </Button>
+          )}
           
           <Button
             variant="outline"
@@ -128,6 +406,51 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
           </div>
         )}
 
+        {progress && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{UPLOAD_STAGES[progress.stage]}</span>
+              <span>{Math.round(progress.written / 1024)} / {Math.round(progress.total / 1024)} KB</span>
+            </div>
+            <Progress value={progress.total > 0 ? (progress.written / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        {buildOutput.length > 0 && (
+          <div className="space-y-2">
+            <label className="flex items-center space-x-2 text-sm font-medium">
+              <Terminal className="h-4 w-4" />
+              <span>Build Output</span>
+            </label>
+            <pre className="max-h-48 overflow-y-auto p-2 bg-background rounded text-xs font-mono whitespace-pre-wrap">
+              {buildOutput.map((output, index) => (
+                <div key={index} className={output.stream === 'stderr' ? 'text-muted-foreground' : undefined}>{output.line}</div>
+              ))}
+            </pre>
+          </div>
+        )}
+
+        {diagnostics.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Compiler Diagnostics</label>
+            {diagnostics.map((diagnostic, index) => {
+              const node = diagnosticNode(diagnostic, files, nodes);
+              return (
+                <div key={index} className="p-2 bg-muted rounded text-xs space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={diagnostic.severity === 'error' ? 'destructive' : 'secondary'}>{diagnostic.severity}</Badge>
+                    {node && <Badge variant="outline">{node.name}</Badge>}
+                    <span className="flex-1">{diagnostic.message}</span>
+                  </div>
+                  {diagnostic.file && (
+                    <div className="font-mono text-muted-foreground">{diagnostic.file}:{diagnostic.line}:{diagnostic.column}</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {deploymentResult && (
           <div className="space-y-3 p-4 bg-muted rounded-lg">
             <div className="flex items-center space-x-2">
@@ -156,13 +479,13 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
                       variant="outline"
                       size="sm"
                       onClick={() => {
-                        const url = `https://solscan.io/account/${deploymentResult.programId}${network === 'devnet' ? '?cluster=devnet' : ''}`;
+                        const url = explorerUrl('address', deploymentResult.programId, deploymentResult.network, settings);
                         window.open(url, '_blank');
                       }}
                       className="flex items-center space-x-1"
                     >
                       <Eye className="h-4 w-4" />
-                      <span>View on Solscan</span>
+                      <span>View on Explorer</span>
                     </Button>
                   </div>
                 </div>
@@ -176,7 +499,7 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
                       variant="outline"
                       size="sm"
                       onClick={() => {
-                        const url = `https://solscan.io/tx/${deploymentResult.signature}${network === 'devnet' ? '?cluster=devnet' : ''}`;
+                        const url = explorerUrl('tx', deploymentResult.signature, deploymentResult.network, settings);
                         window.open(url, '_blank');
                       }}
                       className="flex items-center space-x-1"
@@ -197,6 +520,30 @@ const DeploymentPanel = ({ programCode }: DeploymentPanelProps) => {
           </div>
         )}
 
+        {wallet && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">Upload Buffers</label>
+              <Button variant="outline" size="sm" onClick={loadBuffers}>Check</Button>
+            </div>
+            {buffers?.length === 0 && <p className="text-xs text-muted-foreground">No buffers left on {network}.</p>}
+            {buffers?.map(buffer => (
+              <div key={buffer.address.toString()} className="flex items-center space-x-2 text-xs">
+                <code className="flex-1 truncate">{buffer.address.toString()}</code>
+                <span>{(buffer.lamports / LAMPORTS_PER_SOL).toFixed(4)} SOL</span>
+                <Button variant="ghost" size="sm" onClick={() => closeBuffer(buffer)} title="Close and reclaim rent">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {buffers && buffers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                A buffer sized for this build is resumed on the next deploy; close the rest to reclaim their rent.
+              </p>
+            )}
+          </div>
+        )}
+
         {!programCode.trim() && (
           <div className="text-center text-muted-foreground py-8">
             <Rocket className="h-12 w-12 mx-auto mb-2 opacity-50" />
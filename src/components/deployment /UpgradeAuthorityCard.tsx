@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { KeyRound, Lock, Send } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { ProgramDeployer, ProgramInfo } from '@/utils/SolanaUtils';
+import { LoaderWallet } from '@/utils/programLoader';
+import { Network, ProjectSettings } from '@/types/project';
+import { useToast } from '@/hooks/use-toast';
+
+interface UpgradeAuthorityCardProps {
+  programId: string;
+  info: ProgramInfo;
+  network: Network;
+  settings: ProjectSettings;
+  wallet?: LoaderWallet;
+  // Called after the authority changed, so the program info can be reloaded
+  onChanged: () => void;
+}
+
+type PendingChange = { kind: 'transfer'; newAuthority: string } | { kind: 'immutable' };
+
+// Multisig vaults are PDAs, so off-curve addresses are accepted too
+const isPublicKey = (value: string): boolean => {
+  try {
+    new PublicKey(value);
+    return value.length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const UpgradeAuthorityCard = ({ programId, info, network, settings, wallet, onChanged }: UpgradeAuthorityCardProps) => {
+  const [newAuthority, setNewAuthority] = useState('');
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+  const authority: string | null = info.upgradeable?.authority ?? null;
+  const isAuthority = !!wallet && authority === wallet.publicKey.toString();
+
+  const applyChange = async (change: PendingChange) => {
+    setSubmitting(true);
+    try {
+      await new ProgramDeployer(network, wallet, { settings })
+        .setUpgradeAuthority(programId, change.kind === 'transfer' ? change.newAuthority : null);
+      toast({
+        title: change.kind === 'transfer' ? "Upgrade authority transferred" : "Program is now immutable",
+        description: change.kind === 'transfer'
+          ? `${change.newAuthority} can now upgrade ${programId}.`
+          : `${programId} can no longer be upgraded.`,
+      });
+      setNewAuthority('');
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Authority change failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 bg-muted rounded-lg">
+      <div className="flex items-center space-x-2">
+        <KeyRound className="h-4 w-4" />
+        <span className="font-medium text-sm">Upgrade Authority</span>
+        {authority ? (
+          isAuthority && <Badge variant="secondary">Connected wallet</Badge>
+        ) : (
+          <Badge variant="outline">Immutable</Badge>
+        )}
+      </div>
+      <code className="block p-2 bg-background rounded text-xs break-all">
+        {authority || 'None. The program can no longer be upgraded.'}
+      </code>
+      {info.upgradeable && (
+        <p className="text-xs text-muted-foreground">Last deployed in slot {info.upgradeable.lastDeploySlot}</p>
+      )}
+
+      {authority && !isAuthority && (
+        <p className="text-xs text-muted-foreground">Connect the upgrade authority wallet to upgrade or change the authority.</p>
+      )}
+
+      {isAuthority && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Input
+              value={newAuthority}
+              placeholder="New authority, e.g. a multisig vault address"
+              onChange={(e) => setNewAuthority(e.target.value.trim())}
+              className="font-mono text-xs"
+            />
+            <Button
+              variant="outline"
+              disabled={submitting || !isPublicKey(newAuthority) || newAuthority === authority}
+              onClick={() => setPending({ kind: 'transfer', newAuthority })}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Transfer
+            </Button>
+          </div>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={submitting}
+            onClick={() => setPending({ kind: 'immutable' })}
+          >
+            <Lock className="h-4 w-4 mr-1" />
+            Make immutable
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !submitting && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.kind === 'immutable' ? 'Make the program immutable?' : 'Transfer the upgrade authority?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === 'transfer'
+                ? `${pending.newAuthority} will be the only key able to upgrade ${programId} on ${network}. This wallet loses that right, and only the new authority can give it back. Check the address is one you control, such as your multisig's vault.`
+                : `${programId} on ${network} will never be upgradeable again, by anyone. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={submitting}
+              onClick={(e) => {
+                e.preventDefault();
+                if (pending) applyChange(pending);
+              }}
+            >
+              {pending?.kind === 'immutable' ? 'Make immutable' : 'Transfer authority'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default UpgradeAuthorityCard;
@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { AccountConstraints, AccountInitMode, AccountRef, CanvasNode, Connection, CustomConstraint } from '@/types/editor';
+import { getAccountFields } from '@/utils/accountSchema';
+import {
+  effectiveHasOne,
+  getAccountConstraints,
+  getAccountKind,
+  PAYER_REF,
+  usesSeparatePayer,
+  validateAccountConstraints,
+} from '@/utils/accountConstraints';
+import { AUTHORITY_SEED, accountFieldName, connectedAccountNodes, isPda } from '@/utils/pdaSeeds';
+import { toSnakeCase } from '@/utils/naming';
+import { ProgramErrorDefinition } from '@/types/project';
+import ErrorSelect from './ErrorSelect';
+
+const NONE = 'none';
+
+const parseNumber = (raw: string): number | undefined => raw === '' ? undefined : Number(raw);
+
+interface RefSelectProps {
+  value?: AccountRef;
+  options: { value: AccountRef; label: string }[];
+  placeholder: string;
+  onChange: (value?: AccountRef) => void;
+}
+
+const RefSelect = ({ value, options, placeholder, onChange }: RefSelectProps) => (
+  <Select value={value || NONE} onValueChange={(next) => onChange(next === NONE ? undefined : next)}>
+    <SelectTrigger className="h-8">
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={NONE}>{placeholder}</SelectItem>
+      {options.map(option => (
+        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface AccountConstraintsEditorProps {
+  instruction: CanvasNode;
+  nodes: CanvasNode[];
+  connections: Connection[];
+  errorCatalog: ProgramErrorDefinition[];
+  onChange: (accountConstraints: Record<string, AccountConstraints>) => void;
+}
+
+const AccountConstraintsEditor = ({ instruction, nodes, connections, errorCatalog, onChange }: AccountConstraintsEditorProps) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const accounts = connectedAccountNodes(instruction, nodes, connections);
+  const current = instruction.accountConstraints || {};
+
+  if (accounts.length === 0) return null;
+
+  const updateConstraints = (accountId: string, updates: Partial<AccountConstraints>) => {
+    onChange({ ...current, [accountId]: { ...current[accountId], ...updates } });
+  };
+
+  const refOptions = [
+    { value: AUTHORITY_SEED, label: 'Authority (signer)' },
+    ...(usesSeparatePayer(instruction) ? [{ value: PAYER_REF, label: 'Payer (signer)' }] : []),
+    ...accounts.map(account => ({ value: account.id, label: account.name })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium text-text-primary">Accounts</h4>
+
+      {accounts.map(account => {
+        const constraints = getAccountConstraints(instruction, account.id);
+        const kind = getAccountKind(account);
+        const errors = validateAccountConstraints(instruction, account, nodes, connections);
+        const pubkeyFields = getAccountFields(account)
+          .filter(field => field.type.kind === 'pubkey')
+          .map(field => toSnakeCase(field.name));
+        const update = (updates: Partial<AccountConstraints>) => updateConstraints(account.id, updates);
+        const updateCustom = (id: string, updates: Partial<CustomConstraint>) => update({
+          custom: (constraints.custom || []).map(custom => custom.id === id ? { ...custom, ...updates } : custom)
+        });
+        const isOpen = expanded === account.id;
+
+        return (
+          <div key={account.id} className="space-y-2 border border-ui-accent rounded p-2">
+            <div className="flex items-center justify-between space-x-2">
+              <button
+                className="flex items-center space-x-1 min-w-0 text-sm text-text-primary"
+                onClick={() => setExpanded(isOpen ? null : account.id)}
+              >
+                {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                <span className="truncate">{account.name}</span>
+              </button>
+              <div className="flex items-center space-x-1">
+                {isPda(account) && <Badge variant="outline">PDA</Badge>}
+                {kind !== 'state' && <Badge variant="outline">{kind}</Badge>}
+                {errors.length > 0 && <Badge variant="destructive">{errors.length}</Badge>}
+              </div>
+            </div>
+
+            <Select
+              value={constraints.init || NONE}
+              onValueChange={(value) => update({ init: value === NONE ? undefined : value as AccountInitMode })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Existing account</SelectItem>
+                <SelectItem value="init">init</SelectItem>
+                <SelectItem value="init_if_needed">init_if_needed</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {isOpen && (
+              <div className="space-y-2">
+                {(constraints.init || constraints.realloc) && (
+                  <Select
+                    value={constraints.payer || AUTHORITY_SEED}
+                    onValueChange={(payer) => update({ payer: payer as AccountConstraints['payer'] })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTHORITY_SEED}>Paid by authority</SelectItem>
+                      <SelectItem value={PAYER_REF}>Paid by separate payer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {kind === 'state' && constraints.init && (
+                  <Input
+                    type="number"
+                    value={constraints.space ?? ''}
+                    onChange={(e) => update({ space: parseNumber(e.target.value) })}
+                    className="h-8"
+                    placeholder="space (defaults to schema size)"
+                  />
+                )}
+
+                {kind === 'state' && !constraints.init && (
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={!!constraints.realloc}
+                      onCheckedChange={(checked) => update({ realloc: checked ? { space: 0, zero: false } : undefined })}
+                    />
+                    <span className="text-xs text-text-secondary">realloc</span>
+                    {constraints.realloc && (
+                      <>
+                        <Input
+                          type="number"
+                          value={constraints.realloc.space}
+                          onChange={(e) => update({ realloc: { ...constraints.realloc!, space: Number(e.target.value) } })}
+                          className="h-8 w-24"
+                          title="New size in bytes"
+                        />
+                        <Switch
+                          checked={constraints.realloc.zero}
+                          onCheckedChange={(zero) => update({ realloc: { ...constraints.realloc!, zero } })}
+                        />
+                        <span className="text-xs text-text-secondary">zero</span>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {kind === 'state' && !constraints.init && pubkeyFields.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {pubkeyFields.map(name => {
+                      const hasOne = effectiveHasOne(account, constraints);
+                      const active = hasOne.includes(name);
+                      return (
+                        <Badge
+                          key={name}
+                          variant={active ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => update({ hasOne: active ? hasOne.filter(n => n !== name) : [...hasOne, name] })}
+                        >
+                          has_one = {name}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {kind === 'token' && (
+                  <>
+                    <RefSelect
+                      value={constraints.tokenMint}
+                      options={refOptions.filter(option => accounts.some(a => a.id === option.value && getAccountKind(a) === 'mint'))}
+                      placeholder="token::mint"
+                      onChange={(tokenMint) => update({ tokenMint })}
+                    />
+                    <RefSelect
+                      value={constraints.tokenAuthority}
+                      options={refOptions}
+                      placeholder="token::authority"
+                      onChange={(tokenAuthority) => update({ tokenAuthority })}
+                    />
+                  </>
+                )}
+
+                {kind === 'mint' && (
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      value={constraints.mintDecimals ?? ''}
+                      onChange={(e) => update({ mintDecimals: parseNumber(e.target.value) })}
+                      className="h-8 w-24"
+                      placeholder="decimals"
+                    />
+                    <RefSelect
+                      value={constraints.mintAuthority}
+                      options={refOptions}
+                      placeholder="mint::authority"
+                      onChange={(mintAuthority) => update({ mintAuthority })}
+                    />
+                  </div>
+                )}
+
+                <RefSelect
+                  value={constraints.close}
+                  options={refOptions.filter(option => option.value !== account.id)}
+                  placeholder="Keep open"
+                  onChange={(close) => update({ close })}
+                />
+
+                {!isPda(account) && (
+                  <Input
+                    value={constraints.address || ''}
+                    onChange={(e) => update({ address: e.target.value || undefined })}
+                    className="h-8 font-mono"
+                    placeholder="address"
+                  />
+                )}
+                <Input
+                  value={constraints.owner || ''}
+                  onChange={(e) => update({ owner: e.target.value || undefined })}
+                  className="h-8 font-mono"
+                  placeholder="owner program"
+                />
+
+                {(constraints.custom || []).map(custom => (
+                  <div key={custom.id} className="flex items-center space-x-1">
+                    <Input
+                      value={custom.expression}
+                      onChange={(e) => updateCustom(custom.id, { expression: e.target.value })}
+                      className="h-8 flex-1 font-mono"
+                      placeholder={`${accountFieldName(account)}.data > 0`}
+                    />
+                    <ErrorSelect
+                      value={custom.error}
+                      catalog={errorCatalog}
+                      placeholder="Error"
+                      className="h-8 w-32"
+                      onChange={(error) => updateCustom(custom.id, { error: error || '' })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update({ custom: (constraints.custom || []).filter(c => c.id !== custom.id) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({
+                    custom: [...(constraints.custom || []), { id: crypto.randomUUID(), expression: '', error: errorCatalog[0]?.name || '' }]
+                  })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Constraint
+                </Button>
+              </div>
+            )}
+
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-500 space-y-1">
+                {errors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AccountConstraintsEditor;
@@ -0,0 +1,243 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { AccountField, CanvasNode, EnumVariant, FieldType } from '@/types/editor';
+import { SCALAR_FIELD_KINDS, accountSpace, validateAccountFields } from '@/utils/accountSchema';
+import { getEventFields, validateEventNode } from '@/utils/programEvents';
+
+const COMPOUND_KINDS = ['string', 'vec', 'struct', 'enum'];
+
+const defaultTypeFor = (kind: string): FieldType => {
+  switch (kind) {
+    case 'string':
+      return { kind: 'string', maxLength: 32 };
+    case 'vec':
+      return { kind: 'vec', maxLength: 10, items: { kind: 'u64' } };
+    case 'struct':
+      return { kind: 'struct', name: 'NewStruct', fields: [] };
+    case 'enum':
+      return { kind: 'enum', name: 'NewEnum', variants: [{ name: 'Default' }] };
+    default:
+      return { kind } as FieldType;
+  }
+};
+
+interface FieldTypeEditorProps {
+  type: FieldType;
+  onChange: (type: FieldType) => void;
+}
+
+export const FieldTypeEditor = ({ type, onChange }: FieldTypeEditorProps) => {
+  const updateVariant = (index: number, updates: Partial<EnumVariant>) => {
+    if (type.kind !== 'enum') return;
+    const variants = type.variants.map((variant, i) => i === index ? { ...variant, ...updates } : variant);
+    onChange({ ...type, variants });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Select value={type.kind} onValueChange={(kind) => onChange(defaultTypeFor(kind))}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...SCALAR_FIELD_KINDS, ...COMPOUND_KINDS].map(kind => (
+              <SelectItem key={kind} value={kind}>{kind === 'pubkey' ? 'Pubkey' : kind}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(type.kind === 'string' || type.kind === 'vec') && (
+          <Input
+            type="number"
+            min={1}
+            value={type.maxLength}
+            onChange={(e) => onChange({ ...type, maxLength: parseInt(e.target.value, 10) || 0 })}
+            className="h-8 w-20"
+            title="Max length"
+          />
+        )}
+
+        {(type.kind === 'struct' || type.kind === 'enum') && (
+          <Input
+            value={type.name}
+            onChange={(e) => onChange({ ...type, name: e.target.value })}
+            className="h-8 flex-1"
+            placeholder="Type name"
+          />
+        )}
+      </div>
+
+      {type.kind === 'vec' && (
+        <div className="pl-3 border-l border-ui-accent">
+          <span className="text-xs text-text-secondary">Item type</span>
+          <FieldTypeEditor
+            type={type.items}
+            onChange={(items) => onChange({ ...type, items })}
+          />
+        </div>
+      )}
+
+      {type.kind === 'struct' && (
+        <div className="pl-3 border-l border-ui-accent">
+          <FieldListEditor
+            fields={type.fields}
+            onChange={(fields) => onChange({ ...type, fields })}
+          />
+        </div>
+      )}
+
+      {type.kind === 'enum' && (
+        <div className="pl-3 border-l border-ui-accent space-y-2">
+          {type.variants.map((variant, index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={variant.name}
+                  onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  className="h-8 flex-1"
+                  placeholder="Variant"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ ...type, variants: type.variants.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="pl-3">
+                <FieldListEditor
+                  fields={variant.fields || []}
+                  onChange={(fields) => updateVariant(index, { fields })}
+                />
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...type, variants: [...type.variants, { name: `Variant${type.variants.length + 1}` }] })}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Variant
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface FieldListEditorProps {
+  fields: AccountField[];
+  onChange: (fields: AccountField[]) => void;
+}
+
+const FieldListEditor = ({ fields, onChange }: FieldListEditorProps) => {
+  const updateField = (id: string, updates: Partial<AccountField>) => {
+    onChange(fields.map(field => field.id === id ? { ...field, ...updates } : field));
+  };
+
+  return (
+    <div className="space-y-2">
+      {fields.map(field => (
+        <div key={field.id} className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <Input
+              value={field.name}
+              onChange={(e) => updateField(field.id, { name: e.target.value })}
+              className="h-8 flex-1"
+              placeholder="field_name"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(fields.filter(f => f.id !== field.id))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <FieldTypeEditor
+            type={field.type}
+            onChange={(type) => updateField(field.id, { type })}
+          />
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([
+          ...fields,
+          { id: crypto.randomUUID(), name: `field_${fields.length + 1}`, type: { kind: 'u64' } }
+        ])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Field
+      </Button>
+    </div>
+  );
+};
+
+interface AccountSchemaEditorProps {
+  fields: AccountField[];
+  onChange: (fields: AccountField[]) => void;
+}
+
+const AccountSchemaEditor = ({ fields, onChange }: AccountSchemaEditorProps) => {
+  const errors = validateAccountFields(fields);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Account Fields</h4>
+        <Badge variant={errors.length > 0 ? 'destructive' : 'secondary'}>
+          {errors.length > 0 ? `${errors.length} issue${errors.length > 1 ? 's' : ''}` : `${accountSpace(fields)} bytes`}
+        </Badge>
+      </div>
+
+      <FieldListEditor fields={fields} onChange={onChange} />
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface EventFieldsEditorProps {
+  event: CanvasNode;
+  onChange: (fields: AccountField[]) => void;
+}
+
+// Payload of an `#[event]` struct; fields named after an argument or account are filled from it
+export const EventFieldsEditor = ({ event, onChange }: EventFieldsEditorProps) => {
+  const fields = getEventFields(event);
+  const errors = validateEventNode(event);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Event Fields</h4>
+        <Badge variant={errors.length > 0 ? 'destructive' : 'secondary'}>
+          {errors.length > 0 ? `${errors.length} issue${errors.length > 1 ? 's' : ''}` : `${fields.length} field${fields.length === 1 ? '' : 's'}`}
+        </Badge>
+      </div>
+
+      <FieldListEditor fields={fields} onChange={onChange} />
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AccountSchemaEditor;
@@ -8,18 +8,45 @@ import { ModuleItem } from './ModuleItem';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import CodePreview from './CodePreview';
-import { generateAnchorCode } from '@/utils/codeGeneration';
+import { generateAnchorCode, validateProgramModel } from '@/utils/codeGeneration';
+import { defaultArgsForTemplate } from '@/utils/moduleEmitters';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, X, Copy, Download, Code2, Database, Layers, Zap, Settings, Bell, HelpCircle, Wand2, Play } from 'lucide-react';
+import { Plus, X, Copy, Download, Code2, Database, Layers, Zap, Settings, Bell, HelpCircle, Wand2, Play, Radio, Share2, Upload } from 'lucide-react';
 import TestRunner from '@/components/testing/TestRunner';
+import TransactionPlayground from '@/components/testing/TransactionPlayground';
+import ComputeProfileCard from '@/components/testing/ComputeProfileCard';
 import DeploymentPanel from '@/components/deployment/DeploymentPanel';
+import DeploymentHistory from '@/components/deployment/DeploymentHistory';
 import TransactionMonitor from '@/components/monitoring/TransactionMonitor';
+import AccountInspector from '@/components/monitoring/AccountInspector';
 import ModuleLibrary from './ModuleLibrary';
 import ProgramFlowPanel from './ProgramFlowPanel';
 import SettingsPanel from './SettingsPanel';
 import HelpPanel from './HelpPanel';
 import AIAssistantPanel from './AIAssistantPanel';
 import ConnectionTypesPanel from './ConnectionTypesPanel';
+import NodeInspector from './NodeInspector';
+import ProgramSettingsCard from './ProgramSettingsCard';
+import ErrorCatalogCard from './ErrorCatalogCard';
+import { useProjectSettings } from '@/hooks/use-project-settings';
+import { useDeployments } from '@/hooks/use-deployments';
+import { useComputeProfiles } from '@/hooks/use-compute-profiles';
+import { useCodeEdits } from '@/hooks/use-code-edits';
+import { snapshotGraph, sourceHash } from '@/utils/deploymentHistory';
+import { DeploymentGraph } from '@/types/deployment';
+import { DeploymentResult, TestResult } from '@/utils/SolanaUtils';
+import { findRegressions, profileFromResults } from '@/utils/computeProfile';
+import { instructionTestInputs } from '@/utils/executionEngine';
+import { validateProjectSettings } from '@/utils/projectSettings';
+import { buildWorkspaceFiles } from '@/utils/workspaceExport';
+import { applyCodeEdits, countEditConflicts } from '@/utils/codeMerge';
+import { EVENT_NODE_TYPE } from '@/utils/programEvents';
+import { CPI_NODE_TYPE, cpiPorts } from '@/utils/cpiCalls';
+import { CPI_PROGRAMS } from '@/utils/cpiPrograms';
+import { isInstructionNode } from '@/utils/nodeKinds';
+import { argsFromParameters } from '@/utils/instructionArgs';
+import { importIdl } from '@/utils/idlImport';
+import { validateProgramIdl } from '@/utils/cpiPrograms';
 import { ModuleTemplate } from '@/types/modules';
 
 interface CanvasProps {
@@ -54,6 +81,8 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
   const [mouseStart, setMouseStart] = useState({ x: 0, y: 0 });
   const [codePreviewOpen, setCodePreviewOpen] = useState(false);
   const [generatedCode, setGeneratedCode] = useState(null);
+  // The graph `generatedCode` was generated from; the canvas may have changed since
+  const [generatedGraph, setGeneratedGraph] = useState<DeploymentGraph | null>(null);
   const [activeTab, setActiveTab] = useState<'design' | 'test' | 'deploy' | 'monitor'>('design');
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
@@ -62,7 +91,71 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
   const canvasRef = useRef<HTMLDivElement>(null);
+  const idlInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { settings: projectSettings, saveSettings } = useProjectSettings(projectId);
+  const { deployments, loading: deploymentsLoading, recordDeployment } = useDeployments(projectId);
+  const { profiles, loading: profilesLoading, recordProfile } = useComputeProfiles(projectId);
+  const { edits: codeEdits, loading: codeEditsLoading, setEdits: setCodeEdits, saveEdits: saveCodeEdits } = useCodeEdits(projectId);
+
+  // What gets built, deployed and hashed: the generated code with the hand edits the export also applies
+  const editedCode = generatedCode ? applyCodeEdits(generatedCode, codeEdits) : null;
+  const workspaceFiles = editedCode ? buildWorkspaceFiles(editedCode, projectSettings) : [];
+  const editConflicts = countEditConflicts(codeEdits);
+
+  // Keeps every attempt with the source, graph and IDL it was built from
+  const handleDeploymentResult = async (result: DeploymentResult, kind: 'deploy' | 'upgrade', deployer: string | null) => {
+    const { error } = await recordDeployment({
+      kind,
+      network: result.network,
+      programId: result.programId,
+      signature: result.signature || null,
+      success: result.success,
+      error: result.error || null,
+      sourceHash: sourceHash(workspaceFiles),
+      idl: result.idl ? JSON.parse(result.idl) : null,
+      graph: generatedGraph || snapshotGraph(nodes, connections),
+      deployer,
+      buildLogs: result.buildLogs || [],
+    });
+
+    if (error) {
+      toast({
+        title: "Release not recorded",
+        description: error instanceof Error ? error.message : "The deployment could not be added to the history.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Keeps the compute units each test measured and flags instructions that got more expensive
+  const handleTestComplete = async (results: TestResult[]) => {
+    if (!generatedCode || !generatedGraph) return;
+    const instructions = profileFromResults(results, JSON.parse(generatedCode.idl).address);
+    // Nothing was sent, e.g. without a validator, so the run has nothing to compare
+    if (instructions.every(entry => entry.computeUnits === null)) return;
+
+    const { profile, error } = await recordProfile({
+      network: 'localnet',
+      sourceHash: sourceHash(workspaceFiles),
+      graph: generatedGraph,
+      instructions,
+    });
+    if (error) {
+      console.error('Failed to record compute profile:', error);
+    }
+
+    const regressions = findRegressions(profile, profiles);
+    if (regressions.length > 0) {
+      toast({
+        title: "Compute usage increased",
+        description: regressions
+          .map(regression => `${regression.instruction}: ${regression.before.toLocaleString()} → ${regression.after.toLocaleString()} CU`)
+          .join(', '),
+        variant: "destructive"
+      });
+    }
+  };
 
   const handleAddStartNode = () => {
     const hasStartNode = nodes.some(node => node.type === 'start');
@@ -95,6 +188,82 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
     });
   };
 
+  // Events are emitted by the instructions wired into their `emit` port
+  const handleAddEventNode = () => {
+    const newNode: CanvasNode = {
+      id: crypto.randomUUID(),
+      type: EVENT_NODE_TYPE,
+      name: 'New Event',
+      x: Math.random() * 200 + 550,
+      y: Math.random() * 200 + 100,
+      width: 200,
+      height: 120,
+      color: 'from-amber-500 to-orange-500',
+      inputs: [{ id: crypto.randomUUID(), name: 'emit', type: 'event' }],
+      outputs: [],
+      fields: [],
+    };
+    addNode(newNode);
+
+    toast({
+      title: "Event added",
+      description: "Connect an instruction to it and add the fields it carries.",
+    });
+  };
+
+  // CPI nodes expose one port per instruction of the target program; callers wire into the one they invoke
+  const handleAddCpiNode = () => {
+    const newNode: CanvasNode = {
+      id: crypto.randomUUID(),
+      type: CPI_NODE_TYPE,
+      name: 'New CPI',
+      x: Math.random() * 200 + 550,
+      y: Math.random() * 200 + 300,
+      width: 220,
+      height: 160,
+      color: 'from-sky-500 to-indigo-500',
+      inputs: cpiPorts(CPI_PROGRAMS.system),
+      outputs: [],
+      cpi: { program: 'system', invocations: {} },
+    };
+    addNode(newNode);
+
+    toast({
+      title: "CPI added",
+      description: "Pick the program to call, then connect an instruction to one of its ports.",
+    });
+  };
+
+  // Rebuild an existing program's instructions, accounts and events from its IDL, placed right of the current graph
+  const handleImportIdl = async (file?: File) => {
+    if (!file) return;
+    let idl;
+    try {
+      idl = JSON.parse(await file.text());
+    } catch {
+      toast({ title: "Import failed", description: `${file.name} is not valid JSON.`, variant: "destructive" });
+      return;
+    }
+
+    const problems = validateProgramIdl(idl);
+    if (problems.length > 0) {
+      toast({ title: "Import failed", description: problems[0], variant: "destructive" });
+      return;
+    }
+
+    const right = nodes.reduce((max, node) => Math.max(max, node.x + node.width), 0);
+    const imported = importIdl(idl, { x: right > 0 ? right + 120 : 100, y: 100 });
+    imported.nodes.forEach(node => addNode(node));
+    imported.connections.forEach(connection => addConnection(connection));
+
+    toast({
+      title: "IDL imported",
+      description: imported.warnings.length > 0
+        ? `${imported.nodes.length} nodes added; ${imported.warnings.length} part${imported.warnings.length === 1 ? '' : 's'} of the IDL could not be represented: ${imported.warnings.join('; ')}`
+        : `${imported.nodes.length} nodes and ${imported.connections.length} connections added.`,
+    });
+  };
+
   const handleAddModuleFromTemplate = (type: string, template?: ModuleTemplate) => {
     const newNode: CanvasNode = {
       id: crypto.randomUUID(),
@@ -115,6 +284,8 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
         name: output.name,
         type: output.type
       })) : (type === 'instruction' ? [{ id: crypto.randomUUID(), name: 'output', type: 'data' }] : []),
+      templateId: template?.id,
+      args: template && type !== 'account' ? defaultArgsForTemplate(template) : undefined,
     };
     addNode(newNode);
     
@@ -140,6 +311,10 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
       description: moduleData.description,
       code: moduleData.code
     };
+    // The module's code uses its parameters by name, so the handler must declare them
+    if (isInstructionNode(newNode)) {
+      newNode.args = argsFromParameters(moduleData.parameters || []);
+    }
     
     addNode(newNode);
     
@@ -272,8 +447,22 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
         return;
       }
 
-      const generated = generateAnchorCode(nodes, connections);
+      const problems = [
+        ...validateProjectSettings(projectSettings),
+        ...validateProgramModel(nodes, connections, projectSettings),
+      ];
+      if (problems.length > 0) {
+        toast({
+          title: `Fix ${problems.length} issue${problems.length > 1 ? 's' : ''} before generating`,
+          description: problems[0],
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const generated = generateAnchorCode(nodes, connections, projectSettings);
       setGeneratedCode(generated);
+      setGeneratedGraph(snapshotGraph(nodes, connections));
       setCodePreviewOpen(true);
       onGenerate();
       
@@ -293,7 +482,7 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
 
   const getInstructionNames = () => {
     return nodes
-      .filter(node => node.type !== 'account')
+      .filter(isInstructionNode)
       .map(node => node.name.toLowerCase().replace(/\s+/g, '_'));
   };
 
@@ -410,6 +599,43 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
                   <Play className="h-4 w-4 mr-1" />
                   Add Start Node
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddEventNode}
+                  className="border-ui-accent text-amber-500 hover:bg-amber-500/10"
+                >
+                  <Radio className="h-4 w-4 mr-1" />
+                  Add Event
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddCpiNode}
+                  className="border-ui-accent text-sky-500 hover:bg-sky-500/10"
+                >
+                  <Share2 className="h-4 w-4 mr-1" />
+                  Add CPI
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => idlInputRef.current?.click()}
+                  className="border-ui-accent"
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import IDL
+                </Button>
+                <input
+                  ref={idlInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleImportIdl(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
                 <Button
                   variant="outline"
                   size="sm"
@@ -636,28 +862,57 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
 
             {/* Other tabs content */}
             {activeTab === 'test' && (
-              <div className="p-6 h-full overflow-y-auto">
+              <div className="p-6 h-full overflow-y-auto space-y-6">
                 <TestRunner
                   instructions={getInstructionNames()}
-                  network="devnet"
-                  onTestComplete={(results) => {
-                    console.log('Test results:', results);
-                  }}
+                  idl={generatedCode ? JSON.parse(generatedCode.idl) : undefined}
+                  inputs={instructionTestInputs(nodes, connections)}
+                  network="localnet"
+                  settings={projectSettings}
+                  onTestComplete={handleTestComplete}
+                />
+                <ComputeProfileCard
+                  profiles={profiles}
+                  settings={projectSettings}
+                  loading={profilesLoading}
+                  onSave={saveSettings}
+                />
+                <TransactionPlayground
+                  idl={generatedCode ? JSON.parse(generatedCode.idl) : undefined}
+                  nodes={nodes}
+                  settings={projectSettings}
                 />
               </div>
             )}
 
             {activeTab === 'deploy' && (
-              <div className="p-6 h-full overflow-y-auto">
+              <div className="p-6 h-full overflow-y-auto space-y-6">
                 <DeploymentPanel
-                  programCode={generatedCode?.lib || ''}
+                  programCode={editedCode?.lib || ''}
+                  files={workspaceFiles}
+                  conflicts={editConflicts}
+                  nodes={nodes}
+                  settings={projectSettings}
+                  onResult={handleDeploymentResult}
                 />
+                <DeploymentHistory deployments={deployments} settings={projectSettings} loading={deploymentsLoading} />
               </div>
             )}
 
             {activeTab === 'monitor' && (
-              <div className="p-6 h-full overflow-y-auto">
-                <TransactionMonitor />
+              <div className="p-6 h-full overflow-y-auto space-y-6">
+                <TransactionMonitor
+                  idl={generatedCode ? JSON.parse(generatedCode.idl) : undefined}
+                  nodes={nodes}
+                  settings={projectSettings}
+                  projectId={projectId}
+                />
+                <AccountInspector
+                  idl={generatedCode ? JSON.parse(generatedCode.idl) : undefined}
+                  nodes={nodes}
+                  connections={connections}
+                  settings={projectSettings}
+                />
               </div>
             )}
           </div>
@@ -666,7 +921,12 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
           {activeTab === 'design' && (
             <div className="w-80 border-l border-ui-accent bg-ui-base p-4 overflow-y-auto flex-shrink-0">
               {nodes.length > 0 ? (
-                <ProgramFlowPanel nodes={nodes} connections={connections} />
+                <div className="space-y-4">
+                  <ProgramSettingsCard settings={projectSettings} onSave={saveSettings} />
+                  <ErrorCatalogCard settings={projectSettings} nodes={nodes} onSave={saveSettings} />
+                  <NodeInspector nodes={nodes} connections={connections} errorCatalog={projectSettings.errors} onUpdate={updateNode} />
+                  <ProgramFlowPanel nodes={nodes} connections={connections} />
+                </div>
               ) : (
                 <div className="space-y-6">
                   <div className="text-center py-6">
@@ -717,6 +977,11 @@ const Canvas = ({ onGenerate, onTest, projectId }: CanvasProps) => {
       <CodePreview
         nodes={nodes}
         connections={connections}
+        settings={projectSettings}
+        edits={codeEdits}
+        editsLoading={codeEditsLoading}
+        onEditsChange={setCodeEdits}
+        onSaveEdits={saveCodeEdits}
         isOpen={codePreviewOpen}
         onClose={() => setCodePreviewOpen(false)}
       />
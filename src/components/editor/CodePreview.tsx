@@ -1,33 +1,88 @@
 
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Download, Copy, Eye, Edit3 } from 'lucide-react';
+import { Download, Copy, Eye, Edit3, RotateCcw } from 'lucide-react';
 import { CanvasNode, Connection } from '@/types/editor';
+import { ProjectSettings } from '@/types/project';
 import { generateAnchorCode, GeneratedCode } from '@/utils/codeGeneration';
+import { exportWorkspaceZip } from '@/utils/workspaceExport';
+import { applyCodeEdits, CodeEdits, countConflicts, countEditConflicts, editableFiles, rebaseCodeEdits, sameCodeEdits } from '@/utils/codeMerge';
 import { useToast } from '@/hooks/use-toast';
 
 interface CodePreviewProps {
   nodes: CanvasNode[];
   connections: Connection[];
+  settings: ProjectSettings;
+  // Hand edits from `useCodeEdits`, owned by the canvas so builds and deploys use them too
+  edits: CodeEdits;
+  editsLoading?: boolean;
+  onEditsChange: (edits: CodeEdits) => void;
+  onSaveEdits: (edits: CodeEdits) => Promise<{ error: unknown }>;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps) => {
+// Whether a file carries hand edits, and how many merge conflicts are left in it
+const EditStatus = ({ edits, file }: { edits: CodeEdits; file: string }) => {
+  const edit = edits[file];
+  if (!edit) return null;
+  const conflicts = countConflicts(edit.edited);
+  return conflicts > 0
+    ? <Badge variant="destructive">{conflicts} conflict{conflicts === 1 ? '' : 's'}</Badge>
+    : <Badge variant="secondary">edited</Badge>;
+};
+
+const CodePreview = ({
+  nodes,
+  connections,
+  settings,
+  edits,
+  editsLoading,
+  onEditsChange: setEdits,
+  onSaveEdits: saveEdits,
+  isOpen,
+  onClose,
+}: CodePreviewProps) => {
   const [generatedCode, setGeneratedCode] = useState<GeneratedCode | null>(null);
-  const [editableCode, setEditableCode] = useState<GeneratedCode | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     if (isOpen && nodes.length > 0) {
-      const code = generateAnchorCode(nodes, connections);
-      setGeneratedCode(code);
-      setEditableCode(code);
+      setGeneratedCode(generateAnchorCode(nodes, connections, settings));
     }
-  }, [nodes, connections, isOpen]);
+  }, [nodes, connections, settings, isOpen]);
+
+  // Merge hand edits into the new output whenever the graph regenerates it
+  useEffect(() => {
+    if (!generatedCode || editsLoading) return;
+    const rebased = rebaseCodeEdits(edits, editableFiles(generatedCode));
+    if (!sameCodeEdits(rebased, edits)) saveEdits(rebased);
+  }, [generatedCode, edits, editsLoading, saveEdits]);
+
+  const editableCode = generatedCode ? applyCodeEdits(generatedCode, edits) : null;
+  const conflicts = countEditConflicts(edits);
+
+  const updateFile = (file: string, content: string) => {
+    if (!generatedCode) return;
+    const generated = editableFiles(generatedCode)[file];
+    const { [file]: _, ...rest } = edits;
+    setEdits(content === generated ? rest : { ...rest, [file]: { base: generated, edited: content } });
+  };
+
+  const persistEdits = async (next: CodeEdits) => {
+    const { error } = await saveEdits(next);
+    if (error) {
+      toast({
+        title: "Failed to save edits",
+        description: "Your changes to the generated code could not be stored with the project.",
+        variant: "destructive"
+      });
+    }
+  };
 
   const handleCopyToClipboard = async (content: string) => {
     try {
@@ -45,45 +100,45 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
     }
   };
 
-  const handleDownloadProject = () => {
+  const handleDownloadProject = async () => {
     if (!editableCode) return;
+    if (conflicts > 0) {
+      toast({
+        title: "Unresolved conflicts",
+        description: `Resolve ${conflicts} merge conflict${conflicts === 1 ? '' : 's'} in the edited files before downloading.`,
+        variant: "destructive"
+      });
+      return;
+    }
 
-    const files = [
-      { name: 'src/lib.rs', content: editableCode.lib },
-      { name: 'tests/test.ts', content: editableCode.tests },
-      { name: 'Cargo.toml', content: editableCode.cargoToml },
-      { name: 'Anchor.toml', content: editableCode.anchorToml },
-      ...editableCode.instructions.map((instruction, index) => ({
-        name: `src/instructions/instruction_${index + 1}.rs`,
-        content: instruction
-      }))
-    ];
-
-    // Create and download zip-like structure as text files
-    files.forEach(file => {
-      const blob = new Blob([file.content], { type: 'text/plain' });
+    try {
+      const blob = await exportWorkspaceZip(editableCode, settings);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = file.name.replace(/\//g, '_');
+      a.download = `${settings.crateName}.zip`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
-    });
 
-    toast({
-      title: "Project downloaded",
-      description: "All project files have been downloaded to your computer.",
-    });
+      toast({
+        title: "Project downloaded",
+        description: `${settings.crateName}.zip contains the complete Anchor workspace.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: "The workspace archive could not be created.",
+        variant: "destructive"
+      });
+    }
   };
 
+  // Edits are stored with the project when leaving edit mode
   const toggleEditMode = () => {
     setIsEditing(!isEditing);
-    if (isEditing && generatedCode) {
-      // Reset to original generated code when exiting edit mode
-      setEditableCode(generatedCode);
-    }
+    if (isEditing) persistEdits(edits);
   };
 
   if (!isOpen || !editableCode) return null;
@@ -104,6 +159,16 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
               {isEditing ? <Eye className="h-4 w-4 mr-1" /> : <Edit3 className="h-4 w-4 mr-1" />}
               {isEditing ? 'Preview' : 'Edit'}
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => persistEdits({})}
+              className="border-ui-accent"
+              disabled={Object.keys(edits).length === 0}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Revert edits
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -122,18 +187,23 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
         {/* Content */}
         <div className="flex-1 p-4 overflow-hidden">
           <Tabs defaultValue="lib" className="h-full flex flex-col">
-            <TabsList className="grid grid-cols-5 w-full">
+            <TabsList className="grid grid-cols-7 w-full">
               <TabsTrigger value="lib">lib.rs</TabsTrigger>
               <TabsTrigger value="instructions">Instructions</TabsTrigger>
               <TabsTrigger value="tests">Tests</TabsTrigger>
               <TabsTrigger value="cargo">Cargo.toml</TabsTrigger>
               <TabsTrigger value="anchor">Anchor.toml</TabsTrigger>
+              <TabsTrigger value="idl">IDL</TabsTrigger>
+              <TabsTrigger value="client">Client</TabsTrigger>
             </TabsList>
 
             <TabsContent value="lib" className="flex-1 mt-4">
               <div className="h-full flex flex-col">
                 <div className="flex items-center justify-between mb-2">
-                  <h3 className="font-medium text-text-primary">src/lib.rs</h3>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium text-text-primary">src/lib.rs</h3>
+                    <EditStatus edits={edits} file="lib.rs" />
+                  </div>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -145,7 +215,7 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                 {isEditing ? (
                   <Textarea
                     value={editableCode.lib}
-                    onChange={(e) => setEditableCode(prev => prev ? { ...prev, lib: e.target.value } : null)}
+                    onChange={(e) => updateFile('lib.rs', e.target.value)}
                     className="flex-1 font-mono text-sm resize-none"
                   />
                 ) : (
@@ -165,7 +235,10 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                   {editableCode.instructions.map((instruction, index) => (
                     <div key={index} className="border border-ui-accent rounded p-3">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium text-text-primary">instruction_{index + 1}.rs</h4>
+                        <div className="flex items-center space-x-2">
+                          <h4 className="font-medium text-text-primary">instructions/{editableCode.instructionModules[index]}.rs</h4>
+                          <EditStatus edits={edits} file={`instructions/${editableCode.instructionModules[index]}.rs`} />
+                        </div>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -177,11 +250,7 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                       {isEditing ? (
                         <Textarea
                           value={instruction}
-                          onChange={(e) => {
-                            const newInstructions = [...editableCode.instructions];
-                            newInstructions[index] = e.target.value;
-                            setEditableCode(prev => prev ? { ...prev, instructions: newInstructions } : null);
-                          }}
+                          onChange={(e) => updateFile(`instructions/${editableCode.instructionModules[index]}.rs`, e.target.value)}
                           className="font-mono text-sm resize-none h-32"
                         />
                       ) : (
@@ -198,7 +267,10 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
             <TabsContent value="tests" className="flex-1 mt-4">
               <div className="h-full flex flex-col">
                 <div className="flex items-center justify-between mb-2">
-                  <h3 className="font-medium text-text-primary">tests/test.ts</h3>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium text-text-primary">tests/test.ts</h3>
+                    <EditStatus edits={edits} file="tests.ts" />
+                  </div>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -210,7 +282,7 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                 {isEditing ? (
                   <Textarea
                     value={editableCode.tests}
-                    onChange={(e) => setEditableCode(prev => prev ? { ...prev, tests: e.target.value } : null)}
+                    onChange={(e) => updateFile('tests.ts', e.target.value)}
                     className="flex-1 font-mono text-sm resize-none"
                   />
                 ) : (
@@ -224,7 +296,10 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
             <TabsContent value="cargo" className="flex-1 mt-4">
               <div className="h-full flex flex-col">
                 <div className="flex items-center justify-between mb-2">
-                  <h3 className="font-medium text-text-primary">Cargo.toml</h3>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium text-text-primary">Cargo.toml</h3>
+                    <EditStatus edits={edits} file="Cargo.toml" />
+                  </div>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -236,7 +311,7 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                 {isEditing ? (
                   <Textarea
                     value={editableCode.cargoToml}
-                    onChange={(e) => setEditableCode(prev => prev ? { ...prev, cargoToml: e.target.value } : null)}
+                    onChange={(e) => updateFile('Cargo.toml', e.target.value)}
                     className="flex-1 font-mono text-sm resize-none"
                   />
                 ) : (
@@ -250,7 +325,10 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
             <TabsContent value="anchor" className="flex-1 mt-4">
               <div className="h-full flex flex-col">
                 <div className="flex items-center justify-between mb-2">
-                  <h3 className="font-medium text-text-primary">Anchor.toml</h3>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium text-text-primary">Anchor.toml</h3>
+                    <EditStatus edits={edits} file="Anchor.toml" />
+                  </div>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -262,7 +340,7 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                 {isEditing ? (
                   <Textarea
                     value={editableCode.anchorToml}
-                    onChange={(e) => setEditableCode(prev => prev ? { ...prev, anchorToml: e.target.value } : null)}
+                    onChange={(e) => updateFile('Anchor.toml', e.target.value)}
                     className="flex-1 font-mono text-sm resize-none"
                   />
                 ) : (
@@ -272,6 +350,43 @@ const CodePreview = ({ nodes, connections, isOpen, onClose }: CodePreviewProps)
                 )}
               </div>
             </TabsContent>
+
+            {/* Derived from the graph, so read-only even in edit mode */}
+            <TabsContent value="idl" className="flex-1 mt-4">
+              <div className="h-full flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-text-primary">app/{settings.programName}.json</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopyToClipboard(editableCode.idl)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <pre className="flex-1 bg-ui-accent p-3 rounded border overflow-auto text-sm font-mono text-text-primary whitespace-pre-wrap">
+                  {editableCode.idl}
+                </pre>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="client" className="flex-1 mt-4">
+              <div className="h-full flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-text-primary">app/{settings.programName}.ts</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopyToClipboard(editableCode.client)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <pre className="flex-1 bg-ui-accent p-3 rounded border overflow-auto text-sm font-mono text-text-primary whitespace-pre-wrap">
+                  {editableCode.client}
+                </pre>
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -0,0 +1,160 @@
+import React from 'react';
+import type { Idl } from '@coral-xyz/anchor';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CanvasNode, Connection, CpiInvocation, CpiProgramKind } from '@/types/editor';
+import { PAYER_REF } from '@/utils/accountConstraints';
+import { cpiPorts, cpiProgramFor, getCpiTarget, getInvocation, validateCpiNode } from '@/utils/cpiCalls';
+import { CPI_PROGRAMS, getCpiProgram, validateProgramIdl } from '@/utils/cpiPrograms';
+import { AUTHORITY_SEED, connectedAccountNodes } from '@/utils/pdaSeeds';
+import { useToast } from '@/hooks/use-toast';
+
+const AUTO = 'auto';
+
+interface CpiCallEditorProps {
+  node: CanvasNode;
+  nodes: CanvasNode[];
+  connections: Connection[];
+  onChange: (updates: Partial<CanvasNode>) => void;
+}
+
+// Target program of a CPI node, and how the caller fills each of its instructions
+const CpiCallEditor = ({ node, nodes, connections, onChange }: CpiCallEditorProps) => {
+  const { toast } = useToast();
+  const target = getCpiTarget(node);
+  const program = cpiProgramFor(node);
+  const errors = validateCpiNode(node);
+
+  // Accounts of every instruction wired into this node can fill the target's accounts
+  const callerAccounts = Array.from(new Map(
+    connections
+      .filter(conn => conn.targetNodeId === node.id)
+      .map(conn => nodes.find(n => n.id === conn.sourceNodeId))
+      .filter((n): n is CanvasNode => !!n)
+      .flatMap(caller => connectedAccountNodes(caller, nodes, connections))
+      .map(account => [account.id, account])
+  ).values());
+
+  // A new program brings new ports; connections to the old ones no longer resolve
+  const selectProgram = (kind: CpiProgramKind, idl?: Idl) => {
+    onChange({
+      cpi: { program: kind, idl, invocations: {} },
+      inputs: cpiPorts(getCpiProgram(kind, idl)),
+    });
+  };
+
+  const updateInvocation = (instruction: string, invocation: CpiInvocation) => {
+    onChange({ cpi: { ...target, invocations: { ...target.invocations, [instruction]: invocation } } });
+  };
+
+  const handleIdlFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const idl = JSON.parse(await file.text());
+      const problems = validateProgramIdl(idl);
+      if (problems.length > 0) {
+        toast({ title: "IDL not loaded", description: problems[0], variant: "destructive" });
+        return;
+      }
+      selectProgram('idl', idl as Idl);
+    } catch {
+      toast({ title: "IDL not loaded", description: `${file.name} is not valid JSON.`, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Cross-program invocation</h4>
+        {program && <Badge variant="secondary" className="font-mono">{program.address.slice(0, 8)}…</Badge>}
+      </div>
+
+      <Select
+        value={target.program}
+        onValueChange={(kind) => selectProgram(kind as CpiProgramKind, kind === 'idl' ? target.idl : undefined)}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(CPI_PROGRAMS).map(known => (
+            <SelectItem key={known.kind} value={known.kind}>{known.label}</SelectItem>
+          ))}
+          <SelectItem value="idl">Program from IDL</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {target.program === 'idl' && (
+        <Input
+          type="file"
+          accept=".json,application/json"
+          className="h-8 text-xs"
+          onChange={(e) => handleIdlFile(e.target.files?.[0])}
+        />
+      )}
+
+      {program?.instructions.map(instruction => {
+        const invocation = getInvocation(node, instruction.name);
+        return (
+          <div key={instruction.name} className="space-y-2 border border-ui-accent rounded p-2">
+            <div className="text-xs font-mono text-text-primary">{instruction.name}</div>
+
+            {instruction.accounts.filter(account => !account.builtIn && !account.address).map(account => (
+              <div key={account.name} className="flex items-center space-x-2">
+                <span className="w-28 truncate text-xs text-text-secondary">
+                  {account.name}{account.signer ? ' (signer)' : ''}
+                </span>
+                <Select
+                  value={invocation.accounts[account.name] || AUTO}
+                  onValueChange={(ref) => {
+                    const { [account.name]: _, ...rest } = invocation.accounts;
+                    updateInvocation(instruction.name, {
+                      ...invocation,
+                      accounts: ref === AUTO ? rest : { ...rest, [account.name]: ref },
+                    });
+                  }}
+                >
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>{account.derive ? 'Derived address' : 'Same-named account'}</SelectItem>
+                    <SelectItem value={AUTHORITY_SEED}>Authority</SelectItem>
+                    <SelectItem value={PAYER_REF}>Payer</SelectItem>
+                    {callerAccounts.map(caller => (
+                      <SelectItem key={caller.id} value={caller.id}>{caller.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {instruction.args.map(arg => (
+              <div key={arg.name} className="flex items-center space-x-2">
+                <span className="w-28 truncate text-xs text-text-secondary">{arg.name}</span>
+                <Input
+                  value={invocation.args[arg.name] || ''}
+                  onChange={(e) => updateInvocation(instruction.name, {
+                    ...invocation,
+                    args: { ...invocation.args, [arg.name]: e.target.value },
+                  })}
+                  className="h-8 flex-1 font-mono"
+                  placeholder={`${arg.rustType}: argument name or expression`}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CpiCallEditor;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { CustomCodeScope, validateCustomCode } from '@/utils/customCode';
+
+interface CustomCodeEditorProps {
+  code: string;
+  scope: CustomCodeScope;
+  onChange: (code: string | undefined) => void;
+}
+
+// Rust statements spliced into the instruction's handler, with what they can reference
+const CustomCodeEditor = ({ code, scope, onChange }: CustomCodeEditorProps) => {
+  const errors = validateCustomCode(code, scope);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Custom code</h4>
+        {code.trim() && (
+          <Badge variant={errors.length > 0 ? 'destructive' : 'secondary'}>
+            {errors.length > 0 ? `${errors.length} issue${errors.length > 1 ? 's' : ''}` : 'Emitted'}
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-xs text-text-secondary">
+        Runs after argument checks, account initialization and template logic, before CPI calls and events.
+        Fail with <code className="font-mono">require!</code> or <code className="font-mono">?</code>.
+      </p>
+
+      <div className="flex flex-wrap gap-1">
+        {scope.accounts.map(account => (
+          <Badge key={account} variant="outline" className="font-mono text-xs">ctx.accounts.{account}</Badge>
+        ))}
+        {scope.args.map(arg => (
+          <Badge key={arg} variant="outline" className="font-mono text-xs">{arg}</Badge>
+        ))}
+      </div>
+
+      <Textarea
+        value={code}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="min-h-[140px] font-mono text-xs"
+        placeholder={'require!(amount > 0, ErrorCode::InvalidAmount);\nctx.accounts.vault.total += amount;'}
+        spellCheck={false}
+      />
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CustomCodeEditor;
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertOctagon, Plus, Save, Trash2 } from 'lucide-react';
+import { CanvasNode } from '@/types/editor';
+import { ProgramErrorDefinition, ProjectSettings } from '@/types/project';
+import {
+  BUILT_IN_ERROR_MESSAGES,
+  collectErrorReferences,
+  resolveProgramErrors,
+  validateErrorCatalog,
+} from '@/utils/errorCatalog';
+import { isInstructionNode } from '@/utils/nodeKinds';
+import { useToast } from '@/hooks/use-toast';
+
+const parseOffset = (raw: string): number | undefined => raw === '' ? undefined : Number(raw);
+
+interface ErrorCatalogCardProps {
+  settings: ProjectSettings;
+  nodes: CanvasNode[];
+  onSave: (settings: ProjectSettings) => Promise<{ error: unknown }>;
+}
+
+const ErrorCatalogCard = ({ settings, nodes, onSave }: ErrorCatalogCardProps) => {
+  const [draft, setDraft] = useState<ProgramErrorDefinition[]>(settings.errors);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const errors = validateErrorCatalog(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings.errors);
+  const codes = new Map(resolveProgramErrors(draft).map(error => [error.name, error.code]));
+  const references = new Set(collectErrorReferences(nodes.filter(isInstructionNode)));
+
+  useEffect(() => {
+    setDraft(settings.errors);
+  }, [settings.errors]);
+
+  const updateError = (id: string, updates: Partial<ProgramErrorDefinition>) => {
+    setDraft(draft.map(error => error.id === id ? { ...error, ...updates } : error));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await onSave({ ...settings, errors: draft });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Failed to save errors",
+        description: "The error catalog could not be stored with the project.",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Errors saved",
+        description: `${draft.length} error${draft.length === 1 ? '' : 's'} in the catalog.`,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-ui-base border-ui-accent">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-sm text-text-primary">
+          <AlertOctagon className="h-4 w-4" />
+          <span>Errors</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {draft.map(error => (
+          <div key={error.id} className="space-y-2 border border-ui-accent rounded p-2">
+            <div className="flex items-center space-x-2">
+              <Input
+                value={error.name}
+                onChange={(e) => updateError(error.id, { name: e.target.value })}
+                className="h-8 flex-1 font-mono"
+                placeholder="ErrorName"
+              />
+              <Input
+                type="number"
+                value={error.offset ?? ''}
+                onChange={(e) => updateError(error.id, { offset: parseOffset(e.target.value) })}
+                className="h-8 w-20"
+                placeholder="Offset"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(draft.filter(e => e.id !== error.id))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <Input
+              value={error.message}
+              onChange={(e) => updateError(error.id, { message: e.target.value })}
+              className="h-8"
+              placeholder="Message shown to clients"
+            />
+            <div className="flex items-center space-x-2 text-xs text-text-secondary">
+              {codes.has(error.name) && <Badge variant="secondary">{codes.get(error.name)}</Badge>}
+              {references.has(error.name) && <span>used by the graph</span>}
+            </div>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft([...draft, { id: crypto.randomUUID(), name: `Error${draft.length + 1}`, message: '' }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Error
+        </Button>
+
+        <p className="text-xs text-text-secondary">
+          {Object.keys(BUILT_IN_ERROR_MESSAGES).join(' and ')} are added after the catalog when generated code needs them and they are not defined here.
+        </p>
+
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-500 space-y-1">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!isDirty || errors.length > 0 || saving}
+          onClick={handleSave}
+        >
+          <Save className="h-3 w-3 mr-1" />
+          {saving ? 'Saving...' : 'Save errors'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ErrorCatalogCard;
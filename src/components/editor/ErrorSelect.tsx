@@ -0,0 +1,38 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProgramErrorDefinition } from '@/types/project';
+
+const NONE = 'none';
+
+interface ErrorSelectProps {
+  value?: string;
+  catalog: ProgramErrorDefinition[];
+  placeholder: string;
+  // Offer the placeholder as a choice that clears the error
+  clearable?: boolean;
+  className?: string;
+  onChange: (value?: string) => void;
+}
+
+// Picks an error from the project's catalog; a name the catalog no longer defines stays selectable so it is visible
+const ErrorSelect = ({ value, catalog, placeholder, clearable, className, onChange }: ErrorSelectProps) => {
+  const names = catalog.map(error => error.name).filter(Boolean);
+  const missing = value && !names.includes(value) ? value : undefined;
+
+  return (
+    <Select value={value || NONE} onValueChange={(next) => onChange(next === NONE ? undefined : next)}>
+      <SelectTrigger className={className || 'h-8'}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {(clearable || !value) && <SelectItem value={NONE}>{placeholder}</SelectItem>}
+        {missing && <SelectItem value={missing}>{missing} (not in catalog)</SelectItem>}
+        {Array.from(new Set(names)).map(name => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ErrorSelect;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+import { ArgValue, FieldType, InstructionArg } from '@/types/editor';
+import { isIntegerType } from '@/utils/accountSchema';
+import { validateInstructionArgs } from '@/utils/instructionArgs';
+import { ProgramErrorDefinition } from '@/types/project';
+import { FieldTypeEditor } from './AccountSchemaEditor';
+import ErrorSelect from './ErrorSelect';
+
+const parseDefault = (type: FieldType, raw: string): ArgValue | undefined => {
+  if (raw === '') return undefined;
+  if (isIntegerType(type)) return Number(raw);
+  if (type.kind === 'bool') return raw === 'true';
+  return raw;
+};
+
+const parseBound = (raw: string): number | undefined => raw === '' ? undefined : Number(raw);
+
+interface InstructionArgsEditorProps {
+  args: InstructionArg[];
+  errorCatalog: ProgramErrorDefinition[];
+  onChange: (args: InstructionArg[]) => void;
+}
+
+// Arguments whose bounds or length the handler checks, and so can return a catalog error
+const isChecked = (arg: InstructionArg): boolean =>
+  isIntegerType(arg.type) ? arg.min !== undefined || arg.max !== undefined : arg.type.kind === 'string' || arg.type.kind === 'vec';
+
+const InstructionArgsEditor = ({ args, errorCatalog, onChange }: InstructionArgsEditorProps) => {
+  const errors = validateInstructionArgs(args);
+
+  const updateArg = (id: string, updates: Partial<InstructionArg>) => {
+    onChange(args.map(arg => arg.id === id ? { ...arg, ...updates } : arg));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">Arguments</h4>
+        <Badge variant={errors.length > 0 ? 'destructive' : 'secondary'}>
+          {errors.length > 0 ? `${errors.length} issue${errors.length > 1 ? 's' : ''}` : `${args.length} arg${args.length === 1 ? '' : 's'}`}
+        </Badge>
+      </div>
+
+      {args.map(arg => (
+        <div key={arg.id} className="space-y-2 border border-ui-accent rounded p-2">
+          <div className="flex items-center space-x-2">
+            <Input
+              value={arg.name}
+              onChange={(e) => updateArg(arg.id, { name: e.target.value })}
+              className="h-8 flex-1"
+              placeholder="arg_name"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(args.filter(a => a.id !== arg.id))}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+
+          <FieldTypeEditor
+            type={arg.type}
+            onChange={(type) => updateArg(arg.id, { type, min: undefined, max: undefined, defaultValue: undefined })}
+          />
+
+          <Input
+            value={arg.defaultValue === undefined ? '' : String(arg.defaultValue)}
+            onChange={(e) => updateArg(arg.id, { defaultValue: parseDefault(arg.type, e.target.value) })}
+            className="h-8"
+            placeholder="Default value"
+          />
+
+          {isIntegerType(arg.type) && (
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                value={arg.min ?? ''}
+                onChange={(e) => updateArg(arg.id, { min: parseBound(e.target.value) })}
+                className="h-8"
+                placeholder="Min"
+              />
+              <Input
+                type="number"
+                value={arg.max ?? ''}
+                onChange={(e) => updateArg(arg.id, { max: parseBound(e.target.value) })}
+                className="h-8"
+                placeholder="Max"
+              />
+            </div>
+          )}
+
+          {isChecked(arg) && (
+            <ErrorSelect
+              value={arg.error}
+              catalog={errorCatalog}
+              placeholder="Anchor's default error"
+              clearable
+              onChange={(error) => updateArg(arg.id, { error })}
+            />
+          )}
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([
+          ...args,
+          { id: crypto.randomUUID(), name: `arg_${args.length + 1}`, type: { kind: 'u64' } }
+        ])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Argument
+      </Button>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InstructionArgsEditor;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SlidersHorizontal } from 'lucide-react';
+import { AccountKind, CanvasNode, Connection } from '@/types/editor';
+import { ProgramErrorDefinition } from '@/types/project';
+import { getAccountFields } from '@/utils/accountSchema';
+import { getInstructionArgs } from '@/utils/instructionArgs';
+import { isEventNode } from '@/utils/programEvents';
+import { isCpiNode } from '@/utils/cpiCalls';
+import { isInstructionNode } from '@/utils/nodeKinds';
+import { instructionCodeScope } from '@/utils/codeGen';
+import AccountSchemaEditor, { EventFieldsEditor } from './AccountSchemaEditor';
+import InstructionArgsEditor from './InstructionArgsEditor';
+import SeedDesigner from './SeedDesigner';
+import AccountConstraintsEditor from './AccountConstraintsEditor';
+import CpiCallEditor from './CpiCallEditor';
+import CustomCodeEditor from './CustomCodeEditor';
+
+interface NodeInspectorProps {
+  nodes: CanvasNode[];
+  connections: Connection[];
+  errorCatalog: ProgramErrorDefinition[];
+  onUpdate: (nodeId: string, updates: Partial<CanvasNode>) => void;
+}
+
+const NodeInspector = ({ nodes, connections, errorCatalog, onUpdate }: NodeInspectorProps) => {
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const editableNodes = nodes.filter(node => node.type !== 'start');
+  const node = editableNodes.find(n => n.id === selectedNodeId) || editableNodes[0];
+
+  if (!node) return null;
+
+  return (
+    <Card className="bg-ui-base border-ui-accent">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-sm text-text-primary">
+          <SlidersHorizontal className="h-4 w-4" />
+          <span>Node Inspector</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={node.id} onValueChange={setSelectedNodeId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {editableNodes.map(n => (
+              <SelectItem key={n.id} value={n.id}>{n.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {node.type === 'account' && (
+          <>
+            <Select
+              value={node.accountKind || 'state'}
+              onValueChange={(accountKind) => onUpdate(node.id, { accountKind: accountKind as AccountKind })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="state">Program state</SelectItem>
+                <SelectItem value="token">SPL token account</SelectItem>
+                <SelectItem value="mint">SPL mint</SelectItem>
+              </SelectContent>
+            </Select>
+            {(node.accountKind || 'state') === 'state' && (
+              <AccountSchemaEditor
+                fields={getAccountFields(node)}
+                onChange={(fields) => onUpdate(node.id, { fields })}
+              />
+            )}
+            <SeedDesigner
+              account={node}
+              nodes={nodes}
+              connections={connections}
+              onChange={(seeds) => onUpdate(node.id, { seeds })}
+            />
+          </>
+        )}
+
+        {isEventNode(node) && (
+          <EventFieldsEditor event={node} onChange={(fields) => onUpdate(node.id, { fields })} />
+        )}
+
+        {isCpiNode(node) && (
+          <CpiCallEditor
+            node={node}
+            nodes={nodes}
+            connections={connections}
+            onChange={(updates) => onUpdate(node.id, updates)}
+          />
+        )}
+
+        {isInstructionNode(node) && (
+          <>
+            <InstructionArgsEditor
+              args={getInstructionArgs(node)}
+              errorCatalog={errorCatalog}
+              onChange={(args) => onUpdate(node.id, { args })}
+            />
+            <AccountConstraintsEditor
+              instruction={node}
+              nodes={nodes}
+              connections={connections}
+              errorCatalog={errorCatalog}
+              onChange={(accountConstraints) => onUpdate(node.id, { accountConstraints })}
+            />
+            <CustomCodeEditor
+              code={node.code || ''}
+              scope={instructionCodeScope(node, nodes, connections)}
+              onChange={(code) => onUpdate(node.id, { code })}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NodeInspector;
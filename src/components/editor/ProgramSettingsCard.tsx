@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Package, Save } from 'lucide-react';
+import { CustomRpc, ProgramCluster, ProjectSettings } from '@/types/project';
+import { PROGRAM_CLUSTERS, validateProjectSettings } from '@/utils/projectSettings';
+import { NETWORK_LABELS, PUBLIC_ENDPOINTS } from '@/utils/networks';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProgramSettingsCardProps {
+  settings: ProjectSettings;
+  onSave: (settings: ProjectSettings) => Promise<{ error: unknown }>;
+}
+
+const ProgramSettingsCard = ({ settings, onSave }: ProgramSettingsCardProps) => {
+  const [draft, setDraft] = useState<ProjectSettings>(settings);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const errors = validateProjectSettings(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  // An empty URL falls back to the cluster's public endpoint
+  const setOverride = (cluster: ProgramCluster, http: string) => {
+    const { [cluster]: _, ...rpcOverrides } = draft.rpcOverrides;
+    setDraft({ ...draft, rpcOverrides: http ? { ...rpcOverrides, [cluster]: { http } } : rpcOverrides });
+  };
+
+  // Clearing the URL removes the custom endpoint
+  const setCustomRpc = (changes: Partial<CustomRpc>) => {
+    const customRpc = { http: '', cluster: 'localnet' as ProgramCluster, ...draft.customRpc, ...changes };
+    setDraft({ ...draft, customRpc: customRpc.http ? { ...customRpc, ws: customRpc.ws || undefined } : undefined });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await onSave(draft);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Failed to save settings",
+        description: "Program settings could not be stored with the project.",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Settings saved",
+        description: `Generated code now targets ${draft.programName}.`,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-ui-base border-ui-accent">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-sm text-text-primary">
+          <Package className="h-4 w-4" />
+          <span>Program</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Program name</Label>
+          <Input
+            value={draft.programName}
+            onChange={(e) => setDraft({ ...draft, programName: e.target.value })}
+            className="h-8 font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Crate name</Label>
+          <Input
+            value={draft.crateName}
+            onChange={(e) => setDraft({ ...draft, crateName: e.target.value })}
+            className="h-8 font-mono"
+          />
+        </div>
+        {PROGRAM_CLUSTERS.map(cluster => (
+          <div key={cluster} className="space-y-1">
+            <Label className="text-xs capitalize">{cluster} program ID</Label>
+            <Input
+              value={draft.programIds[cluster]}
+              onChange={(e) => setDraft({ ...draft, programIds: { ...draft.programIds, [cluster]: e.target.value.trim() } })}
+              className="h-8 font-mono text-xs"
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2 pt-1">
+          <Label className="text-xs">RPC endpoints</Label>
+          {PROGRAM_CLUSTERS.map(cluster => (
+            <div key={cluster} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{NETWORK_LABELS[cluster]}</Label>
+              <Input
+                value={draft.rpcOverrides[cluster]?.http || ''}
+                placeholder={PUBLIC_ENDPOINTS[cluster]}
+                onChange={(e) => setOverride(cluster, e.target.value.trim())}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">{NETWORK_LABELS.custom}</Label>
+          <Input
+            value={draft.customRpc?.http || ''}
+            placeholder="https://rpc.example.com"
+            onChange={(e) => setCustomRpc({ http: e.target.value.trim() })}
+            className="h-8 font-mono text-xs"
+          />
+          {draft.customRpc && (
+            <>
+              <Input
+                value={draft.customRpc.ws || ''}
+                placeholder="Websocket URL (derived from the RPC URL)"
+                onChange={(e) => setCustomRpc({ ws: e.target.value.trim() })}
+                className="h-8 font-mono text-xs"
+              />
+              <Select
+                value={draft.customRpc.cluster}
+                onValueChange={(cluster: ProgramCluster) => setCustomRpc({ cluster })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROGRAM_CLUSTERS.map(cluster => (
+                    <SelectItem key={cluster} value={cluster}>Uses the {cluster} program ID</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-500 space-y-1">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={!isDirty || errors.length > 0 || saving}
+          onClick={handleSave}
+        >
+          <Save className="h-3 w-3 mr-1" />
+          {saving ? 'Saving...' : 'Save settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProgramSettingsCard;
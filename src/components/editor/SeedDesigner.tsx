@@ -0,0 +1,151 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { CanvasNode, Connection, SeedComponent } from '@/types/editor';
+import { toSnakeCase } from '@/utils/naming';
+import { AUTHORITY_SEED, MAX_SEEDS, describeSeed, getSeeds, validatePdaUsage } from '@/utils/pdaSeeds';
+
+const defaultSeedFor = (kind: string, id: string): SeedComponent => {
+  switch (kind) {
+    case 'arg':
+      return { id, kind: 'arg', name: '' };
+    case 'account':
+      return { id, kind: 'account', account: AUTHORITY_SEED };
+    default:
+      return { id, kind: 'literal', value: '' };
+  }
+};
+
+interface SeedDesignerProps {
+  account: CanvasNode;
+  nodes: CanvasNode[];
+  connections: Connection[];
+  onChange: (seeds: SeedComponent[]) => void;
+}
+
+const SeedDesigner = ({ account, nodes, connections, onChange }: SeedDesignerProps) => {
+  const seeds = getSeeds(account);
+  const errors = validatePdaUsage(account, nodes, connections);
+
+  // Arguments declared by any instruction this account is connected to
+  const instructionIds = connections
+    .filter(conn => conn.sourceNodeId === account.id)
+    .map(conn => conn.targetNodeId);
+  const argNames = Array.from(new Set(
+    nodes
+      .filter(node => instructionIds.includes(node.id))
+      .flatMap(node => (node.args || []).map(arg => toSnakeCase(arg.name)))
+  ));
+  const otherAccounts = nodes.filter(node => node.type === 'account' && node.id !== account.id);
+
+  const updateSeed = (index: number, seed: SeedComponent) => {
+    onChange(seeds.map((s, i) => i === index ? seed : s));
+  };
+
+  const moveSeed = (index: number, offset: number) => {
+    const next = [...seeds];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-text-primary">PDA Seeds</h4>
+        <Badge variant={errors.length > 0 ? 'destructive' : 'secondary'}>
+          {errors.length > 0
+            ? `${errors.length} issue${errors.length > 1 ? 's' : ''}`
+            : seeds.length > 0 ? 'PDA' : 'Keypair account'}
+        </Badge>
+      </div>
+
+      {seeds.map((seed, index) => (
+        <div key={seed.id} className="flex items-center space-x-1">
+          <Select value={seed.kind} onValueChange={(kind) => updateSeed(index, defaultSeedFor(kind, seed.id))}>
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="literal">Literal</SelectItem>
+              <SelectItem value="arg">Argument</SelectItem>
+              <SelectItem value="account">Account</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {seed.kind === 'literal' && (
+            <Input
+              value={seed.value}
+              onChange={(e) => updateSeed(index, { ...seed, value: e.target.value })}
+              className="h-8 flex-1"
+              placeholder="vault"
+            />
+          )}
+
+          {seed.kind === 'arg' && (
+            <Select value={seed.name} onValueChange={(name) => updateSeed(index, { ...seed, name })}>
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue placeholder="Argument" />
+              </SelectTrigger>
+              <SelectContent>
+                {argNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {seed.kind === 'account' && (
+            <Select value={seed.account} onValueChange={(accountId) => updateSeed(index, { ...seed, account: accountId })}>
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTHORITY_SEED}>Authority (signer)</SelectItem>
+                {otherAccounts.map(node => (
+                  <SelectItem key={node.id} value={node.id}>{node.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveSeed(index, -1)}>
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="sm" disabled={index === seeds.length - 1} onClick={() => moveSeed(index, 1)}>
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onChange(seeds.filter((_, i) => i !== index))}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      {seeds.length > 0 && (
+        <p className="text-xs text-text-secondary font-mono">
+          [{seeds.map(seed => describeSeed(seed, nodes)).join(', ')}]
+        </p>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={seeds.length >= MAX_SEEDS}
+        onClick={() => onChange([...seeds, defaultSeedFor('literal', crypto.randomUUID())])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Seed
+      </Button>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-1">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SeedDesigner;
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Loader2, List, KeyRound } from 'lucide-react';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import type { Idl } from '@coral-xyz/anchor';
+import { CanvasNode, Connection } from '@/types/editor';
+import { Network, ProjectSettings } from '@/types/project';
+import { createConnection, NETWORK_LABELS, NETWORKS, networkCluster } from '@/utils/networks';
+import { deriveAccountAddress, inspectAccount, InspectedAccount, listProgramAccounts, SeedValues } from '@/utils/accountInspector';
+import { describeSeed, getSeeds, isPda } from '@/utils/pdaSeeds';
+import { useToast } from '@/hooks/use-toast';
+
+interface AccountInspectorProps {
+  // IDL of the generated program; its account types decode what is fetched
+  idl?: Idl;
+  nodes: CanvasNode[];
+  connections: Connection[];
+  settings: ProjectSettings;
+}
+
+const ALL_TYPES = '__all';
+
+const AccountFields = ({ account }: { account: InspectedAccount }) => (
+  <div className="space-y-1 text-xs">
+    <div className="flex items-center space-x-2">
+      <Badge variant={account.type ? 'secondary' : 'outline'}>{account.type || 'Unknown type'}</Badge>
+      <span className="font-mono break-all flex-1">{account.address}</span>
+    </div>
+    <div className="text-muted-foreground">
+      {(account.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL · {account.dataLength} bytes · owner {account.owner}
+    </div>
+    {account.fields ? (
+      <table className="w-full font-mono">
+        <tbody>
+          {Object.entries(account.fields).map(([name, value]) => (
+            <tr key={name} className="align-top">
+              <td className="pr-2 text-muted-foreground">{name}</td>
+              <td className="break-all">{typeof value === 'string' ? value : JSON.stringify(value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    ) : (
+      <div className="font-mono break-all text-muted-foreground">{account.dataPreview || 'No data'}</div>
+    )}
+  </div>
+);
+
+const AccountInspector = ({ idl, nodes, connections, settings }: AccountInspectorProps) => {
+  const [network, setNetwork] = useState<Network>('devnet');
+  const [address, setAddress] = useState('');
+  const [pdaNodeId, setPdaNodeId] = useState<string>('');
+  const [seedValues, setSeedValues] = useState<SeedValues>({});
+  const [inspected, setInspected] = useState<InspectedAccount | null>(null);
+  const [listType, setListType] = useState<string>(ALL_TYPES);
+  const [listed, setListed] = useState<InspectedAccount[] | null>(null);
+  const [busy, setBusy] = useState<'inspect' | 'list' | null>(null);
+  const { publicKey } = useWallet();
+  const { toast } = useToast();
+
+  const programId = settings.programIds[networkCluster(network, settings)];
+  const pdaNodes = nodes.filter(node => node.type === 'account' && isPda(node));
+  const pdaNode = pdaNodes.find(node => node.id === pdaNodeId);
+  // The IDL's address is the localnet program ID; the network's own ID is the one on chain
+  const networkIdl = idl ? { ...idl, address: programId } : undefined;
+
+  const fail = (title: string, error: unknown) =>
+    toast({ title, description: error instanceof Error ? error.message : "Unknown error", variant: "destructive" });
+
+  const inspect = async (target: string) => {
+    if (!networkIdl) return;
+    setBusy('inspect');
+    setInspected(null);
+    try {
+      const account = await inspectAccount(createConnection(network, settings), networkIdl, new PublicKey(target));
+      if (!account) {
+        toast({ title: "Account not found", description: `${target} does not exist on ${NETWORK_LABELS[network]}.` });
+      }
+      setInspected(account);
+    } catch (error) {
+      fail("Could not inspect account", error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const derive = () => {
+    if (!pdaNode) return;
+    try {
+      const derived = deriveAccountAddress(pdaNode, new PublicKey(programId), seedValues, nodes, connections, publicKey || undefined);
+      setAddress(derived.toBase58());
+      inspect(derived.toBase58());
+    } catch (error) {
+      fail("Could not derive the address", error);
+    }
+  };
+
+  const list = async () => {
+    if (!networkIdl) return;
+    setBusy('list');
+    try {
+      setListed(await listProgramAccounts(
+        createConnection(network, settings),
+        networkIdl,
+        listType === ALL_TYPES ? undefined : listType
+      ));
+    } catch (error) {
+      fail("Could not list program accounts", error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Search className="h-5 w-5" />
+          <span>Account Inspector</span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!idl && <p className="text-sm text-muted-foreground">Generate the program first so its account types can decode accounts.</p>}
+
+        <div className="flex space-x-2">
+          <Select
+            value={network}
+            onValueChange={(value: Network) => {
+              setNetwork(value);
+              setInspected(null);
+              setListed(null);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NETWORKS.map(option => (
+                <SelectItem key={option} value={option} disabled={option === 'custom' && !settings.customRpc}>
+                  {NETWORK_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={address}
+            placeholder="Account address"
+            onChange={(e) => setAddress(e.target.value.trim())}
+            className="font-mono text-xs"
+          />
+          <Button onClick={() => inspect(address)} disabled={!idl || !address || busy !== null}>
+            {busy === 'inspect' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {pdaNodes.length > 0 && (
+          <div className="space-y-2 p-3 bg-muted rounded-lg">
+            <label className="flex items-center space-x-2 text-sm font-medium">
+              <KeyRound className="h-4 w-4" />
+              <span>Derive PDA</span>
+            </label>
+            <Select
+              value={pdaNodeId}
+              onValueChange={(value) => {
+                setPdaNodeId(value);
+                setSeedValues({});
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Account" />
+              </SelectTrigger>
+              <SelectContent>
+                {pdaNodes.map(node => (
+                  <SelectItem key={node.id} value={node.id}>{node.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {pdaNode && getSeeds(pdaNode).filter(seed => seed.kind !== 'literal').map(seed => (
+              <div key={seed.id} className="flex items-center space-x-2">
+                <span className="w-40 text-xs text-muted-foreground truncate">{describeSeed(seed, nodes)}</span>
+                <Input
+                  value={seedValues[seed.id] || ''}
+                  placeholder={seed.kind === 'account' && seed.account === 'authority' && publicKey ? publicKey.toBase58() : undefined}
+                  onChange={(e) => setSeedValues({ ...seedValues, [seed.id]: e.target.value.trim() })}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+            ))}
+            {pdaNode && (
+              <Button size="sm" variant="outline" onClick={derive} disabled={!idl || busy !== null}>
+                Derive and inspect
+              </Button>
+            )}
+          </div>
+        )}
+
+        {inspected && (
+          <div className="p-3 bg-muted rounded-lg">
+            <AccountFields account={inspected} />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <Select value={listType} onValueChange={setListType}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All account types</SelectItem>
+                {(idl?.accounts || []).map(account => (
+                  <SelectItem key={account.name} value={account.name}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={list} disabled={!idl || busy !== null} className="flex-1">
+              {busy === 'list' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <List className="h-4 w-4 mr-2" />}
+              List program accounts
+            </Button>
+          </div>
+          {listed && listed.length === 0 && (
+            <p className="text-sm text-muted-foreground">The program owns no accounts of this type on {NETWORK_LABELS[network]}.</p>
+          )}
+          {listed?.map(account => (
+            <button
+              key={account.address}
+              className="w-full text-left p-3 bg-muted rounded-lg hover:bg-muted/70"
+              onClick={() => {
+                setAddress(account.address);
+                setInspected(account);
+              }}
+            >
+              <AccountFields account={account} />
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountInspector;
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Radio, Square, Play, CheckCircle, XCircle, Database, Eye, Trash2 } from 'lucide-react';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import type { Idl } from '@coral-xyz/anchor';
+import { CanvasNode } from '@/types/editor';
+import { Network, ProjectSettings } from '@/types/project';
+import { createConnection, explorerUrl, NETWORK_LABELS, NETWORKS, networkCluster } from '@/utils/networks';
+import { ProgramActivity, ProgramMonitor, WatchedAccount } from '@/utils/programMonitor';
+import { staticAccountAddress } from '@/utils/accountInspector';
+import { useProgramActivity } from '@/hooks/use-program-activity';
+import { useToast } from '@/hooks/use-toast';
+
+interface TransactionMonitorProps {
+  // IDL of the generated program; the monitor decodes instructions, events and accounts with it
+  idl?: Idl;
+  nodes: CanvasNode[];
+  settings: ProjectSettings;
+  projectId?: string | null;
+}
+
+type ActivityFilter = 'all' | 'transactions' | 'events' | 'accounts' | 'failed';
+
+const FILTERS: Record<ActivityFilter, string> = {
+  all: 'All activity',
+  transactions: 'Transactions',
+  events: 'With events',
+  accounts: 'Account changes',
+  failed: 'Failed',
+};
+
+const parseAddress = (value: string): PublicKey | null => {
+  try {
+    return new PublicKey(value);
+  } catch {
+    return null;
+  }
+};
+
+const matchesFilter = (entry: ProgramActivity, filter: ActivityFilter): boolean => {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'transactions':
+      return entry.kind === 'transaction';
+    case 'events':
+      return entry.kind === 'transaction' && entry.events.length > 0;
+    case 'accounts':
+      return entry.kind === 'account';
+    case 'failed':
+      return entry.kind === 'transaction' && !entry.success;
+  }
+};
+
+// Instruction, event and account names, signatures and addresses
+const matchesSearch = (entry: ProgramActivity, search: string): boolean => {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+  const haystack = entry.kind === 'transaction'
+    ? [entry.signature, ...entry.instructions.map(ix => ix.name), ...entry.events.map(event => event.name)]
+    : [entry.address, entry.account];
+  return haystack.some(value => value.toLowerCase().includes(query));
+};
+
+const TransactionMonitor = ({ idl, nodes, settings, projectId }: TransactionMonitorProps) => {
+  const [network, setNetwork] = useState<Network>('devnet');
+  const [live, setLive] = useState(false);
+  const [filter, setFilter] = useState<ActivityFilter>('all');
+  const [search, setSearch] = useState('');
+  // Addresses typed in for account nodes whose address depends on instruction arguments
+  const [addresses, setAddresses] = useState<Record<string, string>>({});
+  const monitorRef = useRef<ProgramMonitor | null>(null);
+  const { activity, loading, recordActivity, clearActivity } = useProgramActivity(projectId);
+  const { publicKey } = useWallet();
+  const { toast } = useToast();
+
+  const programId = parseAddress(settings.programIds[networkCluster(network, settings)]);
+  const accountNodes = nodes.filter(node => node.type === 'account');
+  const addressFor = (node: CanvasNode): string =>
+    addresses[node.id] ?? (programId ? staticAccountAddress(node, programId, publicKey || undefined)?.toBase58() || '' : '');
+  const shown = activity.filter(entry => entry.network === network && matchesFilter(entry, filter) && matchesSearch(entry, search));
+
+  const stopMonitor = async () => {
+    const monitor = monitorRef.current;
+    monitorRef.current = null;
+    setLive(false);
+    await monitor?.stop();
+  };
+
+  // Subscriptions end with the tab, and with the network they were opened on
+  useEffect(() => {
+    return () => {
+      monitorRef.current?.stop();
+      monitorRef.current = null;
+    };
+  }, []);
+
+  const startMonitor = () => {
+    if (!idl || !programId) {
+      toast({
+        title: "Nothing to monitor",
+        description: idl ? `No valid program ID is set for ${network}.` : "Generate the program first so its IDL can decode activity.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const watched: WatchedAccount[] = accountNodes.flatMap(node => {
+        const address = parseAddress(addressFor(node));
+        return address ? [{ address, name: node.name }] : [];
+      });
+      const monitor = new ProgramMonitor(
+        createConnection(network, settings),
+        { ...idl, address: programId.toBase58() },
+        network,
+        entry => {
+          recordActivity(entry);
+        }
+      );
+      monitor.start(watched);
+      monitorRef.current = monitor;
+      setLive(true);
+    } catch (error) {
+      toast({
+        title: "Monitor failed to start",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Radio className="h-5 w-5" />
+          <span>Program Activity</span>
+          {live && <Badge variant="secondary">Live</Badge>}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex space-x-2">
+          <Select
+            value={network}
+            onValueChange={async (value: Network) => {
+              await stopMonitor();
+              setNetwork(value);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NETWORKS.map(option => (
+                <SelectItem key={option} value={option} disabled={option === 'custom' && !settings.customRpc}>
+                  {NETWORK_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <code className="flex-1 p-2 bg-muted rounded text-xs truncate">{programId?.toBase58() || 'No program ID'}</code>
+          {live ? (
+            <Button variant="outline" onClick={stopMonitor}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button onClick={startMonitor} disabled={!idl || !programId}>
+              <Play className="h-4 w-4 mr-2" />
+              Start
+            </Button>
+          )}
+        </div>
+
+        {accountNodes.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Watched Accounts</label>
+            {accountNodes.map(node => (
+              <div key={node.id} className="flex items-center space-x-2">
+                <Database className="h-4 w-4 text-muted-foreground" />
+                <span className="w-32 text-sm truncate">{node.name}</span>
+                <Input
+                  value={addressFor(node)}
+                  placeholder="Address to watch"
+                  disabled={live}
+                  onChange={(e) => setAddresses({ ...addresses, [node.id]: e.target.value.trim() })}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Select value={filter} onValueChange={(value: ActivityFilter) => setFilter(value)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTERS) as ActivityFilter[]).map(option => (
+                <SelectItem key={option} value={option}>{FILTERS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={search}
+            placeholder="Instruction, event, account or signature"
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Button variant="outline" onClick={clearActivity} disabled={activity.length === 0}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {loading && <p className="text-sm text-muted-foreground">Loading recent activity...</p>}
+        {!loading && shown.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {live ? 'Waiting for activity...' : 'Start monitoring to see transactions and account changes as they land.'}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {shown.map(entry => (
+            <div key={entry.id} className="p-3 bg-muted rounded-lg text-xs space-y-1">
+              {entry.kind === 'transaction' ? (
+                <>
+                  <div className="flex items-center space-x-2">
+                    {entry.success ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-500" />
+                    )}
+                    {entry.instructions.map((instruction, index) => (
+                      <Badge key={index} variant="outline">{instruction.name}</Badge>
+                    ))}
+                    <span className="flex-1 text-muted-foreground">
+                      Slot {entry.slot} · {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(explorerUrl('tx', entry.signature, entry.network, settings), '_blank')}
+                    >
+                      <Eye className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {entry.error && <div className="text-red-500">{entry.error}</div>}
+                  {entry.instructions.filter(instruction => instruction.args && Object.keys(instruction.args).length > 0).map((instruction, index) => (
+                    <div key={index} className="font-mono break-all">{instruction.name} {JSON.stringify(instruction.args)}</div>
+                  ))}
+                  {entry.events.map((event, index) => (
+                    <div key={index} className="font-mono break-all">
+                      <Badge variant="secondary" className="mr-1">{event.name}</Badge>
+                      {JSON.stringify(event.data)}
+                    </div>
+                  ))}
+                  <details>
+                    <summary className="cursor-pointer text-muted-foreground">{entry.signature}</summary>
+                    <pre className="mt-1 p-2 bg-background rounded whitespace-pre-wrap">{entry.logs.join('\n')}</pre>
+                  </details>
+                </>
+              ) : (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <Database className="h-4 w-4" />
+                    <Badge variant="outline">{entry.account}</Badge>
+                    <span className="font-mono truncate">{entry.address}</span>
+                    <span className="flex-1 text-right text-muted-foreground">
+                      Slot {entry.slot} · {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">{(entry.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL</div>
+                  <div className="font-mono break-all">
+                    {entry.data ? JSON.stringify(entry.data) : 'Data does not decode as this account type'}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionMonitor;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Gauge, TrendingUp, Check } from 'lucide-react';
+import { ComputeProfile } from '@/types/profiling';
+import { ProjectSettings } from '@/types/project';
+import { baselineProfile, computeUnitLimitsFrom, findRegressions, measuredUnits, recommendedComputeUnitLimit } from '@/utils/computeProfile';
+import { diffGraphs } from '@/utils/deploymentHistory';
+import { NETWORK_LABELS } from '@/utils/networks';
+import { useToast } from '@/hooks/use-toast';
+
+interface ComputeProfileCardProps {
+  profiles: ComputeProfile[];
+  settings: ProjectSettings;
+  loading?: boolean;
+  onSave: (settings: ProjectSettings) => Promise<{ error: unknown }>;
+}
+
+// Earlier measurements shown next to each instruction
+const TREND_LENGTH = 5;
+
+const formatUnits = (units: number): string => units.toLocaleString();
+
+const ComputeProfileCard = ({ profiles, settings, loading, onSave }: ComputeProfileCardProps) => {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const latest = profiles[0];
+  const history = latest ? profiles.filter(profile => profile.network === latest.network) : [];
+  const baseline = latest ? baselineProfile(latest, history) : undefined;
+  const regressions = latest ? findRegressions(latest, history) : [];
+  const limits = latest ? computeUnitLimitsFrom(latest) : {};
+  const applied = Object.entries(limits).every(([name, units]) => settings.computeUnitLimits[name] === units);
+
+  // Nodes whose change since the baseline may explain the increase
+  const changedNodes = baseline && latest
+    ? (() => {
+      const diff = diffGraphs(baseline.graph, latest.graph);
+      return [...diff.addedNodes, ...diff.changedNodes.map(change => change.after)].map(node => node.name);
+    })()
+    : [];
+
+  const trend = (instruction: string): number[] =>
+    history
+      .slice(0, TREND_LENGTH)
+      .map(profile => measuredUnits(profile.instructions.find(entry => entry.instruction === instruction)))
+      .filter((units): units is number => units !== null)
+      .reverse();
+
+  const applyLimits = async () => {
+    setSaving(true);
+    const { error } = await onSave({ ...settings, computeUnitLimits: { ...settings.computeUnitLimits, ...limits } });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Failed to save limits",
+        description: "Compute unit limits could not be stored with the project.",
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Compute unit limits saved",
+        description: "Regenerate the code to add them to the client's `computeUnitLimitInstruction`.",
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5" />
+          <span>Compute Profile</span>
+          {latest && <Badge variant="secondary">{NETWORK_LABELS[latest.network]}</Badge>}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && <p className="text-sm text-muted-foreground">Loading measurements...</p>}
+        {!loading && !latest && (
+          <p className="text-sm text-muted-foreground">Run the tests to measure the compute units each instruction uses.</p>
+        )}
+
+        {regressions.length > 0 && (
+          <div className="p-3 rounded-lg border border-red-500/50 text-xs space-y-1">
+            <div className="flex items-center space-x-2 font-medium text-red-500">
+              <TrendingUp className="h-4 w-4" />
+              <span>Compute usage increased since {new Date(regressions[0].baseline.createdAt).toLocaleString()}</span>
+            </div>
+            {regressions.map(regression => (
+              <div key={regression.instruction}>
+                {regression.instruction}: {formatUnits(regression.before)} → {formatUnits(regression.after)} CU
+                (+{Math.round((regression.after / regression.before - 1) * 100)}%)
+              </div>
+            ))}
+            {changedNodes.length > 0 && (
+              <div className="text-muted-foreground">Changed in the graph: {changedNodes.join(', ')}</div>
+            )}
+          </div>
+        )}
+
+        {latest && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pb-2 font-medium">Instruction</th>
+                <th className="pb-2 font-medium text-right">Transaction</th>
+                <th className="pb-2 font-medium text-right">Program</th>
+                <th className="pb-2 font-medium text-right">Recommended limit</th>
+                <th className="pb-2 font-medium pl-4">Recent runs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {latest.instructions.map(entry => {
+                const units = measuredUnits(entry);
+                const previous = measuredUnits(baseline?.instructions.find(other => other.instruction === entry.instruction));
+                const delta = units !== null && previous !== null ? units - previous : 0;
+                return (
+                  <tr key={entry.instruction} className="align-top">
+                    <td className="py-1">
+                      {entry.instruction}
+                      {!entry.success && <Badge variant="destructive" className="ml-2">not measured</Badge>}
+                      {!entry.success && entry.error && (
+                        <div className="text-muted-foreground break-words">{entry.error}</div>
+                      )}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {units !== null ? formatUnits(units) : '—'}
+                      {delta !== 0 && (
+                        <span className={delta > 0 ? 'text-red-500' : 'text-green-600'}>
+                          {' '}({delta > 0 ? '+' : ''}{formatUnits(delta)})
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {entry.success && entry.programUnits !== null ? formatUnits(entry.programUnits) : '—'}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {units !== null ? formatUnits(recommendedComputeUnitLimit(units)) : '—'}
+                      {settings.computeUnitLimits[entry.instruction] !== undefined &&
+                        settings.computeUnitLimits[entry.instruction] === limits[entry.instruction] && (
+                        <Check className="inline h-3 w-3 ml-1 text-green-600" />
+                      )}
+                    </td>
+                    <td className="py-1 pl-4 font-mono text-muted-foreground">
+                      {trend(entry.instruction).map(formatUnits).join(' → ')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {latest && (
+          <Button
+            variant="outline"
+            onClick={applyLimits}
+            disabled={saving || applied || Object.keys(limits).length === 0}
+            className="w-full"
+          >
+            <Gauge className="h-4 w-4 mr-2" />
+            {applied && Object.keys(limits).length > 0 ? 'Limits applied to the client' : 'Apply limits to the generated client'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComputeProfileCard;
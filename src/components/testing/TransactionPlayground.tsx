@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Terminal, FlaskConical, Send, KeyRound, Loader2, CheckCircle, XCircle, Eye } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import type { Idl } from '@coral-xyz/anchor';
+import { CanvasNode } from '@/types/editor';
+import { Network, ProjectSettings } from '@/types/project';
+import { createConnection, explorerUrl, NETWORK_LABELS, NETWORKS, networkCluster } from '@/utils/networks';
+import {
+  describeIdlType,
+  instructionAccounts,
+  parseArgInput,
+  PlaygroundResult,
+  PreparedInstruction,
+  TransactionPlayground as Playground,
+} from '@/utils/transactionBuilder';
+import { LoaderWallet } from '@/utils/programLoader';
+import { instructionModuleName } from '@/utils/codeGen';
+import { isInstructionNode } from '@/utils/nodeKinds';
+import { toCamelCase } from '@/utils/naming';
+import { useToast } from '@/hooks/use-toast';
+
+interface TransactionPlaygroundProps {
+  // IDL of the generated program; the playground encodes calls and decodes results with it
+  idl?: Idl;
+  nodes: CanvasNode[];
+  settings: ProjectSettings;
+}
+
+const TransactionPlayground = ({ idl, nodes, settings }: TransactionPlaygroundProps) => {
+  const [network, setNetwork] = useState<Network>('devnet');
+  const [instruction, setInstruction] = useState<string>('');
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [accounts, setAccounts] = useState<Record<string, string>>({});
+  // Cleared whenever an input changes, so simulating and sending always use what is on screen
+  const [prepared, setPrepared] = useState<PreparedInstruction | null>(null);
+  const [result, setResult] = useState<(PlaygroundResult & { simulated: boolean }) | null>(null);
+  const [busy, setBusy] = useState<'resolve' | 'simulate' | 'send' | null>(null);
+  const { publicKey, signTransaction, signAllTransactions } = useWallet();
+  const { toast } = useToast();
+
+  const wallet: LoaderWallet | undefined = publicKey && signTransaction && signAllTransactions
+    ? { publicKey, signTransaction, signAllTransactions }
+    : undefined;
+  const programId = settings.programIds[networkCluster(network, settings)];
+  // The instructions of the graph, in the IDL the generated program was built with
+  const instructions = idl
+    ? nodes.filter(isInstructionNode).flatMap(node => {
+      const definition = idl.instructions.find(ix => ix.name === instructionModuleName(node));
+      return definition ? [{ node, definition }] : [];
+    })
+    : [];
+  const selected = instructions.find(entry => entry.definition.name === instruction)?.definition;
+  const accountRows = selected ? instructionAccounts(selected) : [];
+
+  const reset = () => {
+    setPrepared(null);
+    setResult(null);
+  };
+
+  const fail = (title: string, error: unknown) =>
+    toast({ title, description: error instanceof Error ? error.message : "Unknown error", variant: "destructive" });
+
+  const prepare = async (): Promise<{ playground: Playground; ready: PreparedInstruction }> => {
+    if (!idl || !selected || !wallet) throw new Error('Connect a wallet and pick an instruction');
+    // The IDL's address is the localnet program ID; the network's own ID is the one on chain
+    const playground = new Playground(createConnection(network, settings), { ...idl, address: programId }, wallet);
+    if (prepared) return { playground, ready: prepared };
+
+    const values = selected.args.map(arg => {
+      try {
+        return parseArgInput(arg.type, args[arg.name] || '', idl.types || []);
+      } catch (error) {
+        throw new Error(`${arg.name}: ${error instanceof Error ? error.message : 'invalid value'}`);
+      }
+    });
+    const provided = Object.fromEntries(
+      Object.entries(accounts).filter(([, value]) => value).map(([name, value]) => [name, new PublicKey(value)])
+    );
+    const ready = await playground.prepare(selected.name, values, provided);
+    setPrepared(ready);
+    return { playground, ready };
+  };
+
+  const resolve = async () => {
+    setBusy('resolve');
+    try {
+      await prepare();
+    } catch (error) {
+      fail("Could not resolve accounts", error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const run = async (mode: 'simulate' | 'send') => {
+    setBusy(mode);
+    setResult(null);
+    try {
+      const { playground, ready } = await prepare();
+      const outcome = mode === 'simulate' ? await playground.simulate(ready) : await playground.send(ready);
+      setResult({ ...outcome, simulated: mode === 'simulate' });
+      // New signer accounts exist after a send; the next one needs fresh keypairs
+      if (mode === 'send') setPrepared(null);
+    } catch (error) {
+      fail(mode === 'simulate' ? "Simulation failed" : "Transaction failed", error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Terminal className="h-5 w-5" />
+          <span>Transaction Playground</span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!idl && <p className="text-sm text-muted-foreground">Generate the program first so its instructions can be called.</p>}
+        {idl && !wallet && <p className="text-sm text-muted-foreground">Connect a wallet to pay for and sign transactions.</p>}
+
+        <div className="flex space-x-2">
+          <Select
+            value={network}
+            onValueChange={(value: Network) => {
+              setNetwork(value);
+              reset();
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NETWORKS.map(option => (
+                <SelectItem key={option} value={option} disabled={option === 'custom' && !settings.customRpc}>
+                  {NETWORK_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={instruction}
+            onValueChange={(value) => {
+              setInstruction(value);
+              setArgs({});
+              setAccounts({});
+              reset();
+            }}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Instruction" />
+            </SelectTrigger>
+            <SelectContent>
+              {instructions.map(({ node, definition }) => (
+                <SelectItem key={node.id} value={definition.name}>{node.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {selected && selected.args.length > 0 && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Arguments</label>
+            {selected.args.map(arg => (
+              <div key={arg.name} className="flex items-center space-x-2">
+                <span className="w-40 text-xs truncate">{arg.name}</span>
+                <Input
+                  value={args[arg.name] || ''}
+                  placeholder={describeIdlType(arg.type)}
+                  onChange={(e) => {
+                    setArgs({ ...args, [arg.name]: e.target.value });
+                    reset();
+                  }}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Accounts</label>
+            {accountRows.map(account => {
+              const resolved = prepared?.accounts[toCamelCase(account.name)];
+              const generated = prepared?.signers.find(signer => resolved && signer.publicKey.equals(resolved));
+              return (
+                <div key={account.name} className="flex items-center space-x-2">
+                  <span className="w-40 text-xs truncate">{account.name}</span>
+                  {account.signer && <Badge variant="outline">signer</Badge>}
+                  {account.writable && <Badge variant="outline">mut</Badge>}
+                  {generated && <KeyRound className="h-3 w-3 text-muted-foreground" />}
+                  <Input
+                    value={accounts[account.name] || ''}
+                    placeholder={resolved?.toBase58() || (account.resolvable ? 'Resolved automatically' : account.signer ? 'New keypair' : 'Address')}
+                    onChange={(e) => {
+                      setAccounts({ ...accounts, [account.name]: e.target.value.trim() });
+                      reset();
+                    }}
+                    className="h-8 font-mono text-xs"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={resolve} disabled={!selected || !wallet || busy !== null}>
+            {busy === 'resolve' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <KeyRound className="h-4 w-4 mr-2" />}
+            Resolve Accounts
+          </Button>
+          <Button variant="outline" onClick={() => run('simulate')} disabled={!selected || !wallet || busy !== null} className="flex-1">
+            {busy === 'simulate' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+            Simulate
+          </Button>
+          <Button onClick={() => run('send')} disabled={!selected || !wallet || busy !== null} className="flex-1">
+            {busy === 'send' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+            Send
+          </Button>
+        </div>
+
+        {result && (
+          <div className="p-3 bg-muted rounded-lg text-xs space-y-2">
+            <div className="flex items-center space-x-2">
+              {result.success ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-500" />
+              )}
+              <span className="font-medium">
+                {result.simulated ? 'Simulation' : 'Transaction'} {result.success ? 'succeeded' : 'failed'}
+              </span>
+              {result.computeUnits !== undefined && (
+                <Badge variant="secondary">{result.computeUnits.toLocaleString()} CU</Badge>
+              )}
+              <span className="flex-1" />
+              {result.signature && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => window.open(explorerUrl('tx', result.signature!, network, settings), '_blank')}
+                >
+                  <Eye className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {result.error && <div className="text-red-500">{result.error}</div>}
+            {result.signature && <div className="font-mono break-all">{result.signature}</div>}
+            {result.events.map((event, index) => (
+              <div key={index} className="font-mono break-all">
+                <Badge variant="secondary" className="mr-1">{event.name}</Badge>
+                {JSON.stringify(event.data)}
+              </div>
+            ))}
+            {result.accounts.map(account => (
+              <div key={account.address} className="font-mono break-all">
+                <Badge variant="outline" className="mr-1">{account.type}</Badge>
+                {account.address} {JSON.stringify(account.fields)}
+              </div>
+            ))}
+            {result.logs.length > 0 && (
+              <details>
+                <summary className="cursor-pointer text-muted-foreground">Program logs</summary>
+                <pre className="mt-1 p-2 bg-background rounded whitespace-pre-wrap">{result.logs.join('\n')}</pre>
+              </details>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionPlayground;
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ProjectData } from '@/types/project';
+import { CodeEdits } from '@/utils/codeMerge';
+
+// Hand edits to generated files, stored under `codeEdits` in `projects.project_data`
+export const useCodeEdits = (projectId?: string | null) => {
+  const [edits, setEdits] = useState<CodeEdits>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setEdits({});
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('projects')
+      .select('project_data')
+      .eq('id', projectId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to load code edits:', error);
+        } else {
+          setEdits((data.project_data as ProjectData || {}).codeEdits || {});
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const saveEdits = useCallback(async (next: CodeEdits) => {
+    setEdits(next);
+    if (!projectId) return { error: null };
+
+    // Merge into the existing document so other project data is kept
+    const { data, error: loadError } = await supabase
+      .from('projects')
+      .select('project_data')
+      .eq('id', projectId)
+      .single();
+    if (loadError) return { error: loadError };
+
+    const projectData = { ...(data.project_data as ProjectData || {}), codeEdits: next };
+    const { error } = await supabase
+      .from('projects')
+      .update({ project_data: projectData, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    return { error };
+  }, [projectId]);
+
+  // Local changes while typing; `saveEdits` stores them
+  return { edits, loading, setEdits, saveEdits };
+};
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DeploymentGraph } from '@/types/deployment';
+import { ComputeProfile, InstructionProfile, NewComputeProfile } from '@/types/profiling';
+import { Network } from '@/types/project';
+
+// Runs kept in view; older ones stay stored but no longer serve as baselines
+export const RECENT_PROFILE_LIMIT = 50;
+
+interface ComputeProfileRow {
+  id: string;
+  project_id: string;
+  network: Network;
+  source_hash: string;
+  graph: DeploymentGraph | null;
+  instructions: InstructionProfile[] | null;
+  created_at: string;
+}
+
+const fromRow = (row: ComputeProfileRow): ComputeProfile => ({
+  id: row.id,
+  projectId: row.project_id,
+  network: row.network,
+  sourceHash: row.source_hash,
+  graph: { nodes: row.graph?.nodes || [], connections: row.graph?.connections || [] },
+  instructions: row.instructions || [],
+  createdAt: row.created_at,
+});
+
+// Compute unit measurements of a project's test runs from `public.compute_profiles`, newest first
+export const useComputeProfiles = (projectId?: string | null) => {
+  const [profiles, setProfiles] = useState<ComputeProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setProfiles([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('compute_profiles')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_PROFILE_LIMIT)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to load compute profiles:', error);
+        } else {
+          setProfiles((data as ComputeProfileRow[]).map(fromRow));
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Returns the stored run; without a project or a session it is only kept in memory
+  const recordProfile = useCallback(async (record: NewComputeProfile) => {
+    const local: ComputeProfile = {
+      ...record,
+      id: crypto.randomUUID(),
+      projectId: projectId || '',
+      createdAt: new Date().toISOString(),
+    };
+    const keep = (profile: ComputeProfile) => {
+      setProfiles(prev => [profile, ...prev].slice(0, RECENT_PROFILE_LIMIT));
+      return profile;
+    };
+    if (!projectId) return { profile: keep(local), error: null };
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { profile: keep(local), error: null };
+
+    const { data, error } = await supabase
+      .from('compute_profiles')
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        network: record.network,
+        source_hash: record.sourceHash,
+        graph: record.graph,
+        instructions: record.instructions,
+      })
+      .select()
+      .single();
+    if (error) return { profile: keep(local), error };
+
+    return { profile: keep(fromRow(data as ComputeProfileRow)), error: null };
+  }, [projectId]);
+
+  return { profiles, loading, recordProfile };
+};
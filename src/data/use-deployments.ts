@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DeploymentGraph, DeploymentRecord, NewDeploymentRecord } from '@/types/deployment';
+import { Network } from '@/types/project';
+
+interface DeploymentRow {
+  id: string;
+  project_id: string;
+  kind: DeploymentRecord['kind'];
+  network: Network;
+  program_id: string;
+  signature: string | null;
+  success: boolean;
+  error: string | null;
+  source_hash: string;
+  idl: unknown | null;
+  graph: DeploymentGraph | null;
+  deployer: string | null;
+  build_logs: string[] | null;
+  created_at: string;
+}
+
+const fromRow = (row: DeploymentRow): DeploymentRecord => ({
+  id: row.id,
+  projectId: row.project_id,
+  kind: row.kind,
+  network: row.network,
+  programId: row.program_id,
+  signature: row.signature,
+  success: row.success,
+  error: row.error,
+  sourceHash: row.source_hash,
+  idl: row.idl,
+  graph: { nodes: row.graph?.nodes || [], connections: row.graph?.connections || [] },
+  deployer: row.deployer,
+  buildLogs: row.build_logs || [],
+  createdAt: row.created_at,
+});
+
+// Release history of a project from `public.deployments`, newest first
+export const useDeployments = (projectId?: string | null) => {
+  const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setDeployments([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('deployments')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to load deployments:', error);
+        } else {
+          setDeployments((data as DeploymentRow[]).map(fromRow));
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Stores the attempt and mirrors its outcome into `projects.status`; a failed upgrade leaves the
+  // deployed program, and so the status, as it was
+  const recordDeployment = useCallback(async (record: NewDeploymentRecord) => {
+    if (!projectId) return { error: null };
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { error: new Error('Sign in to keep a deployment history') };
+
+    const { data, error } = await supabase
+      .from('deployments')
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        kind: record.kind,
+        network: record.network,
+        program_id: record.programId,
+        signature: record.signature,
+        success: record.success,
+        error: record.error,
+        source_hash: record.sourceHash,
+        idl: record.idl,
+        graph: record.graph,
+        deployer: record.deployer,
+        build_logs: record.buildLogs,
+      })
+      .select()
+      .single();
+    if (error) return { error };
+
+    setDeployments(prev => [fromRow(data as DeploymentRow), ...prev]);
+    if (!record.success && record.kind === 'upgrade') return { error: null };
+
+    const { error: statusError } = await supabase
+      .from('projects')
+      .update({ status: record.success ? 'deployed' : 'error', updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    return { error: statusError };
+  }, [projectId]);
+
+  return { deployments, loading, recordDeployment };
+};
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ProgramActivity } from '@/utils/programMonitor';
+
+// Activity kept in view and loaded back when the monitor opens
+export const RECENT_ACTIVITY_LIMIT = 200;
+
+// Recent monitor activity of a project from `public.program_activity`, newest first
+export const useProgramActivity = (projectId?: string | null) => {
+  const [activity, setActivity] = useState<ProgramActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setActivity([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('program_activity')
+      .select('payload')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to load program activity:', error);
+        } else {
+          setActivity((data as { payload: ProgramActivity }[]).map(row => row.payload));
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Shows the activity right away; without a project it is only kept in memory
+  const recordActivity = useCallback(async (entry: ProgramActivity) => {
+    setActivity(prev => [entry, ...prev.filter(other => other.id !== entry.id)].slice(0, RECENT_ACTIVITY_LIMIT));
+    if (!projectId) return { error: null };
+
+    // The session is read locally, which keeps bursts of activity from each costing an auth request
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { error: null };
+
+    const { error } = await supabase
+      .from('program_activity')
+      .insert({
+        project_id: projectId,
+        user_id: session.user.id,
+        network: entry.network,
+        kind: entry.kind,
+        slot: entry.slot,
+        payload: entry,
+      });
+
+    return { error };
+  }, [projectId]);
+
+  const clearActivity = useCallback(async () => {
+    setActivity([]);
+    if (!projectId) return { error: null };
+
+    const { error } = await supabase
+      .from('program_activity')
+      .delete()
+      .eq('project_id', projectId);
+
+    return { error };
+  }, [projectId]);
+
+  return { activity, loading, recordActivity, clearActivity };
+};
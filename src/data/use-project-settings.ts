@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ProjectData, ProjectSettings } from '@/types/project';
+import { defaultProjectSettings, normalizeProjectSettings } from '@/utils/projectSettings';
+
+// Program settings stored under `settings` in `projects.project_data`
+export const useProjectSettings = (projectId?: string | null) => {
+  const [settings, setSettings] = useState<ProjectSettings>(defaultProjectSettings());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) {
+      setSettings(defaultProjectSettings());
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('projects')
+      .select('name, project_data')
+      .eq('id', projectId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Failed to load project settings:', error);
+        } else {
+          const projectData = (data.project_data || {}) as ProjectData;
+          setSettings(normalizeProjectSettings(projectData.settings, data.name));
+        }
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const saveSettings = useCallback(async (next: ProjectSettings) => {
+    setSettings(next);
+    if (!projectId) return { error: null };
+
+    // Merge into the existing document so other project data is kept
+    const { data, error: loadError } = await supabase
+      .from('projects')
+      .select('project_data')
+      .eq('id', projectId)
+      .single();
+    if (loadError) return { error: loadError };
+
+    const projectData = { ...(data.project_data as ProjectData || {}), settings: next };
+    const { error } = await supabase
+      .from('projects')
+      .update({ project_data: projectData, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    return { error };
+  }, [projectId]);
+
+  return { settings, loading, saveSettings };
+};
@@ -0,0 +1,29 @@
+import { CanvasNode, Connection } from './editor';
+import { Network } from './project';
+
+// Canvas state a release was generated from; node icons are not stored
+export interface DeploymentGraph {
+  nodes: Omit<CanvasNode, 'icon'>[];
+  connections: Connection[];
+}
+
+// A row of `public.deployments`
+export interface DeploymentRecord {
+  id: string;
+  projectId: string;
+  kind: 'deploy' | 'upgrade';
+  network: Network;
+  programId: string;
+  signature: string | null;
+  success: boolean;
+  error: string | null;
+  sourceHash: string;
+  idl: unknown | null;
+  graph: DeploymentGraph;
+  // Wallet that signed the deployment
+  deployer: string | null;
+  buildLogs: string[];
+  createdAt: string;
+}
+
+export type NewDeploymentRecord = Omit<DeploymentRecord, 'id' | 'projectId' | 'createdAt'>;
@@ -1,9 +1,123 @@
+import type { Idl } from '@coral-xyz/anchor';
+
 export interface Port {
   id: string;
   name: string;
   type: string;
 }
 
+export type ScalarFieldKind =
+  | 'u8'
+  | 'u16'
+  | 'u32'
+  | 'u64'
+  | 'u128'
+  | 'i8'
+  | 'i16'
+  | 'i32'
+  | 'i64'
+  | 'i128'
+  | 'bool'
+  | 'pubkey';
+
+export type FieldType =
+  | { kind: ScalarFieldKind }
+  | { kind: 'string'; maxLength: number }
+  | { kind: 'vec'; maxLength: number; items: FieldType }
+  | { kind: 'struct'; name: string; fields: AccountField[] }
+  | { kind: 'enum'; name: string; variants: EnumVariant[] };
+
+export interface AccountField {
+  id: string;
+  name: string;
+  type: FieldType;
+}
+
+export interface EnumVariant {
+  name: string;
+  fields?: AccountField[];
+}
+
+export type ArgValue = string | number | boolean;
+
+export interface InstructionArg {
+  id: string;
+  name: string;
+  type: FieldType;
+  description?: string;
+  defaultValue?: ArgValue;
+  // Inclusive bounds, checked on-chain before the handler body runs
+  min?: number;
+  max?: number;
+  // Catalog error returned when a bound or length check fails; Anchor's require_gte! error otherwise
+  error?: string;
+}
+
+// One component of a PDA's seeds, in derivation order
+export type SeedComponent =
+  | { id: string; kind: 'literal'; value: string }
+  | { id: string; kind: 'arg'; name: string }
+  // `account` is either 'authority' or the id of another account node
+  | { id: string; kind: 'account'; account: string };
+
+export type AccountInitMode = 'init' | 'init_if_needed';
+
+// Program state with a typed schema, or an SPL token account / mint
+export type AccountKind = 'state' | 'token' | 'mint';
+
+// 'authority' for the instruction's signer, 'payer' for a separate fee payer
+// signer, or the id of another account node connected to the instruction
+export type AccountRef = string;
+
+export interface CustomConstraint {
+  id: string;
+  // Rust boolean expression over the accounts and instruction arguments
+  expression: string;
+  // Catalog error returned when the expression is false
+  error: string;
+}
+
+// How an instruction uses one of its connected accounts
+export interface AccountConstraints {
+  init?: AccountInitMode;
+  // Pays rent for init and realloc; defaults to the authority
+  payer?: 'authority' | 'payer';
+  // Bytes to allocate on init; defaults to the schema's size
+  space?: number;
+  // Account that receives the rent when this account is closed
+  close?: AccountRef;
+  realloc?: { space: number; zero: boolean };
+  // Pubkey fields that must equal the key of the same-named account; defaults to the authority check
+  hasOne?: string[];
+  address?: string;
+  owner?: string;
+  tokenMint?: AccountRef;
+  tokenAuthority?: AccountRef;
+  mintDecimals?: number;
+  mintAuthority?: AccountRef;
+  custom?: CustomConstraint[];
+}
+
+// Programs a CPI node can call; 'idl' is any Anchor program described by an imported IDL
+export type CpiProgramKind = 'system' | 'token' | 'token2022' | 'associatedToken' | 'metadata' | 'idl';
+
+// How the calling instruction fills one instruction of the target program
+export interface CpiInvocation {
+  // Per target account: the caller account that fills it. Unmapped accounts use the caller's
+  // field of the same name, or are passed through unchecked
+  accounts: Record<string, AccountRef>;
+  // Per target argument: the name of a caller argument, or a Rust expression
+  args: Record<string, string>;
+}
+
+export interface CpiTarget {
+  program: CpiProgramKind;
+  // Anchor IDL JSON of an 'idl' program
+  idl?: Idl;
+  // Keyed by target instruction name; the node has one input port per instruction
+  invocations: Record<string, CpiInvocation>;
+}
+
 export interface CanvasNode {
   id: string;
   type: string;
@@ -19,6 +133,20 @@ export interface CanvasNode {
   aiGenerated?: boolean;
   description?: string;
   code?: string;
+  // Built-in module template the node was created from
+  templateId?: string;
+  // Typed layout of the on-chain account, or the payload of an event node
+  fields?: AccountField[];
+  // Defaults to 'state' (account nodes only)
+  accountKind?: AccountKind;
+  // Arguments passed to the generated handler (instruction nodes only)
+  args?: InstructionArg[];
+  // Seeds the account's address is derived from; empty for keypair accounts (account nodes only)
+  seeds?: SeedComponent[];
+  // Per connected account, keyed by the account node id (instruction nodes only)
+  accountConstraints?: Record<string, AccountConstraints>;
+  // Target program and how each of its instructions is called (CPI nodes only)
+  cpi?: CpiTarget;
 }
 
 export interface Connection {
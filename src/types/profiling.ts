@@ -0,0 +1,28 @@
+import { DeploymentGraph } from './deployment';
+import { Network } from './project';
+
+// Compute units one test measured for one instruction; only passing tests measure the full path
+export interface InstructionProfile {
+  instruction: string;
+  // Consumed by the whole transaction, which is what `setComputeUnitLimit` caps; null when it was never sent
+  computeUnits: number | null;
+  // Consumed by the program's own invocation, its CPIs included
+  programUnits: number | null;
+  success: boolean;
+  // Why the test failed or was skipped
+  error?: string;
+}
+
+// A row of `public.compute_profiles`: one test run over the program's instructions
+export interface ComputeProfile {
+  id: string;
+  projectId: string;
+  network: Network;
+  // SHA-256 of the generated workspace that was tested
+  sourceHash: string;
+  graph: DeploymentGraph;
+  instructions: InstructionProfile[];
+  createdAt: string;
+}
+
+export type NewComputeProfile = Omit<ComputeProfile, 'id' | 'projectId' | 'createdAt'>;
@@ -0,0 +1,55 @@
+export type ProgramCluster = 'localnet' | 'devnet' | 'testnet' | 'mainnet';
+
+// Where transactions go: a cluster's endpoint, or the project's custom RPC
+export type Network = ProgramCluster | 'custom';
+
+export interface RpcEndpoint {
+  http: string;
+  // Derived from `http` when unset: ws(s):// on the next port for explicit ports
+  ws?: string;
+}
+
+export interface CustomRpc extends RpcEndpoint {
+  // Cluster the endpoint serves, which selects the program ID and explorer links
+  cluster: ProgramCluster;
+}
+
+// One variant of the generated `ErrorCode` enum
+export interface ProgramErrorDefinition {
+  id: string;
+  // PascalCase variant name
+  name: string;
+  message: string;
+  // Pins the error code to 6000 + offset; otherwise it follows the previous error
+  offset?: number;
+}
+
+export interface ProjectSettings {
+  // snake_case name of the `#[program]` module and of the compiled library
+  programName: string;
+  // Cargo package name, also used for the `programs/<crate>` directory
+  crateName: string;
+  programIds: Record<ProgramCluster, string>;
+  // Project-level error catalog, referenced by constraints and argument checks
+  errors: ProgramErrorDefinition[];
+  // Endpoints used instead of the public ones, e.g. a private RPC or a validator on another port
+  rpcOverrides: Partial<Record<ProgramCluster, RpcEndpoint>>;
+  customRpc?: CustomRpc;
+  // Limits the generated client sets with `setComputeUnitLimit`, keyed by IDL instruction name
+  computeUnitLimits: Record<string, number>;
+}
+
+// A hand edit to one generated file, carried across regeneration
+export interface CodeEdit {
+  // Generated content the edit was last merged against
+  base: string;
+  edited: string;
+}
+
+// Shape of `projects.project_data`; unknown keys are preserved on save
+export interface ProjectData {
+  settings?: Partial<ProjectSettings>;
+  // Keyed by file, e.g. `lib.rs` or `instructions/deposit.rs`
+  codeEdits?: Record<string, CodeEdit>;
+  [key: string]: unknown;
+}
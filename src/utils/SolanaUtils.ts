@@ -1,5 +1,30 @@
-import { Connection, PublicKey, Transaction, SystemProgram, Keypair, VersionedTransaction } from '@solana/web3.js';
-import { Program, AnchorProvider, web3 } from '@coral-xyz/anchor';
+import { Connection, PublicKey, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { Program, web3 } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { ExecutionEngine, InstructionTestInputs, RpcExecutionEngine } from './executionEngine';
+import { BuildBackend, BuildDiagnostic, BuildOutputLine, parseRustcDiagnostics, WorkerBuildBackend } from './buildBackend';
+import { WorkspaceFile } from './workspaceExport';
+import {
+  BPF_LOADER_UPGRADEABLE_ID,
+  BUFFER_METADATA_SIZE,
+  BufferAccount,
+  closeBuffer,
+  deployFromBuffer,
+  findBuffers,
+  LOADER_COMPUTE_UNIT_LIMIT,
+  LoaderWallet,
+  parseLoaderAccount,
+  PROGRAM_ACCOUNT_SIZE,
+  PROGRAMDATA_METADATA_SIZE,
+  programDataAddress,
+  setProgramAuthority,
+  upgradeFromBuffer,
+  uploadToBuffer,
+  UploadProgress,
+  writeTransactionCount,
+} from './programLoader';
+import { createConnection, explorerUrl, resolveEndpoint } from './networks';
+import { Network, ProjectSettings } from '@/types/project';
 
 export interface TestResult {
   instruction: string;
@@ -7,8 +32,11 @@ export interface TestResult {
   signature?: string;
   error?: string;
   duration: number;
+  // Compute units the runtime reports for the transaction
   gasUsed?: number;
   logs?: string[];
+  // Not sent because it needs accounts the engine cannot create; `error` explains
+  skipped?: boolean;
 }
 
 export interface DeploymentResult {
@@ -16,9 +44,66 @@ export interface DeploymentResult {
   signature: string;
   success: boolean;
   error?: string;
-  network: 'devnet' | 'mainnet';
+  network: Network;
   explorerUrl?: string;
   buildLogs?: string[];
+  // IDL the deployed binary was built with
+  idl?: string;
+  // Compiler errors and warnings, when the build failed
+  diagnostics?: BuildDiagnostic[];
+}
+
+export interface DeployOptions {
+  // Keypair whose public key is the program's `declare_id!`
+  programKeypair: Keypair;
+  // A build already made with `compileProgram`, e.g. for the cost estimate; otherwise the files are built
+  compiled?: CompilationResult;
+  // Priority fee in micro-lamports per compute unit, e.g. the estimate's; without it none is paid
+  computeUnitPrice?: number;
+  onOutput?: (output: BuildOutputLine) => void;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UpgradeOptions {
+  // A program already deployed on the network, upgradeable by the connected wallet
+  programId: PublicKey;
+  compiled?: CompilationResult;
+  computeUnitPrice?: number;
+  onOutput?: (output: BuildOutputLine) => void;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface CostLine {
+  label: string;
+  lamports: number;
+  detail?: string;
+  // Rent only held while uploading; the buffer's lamports come back once the program is deployed
+  refunded?: boolean;
+}
+
+export interface DeploymentCostEstimate {
+  lines: CostLine[];
+  // Balance the wallet needs before starting
+  requiredLamports: number;
+  // What stays spent once the buffer is refunded
+  totalLamports: number;
+  transactions: number;
+  // Priority fee the estimate charges, to pass on to the deployment so it is the one paid
+  computeUnitPrice: number;
+}
+
+export interface ProgramInfo {
+  exists: boolean;
+  executable: boolean;
+  owner: string;
+  dataLength: number;
+  // Set for programs owned by the upgradeable loader
+  upgradeable?: {
+    programData: string;
+    // Null once the program is immutable
+    authority: string | null;
+    lastDeploySlot: number;
+  };
 }
 
 export interface CompilationResult {
@@ -27,61 +112,53 @@ export interface CompilationResult {
   errors?: string[];
   warnings?: string[];
   idlPath?: string;
+  // Artifacts the build produced
+  program?: Uint8Array;
+  idl?: string;
+  diagnostics?: BuildDiagnostic[];
+  output?: BuildOutputLine[];
 }
 
-// Simple wallet interface for browser compatibility that matches Anchor's Wallet interface
-interface BrowserWallet {
-  publicKey: PublicKey;
-  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
-  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
-}
+const formatDiagnostic = (diagnostic: BuildDiagnostic): string =>
+  diagnostic.file ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.message}` : diagnostic.message;
 
 export class SolanaTestRunner {
   private connection: Connection;
-  private provider: AnchorProvider;
-
-  constructor(network: 'devnet' | 'mainnet' = 'devnet') {
-    const endpoint = network === 'devnet' 
-      ? 'https://api.devnet.solana.com'
-      : 'https://api.mainnet-beta.solana.com';
-    
-    this.connection = new Connection(endpoint, 'confirmed');
-    
-    // Create a mock wallet for testing purposes
-    const keypair = Keypair.generate();
-    const mockWallet: BrowserWallet = {
-      publicKey: keypair.publicKey,
-      signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
-        if (tx instanceof Transaction) {
-          tx.partialSign(keypair);
-        }
-        return tx;
-      },
-      signAllTransactions: async <T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> => {
-        txs.forEach(tx => {
-          if (tx instanceof Transaction) {
-            tx.partialSign(keypair);
-          }
-        });
-        return txs;
-      }
-    };
-
-    this.provider = new AnchorProvider(this.connection, mockWallet, {
-      commitment: 'confirmed',
-    });
+  private engine: ExecutionEngine;
+
+  // Tests run on the network's endpoint, which the project's RPC settings can override
+  constructor(
+    network: Network = 'localnet',
+    { settings, engine }: { settings?: ProjectSettings; engine?: ExecutionEngine } = {}
+  ) {
+    this.connection = createConnection(network, settings);
+    this.engine = engine || new RpcExecutionEngine(resolveEndpoint(network, settings));
   }
 
-  async runTests(instructions: string[], programCode: string): Promise<TestResult[]> {
+  // Instructions run against the engine from the program's IDL; without one nothing can be executed.
+  // `inputs`, by instruction name, come from `instructionTestInputs`
+  async runTests(
+    instructions: string[],
+    programCode: string,
+    idl?: Idl,
+    inputs: Record<string, InstructionTestInputs> = {}
+  ): Promise<TestResult[]> {
     const results: TestResult[] = [];
     console.log('🧪 Starting comprehensive test suite...');
 
+    const problem = idl
+      ? await this.engine.prepare(idl)
+      : 'No IDL for this program. Generate code before running tests.';
+    if (problem) {
+      return instructions.map(instruction => ({ instruction, success: false, error: problem, duration: 0 }));
+    }
+
     for (const instruction of instructions) {
       const startTime = Date.now();
       
       try {
         console.log(`Testing instruction: ${instruction}`);
-        const result = await this.executeTest(instruction, programCode);
+        const result = await this.engine.execute(idl!, instruction, inputs[instruction]);
         const duration = Date.now() - startTime;
 
         results.push({
@@ -90,11 +167,12 @@ export class SolanaTestRunner {
           signature: result.signature,
           error: result.error,
           duration,
-          gasUsed: result.gasUsed,
-          logs: result.logs
+          gasUsed: result.computeUnits,
+          logs: result.logs,
+          skipped: result.skipped
         });
 
-        console.log(`✅ ${instruction} completed in ${duration}ms`);
+        console.log(`${result.success ? '✅' : '❌'} ${instruction} completed in ${duration}ms`);
       } catch (error) {
         const duration = Date.now() - startTime;
         console.error(`❌ ${instruction} failed:`, error);
@@ -111,72 +189,6 @@ export class SolanaTestRunner {
     return results;
   }
 
-  private async executeTest(instruction: string, programCode: string): Promise<{ 
-    success: boolean; 
-    signature?: string; 
-    error?: string;
-    gasUsed?: number;
-    logs?: string[];
-  }> {
-    try {
-      // Simulate program compilation and execution
-      console.log(`Compiling instruction: ${instruction}`);
-      
-      // Simulate a transaction with realistic gas estimation
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: this.provider.publicKey,
-          toPubkey: this.provider.publicKey,
-          lamports: 0, // Zero transfer for testing
-        })
-      );
-
-      // Simulate realistic execution
-      const simulatedGasUsed = Math.floor(Math.random() * 200000) + 5000;
-      const simulatedLogs = [
-        `Program log: Executing ${instruction}`,
-        `Program log: Instruction completed successfully`,
-        `Program consumed: ${simulatedGasUsed} compute units`
-      ];
-
-      // Enhanced success rate based on code complexity
-      const codeComplexity = programCode.length / 1000; // Simple heuristic
-      const baseSuccessRate = 0.85;
-      const complexityPenalty = Math.min(codeComplexity * 0.1, 0.2);
-      const successRate = baseSuccessRate - complexityPenalty;
-      
-      const isSuccess = Math.random() < successRate;
-
-      if (isSuccess) {
-        return {
-          success: true,
-          signature: 'tx_' + Math.random().toString(36).substr(2, 12),
-          gasUsed: simulatedGasUsed,
-          logs: simulatedLogs
-        };
-      } else {
-        const errorMessages = [
-          'Insufficient funds for transaction',
-          'Program execution failed',
-          'Invalid account data',
-          'Custom program error: InvalidInstruction',
-          'Cross-program invocation failed'
-        ];
-        
-        return {
-          success: false,
-          error: errorMessages[Math.floor(Math.random() * errorMessages.length)],
-          logs: [`Program log: Error in ${instruction}`, 'Program failed']
-        };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Test execution failed',
-      };
-    }
-  }
-
   async getAccountBalance(publicKey: PublicKey): Promise<number> {
     return await this.connection.getBalance(publicKey);
   }
@@ -239,74 +251,50 @@ export class SolanaTestRunner {
 
 export class ProgramDeployer {
   private connection: Connection;
-  private wallet: BrowserWallet;
+  private wallet?: LoaderWallet;
   private testRunner: SolanaTestRunner;
-
-  constructor(network: 'devnet' | 'mainnet' = 'devnet') {
-    const endpoint = network === 'devnet' 
-      ? 'https://api.devnet.solana.com'
-      : 'https://api.mainnet-beta.solana.com';
-    
-    this.connection = new Connection(endpoint, 'confirmed');
-    this.testRunner = new SolanaTestRunner(network);
-    
-    // Create a mock wallet for deployment
-    const keypair = Keypair.generate();
-    this.wallet = {
-      publicKey: keypair.publicKey,
-      signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
-        if (tx instanceof Transaction) {
-          tx.partialSign(keypair);
-        }
-        return tx;
-      },
-      signAllTransactions: async <T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> => {
-        txs.forEach(tx => {
-          if (tx instanceof Transaction) {
-            tx.partialSign(keypair);
-          }
-        });
-        return txs;
-      }
-    };
+  private buildBackend: BuildBackend;
+  private settings?: ProjectSettings;
+
+  // Deployments are signed and paid for by the connected wallet, which becomes the upgrade authority
+  constructor(
+    network: Network = 'devnet',
+    wallet?: LoaderWallet,
+    { settings, buildBackend = new WorkerBuildBackend() }: { settings?: ProjectSettings; buildBackend?: BuildBackend } = {}
+  ) {
+    this.connection = createConnection(network, settings);
+    this.testRunner = new SolanaTestRunner(network, { settings });
+    this.buildBackend = buildBackend;
+    this.wallet = wallet;
+    this.settings = settings;
   }
 
-  async compileProgram(programCode: string): Promise<CompilationResult> {
+  // Builds the exported workspace, streaming compiler output to `onOutput` as it arrives
+  async compileProgram(files: WorkspaceFile[], onOutput?: (output: BuildOutputLine) => void): Promise<CompilationResult> {
     console.log('🔨 Compiling Solana program...');
     
     try {
-      // Validate program structure first
-      const validation = await this.testRunner.validateProgramStructure(programCode);
-      
-      if (!validation.isValid) {
-        return {
-          success: false,
-          errors: validation.errors,
-          warnings: validation.warnings
-        };
-      }
+      const artifacts = await this.buildBackend.build(files, onOutput);
+      const diagnostics = parseRustcDiagnostics(artifacts.output.map(output => output.line));
+      const errors = [
+        ...(artifacts.error ? [artifacts.error] : []),
+        ...diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(formatDiagnostic),
+      ];
 
-      // Simulate compilation process
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate compilation time
-      
-      const hasWarnings = validation.warnings.length > 0;
-      const compilationSuccess = Math.random() > 0.1; // 90% success rate
-      
-      if (compilationSuccess) {
+      if (artifacts.success) {
         console.log('✅ Program compiled successfully');
-        return {
-          success: true,
-          binaryPath: '/target/deploy/program.so',
-          idlPath: '/target/idl/program.json',
-          warnings: validation.warnings
-        };
-      } else {
-        return {
-          success: false,
-          errors: ['Compilation failed: syntax error in instruction', 'Build failed'],
-          warnings: validation.warnings
-        };
       }
+      return {
+        success: artifacts.success,
+        binaryPath: artifacts.programPath,
+        idlPath: artifacts.idlPath,
+        program: artifacts.program,
+        idl: artifacts.idl,
+        errors: artifacts.success ? [] : errors.length > 0 ? errors : ['Build failed'],
+        warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').map(formatDiagnostic),
+        diagnostics,
+        output: artifacts.output,
+      };
     } catch (error) {
       return {
         success: false,
@@ -315,102 +303,161 @@ export class ProgramDeployer {
     }
   }
 
-  async deployProgram(programCode: string, network: 'devnet' | 'mainnet'): Promise<DeploymentResult> {
+  async deployProgram(
+    files: WorkspaceFile[],
+    network: Network,
+    { programKeypair, compiled, computeUnitPrice, onOutput, onProgress }: DeployOptions
+  ): Promise<DeploymentResult> {
     console.log(`🚀 Deploying program to ${network}...`);
+    const programId = programKeypair.publicKey.toString();
+    const failure = (error: string, buildLogs?: string[]): DeploymentResult =>
+      ({ programId, signature: '', success: false, error, network, buildLogs });
+
+    if (!this.wallet) {
+      return failure('Connect a wallet to deploy. It pays for the deployment and becomes the upgrade authority.');
+    }
     
     try {
       // First compile the program
-      const compilationResult = await this.compileProgram(programCode);
+      const compilationResult = compiled || await this.compileProgram(files, onOutput);
       
-      if (!compilationResult.success) {
+      if (!compilationResult.success || !compilationResult.program) {
         return {
-          programId: '',
-          signature: '',
-          success: false,
-          error: `Compilation failed: ${compilationResult.errors?.join(', ')}`,
-          network,
-          buildLogs: compilationResult.errors
+          ...failure(`Compilation failed: ${compilationResult.errors?.join(', ')}`, compilationResult.errors),
+          diagnostics: compilationResult.diagnostics
         };
       }
 
-      // Generate program keypair
-      const programKeypair = Keypair.generate();
-      const programId = programKeypair.publicKey.toString();
+      if (await this.connection.getAccountInfo(programKeypair.publicKey)) {
+        return failure(`Program ${programId} already exists on ${network}. Upgrade it instead of deploying.`);
+      }
 
-      // Simulate deployment process
+      // An interrupted upload leaves its buffer behind; deploying again picks it up
       console.log('📦 Uploading program binary...');
-      await new Promise(resolve => setTimeout(resolve, 3000)); // Simulate upload time
-      
+      const program = compilationResult.program;
+      const buffer = await uploadToBuffer(this.connection, this.wallet, program, onProgress, computeUnitPrice);
+
       console.log('⚡ Executing deployment transaction...');
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate tx time
+      onProgress?.({ stage: 'deploy', written: program.length, total: program.length });
+      const signature = await deployFromBuffer(this.connection, this.wallet, programKeypair, buffer, program.length, computeUnitPrice);
+      const transactionUrl = explorerUrl('tx', signature, network, this.settings);
 
-      // Simulate deployment success/failure
-      const deploymentSuccess = Math.random() > 0.15; // 85% success rate
-      
-      if (deploymentSuccess) {
-        const signature = 'deploy_' + Math.random().toString(36).substr(2, 12);
-        const explorerUrl = `https://explorer.solana.com/tx/${signature}?cluster=${network}`;
-        
-        console.log(`✅ Program deployed successfully!`);
-        console.log(`Program ID: ${programId}`);
-        console.log(`Explorer: ${explorerUrl}`);
-        
-        return {
-          programId,
-          signature,
-          success: true,
-          network,
-          explorerUrl,
-          buildLogs: [
-            'Program compiled successfully',
-            'Binary uploaded to cluster',
-            'Deployment transaction confirmed',
-            `Program ID: ${programId}`
-          ]
-        };
-      } else {
-        const deploymentErrors = [
-          'Insufficient SOL for deployment',
-          'Program account already exists',
-          'Invalid program binary',
-          'Network congestion - deployment failed'
-        ];
-        
+      console.log(`✅ Program deployed successfully!`);
+      console.log(`Program ID: ${programId}`);
+      console.log(`Explorer: ${transactionUrl}`);
+
+      return {
+        programId,
+        signature,
+        success: true,
+        network,
+        explorerUrl: transactionUrl,
+        idl: compilationResult.idl,
+        buildLogs: [
+          'Program compiled successfully',
+          `Binary written to buffer ${buffer.toString()}`,
+          'Deployment transaction confirmed',
+          `Program ID: ${programId}`
+        ]
+      };
+    } catch (error) {
+      return failure(
+        error instanceof Error ? error.message : 'Deployment failed',
+        ['Deployment interrupted; deploy again to resume from the uploaded buffer']
+      );
+    }
+  }
+
+  // Rebuilds and replaces the code of a program the wallet is upgrade authority of; its program ID stays the same
+  async upgradeProgram(
+    files: WorkspaceFile[],
+    network: Network,
+    { programId, compiled, computeUnitPrice, onOutput, onProgress }: UpgradeOptions
+  ): Promise<DeploymentResult> {
+    console.log(`🚀 Upgrading program on ${network}...`);
+    const failure = (error: string, buildLogs?: string[]): DeploymentResult =>
+      ({ programId: programId.toString(), signature: '', success: false, error, network, buildLogs });
+
+    if (!this.wallet) {
+      return failure('Connect the upgrade authority wallet to upgrade.');
+    }
+
+    const info = await this.getProgramInfo(programId.toString());
+    if (!info?.upgradeable) {
+      return failure(`Program ${programId} is not an upgradeable program on ${network}. Deploy it first.`);
+    }
+    if (!info.upgradeable.authority) {
+      return failure(`Program ${programId} is immutable and can no longer be upgraded.`);
+    }
+    if (info.upgradeable.authority !== this.wallet.publicKey.toString()) {
+      return failure(`The upgrade authority is ${info.upgradeable.authority}. Connect that wallet to upgrade.`);
+    }
+
+    try {
+      const compilationResult = compiled || await this.compileProgram(files, onOutput);
+      if (!compilationResult.success || !compilationResult.program) {
         return {
-          programId: '',
-          signature: '',
-          success: false,
-          error: deploymentErrors[Math.floor(Math.random() * deploymentErrors.length)],
-          network,
-          buildLogs: [
-            'Program compiled successfully',
-            'Binary upload started',
-            'Deployment failed'
-          ]
+          ...failure(`Compilation failed: ${compilationResult.errors?.join(', ')}`, compilationResult.errors),
+          diagnostics: compilationResult.diagnostics
         };
       }
-    } catch (error) {
+
+      console.log('📦 Uploading program binary...');
+      const program = compilationResult.program;
+      const buffer = await uploadToBuffer(this.connection, this.wallet, program, onProgress, computeUnitPrice);
+
+      console.log('⚡ Executing upgrade transaction...');
+      onProgress?.({ stage: 'deploy', written: program.length, total: program.length });
+      const signature = await upgradeFromBuffer(this.connection, this.wallet, programId, buffer, program.length, computeUnitPrice);
+
       return {
-        programId: '',
-        signature: '',
-        success: false,
-        error: error instanceof Error ? error.message : 'Deployment failed',
+        programId: programId.toString(),
+        signature,
+        success: true,
         network,
-        buildLogs: ['Deployment process failed']
+        explorerUrl: explorerUrl('tx', signature, network, this.settings),
+        idl: compilationResult.idl,
+        buildLogs: [
+          'Program compiled successfully',
+          `Binary written to buffer ${buffer.toString()}`,
+          'Upgrade transaction confirmed',
+          `Program ID: ${programId}`
+        ]
       };
+    } catch (error) {
+      return failure(
+        error instanceof Error ? error.message : 'Upgrade failed',
+        ['Upgrade interrupted; upgrade again to resume from the uploaded buffer']
+      );
     }
   }
 
+  // Transfers the upgrade authority, e.g. to a multisig, or makes the program immutable when `newAuthority` is null
+  async setUpgradeAuthority(programId: string, newAuthority: string | null): Promise<string> {
+    if (!this.wallet) throw new Error('Connect the upgrade authority wallet to change it');
+    return await setProgramAuthority(
+      this.connection,
+      this.wallet,
+      new PublicKey(programId),
+      newAuthority ? new PublicKey(newAuthority) : null
+    );
+  }
+
+  // Buffers left by interrupted uploads, still holding the wallet's rent
+  async findStrandedBuffers(): Promise<BufferAccount[]> {
+    return this.wallet ? await findBuffers(this.connection, this.wallet.publicKey) : [];
+  }
+
+  async closeStrandedBuffer(buffer: PublicKey): Promise<string> {
+    if (!this.wallet) throw new Error('Connect a wallet to close buffers');
+    return await closeBuffer(this.connection, this.wallet, buffer);
+  }
+
   async monitorTransaction(signature: string): Promise<'confirmed' | 'finalized' | 'failed' | 'pending'> {
     return await this.testRunner.getTransactionStatus(signature);
   }
 
-  async getProgramInfo(programId: string): Promise<{
-    exists: boolean;
-    executable: boolean;
-    owner: string;
-    dataLength: number;
-  } | null> {
+  async getProgramInfo(programId: string): Promise<ProgramInfo | null> {
     try {
       const programPublicKey = new PublicKey(programId);
       const accountInfo = await this.connection.getAccountInfo(programPublicKey);
@@ -419,31 +466,106 @@ export class ProgramDeployer {
         return null;
       }
       
-      return {
+      const info: ProgramInfo = {
         exists: true,
         executable: accountInfo.executable,
         owner: accountInfo.owner.toString(),
         dataLength: accountInfo.data.length
       };
+
+      // The code and upgrade authority live in the program data account the program points to
+      const program = accountInfo.owner.equals(BPF_LOADER_UPGRADEABLE_ID) ? parseLoaderAccount(accountInfo.data) : null;
+      if (program?.kind === 'program') {
+        const programData = await this.connection.getAccountInfo(program.programData);
+        const state = programData ? parseLoaderAccount(programData.data) : null;
+        if (state?.kind === 'programData') {
+          info.dataLength = state.data.length;
+          info.upgradeable = {
+            programData: program.programData.toString(),
+            authority: state.authority?.toString() || null,
+            lastDeploySlot: state.slot,
+          };
+        }
+      }
+      return info;
     } catch (error) {
       console.error('Error fetching program info:', error);
       return null;
     }
   }
 
-  async estimateDeploymentCost(programSize: number): Promise<{
-    rentCost: number;
-    transactionCost: number;
-    totalCost: number;
-  }> {
-    // Estimate costs based on program size
-    const rentCost = Math.ceil(programSize / 1000) * 0.00089088; // SOL per KB
-    const transactionCost = 0.000005; // Base transaction cost
-    
+  // What deploying a binary of `programSize` bytes costs at current rent and fees. With the ID of a
+  // deployed program it is priced as an upgrade, which only pays to grow the program data account
+  async estimateDeploymentCost(programSize: number, programId?: string): Promise<DeploymentCostEstimate> {
+    const rent = (space: number) => this.connection.getMinimumBalanceForRentExemption(space);
+    const writes = writeTransactionCount(programSize);
+    const lines: CostLine[] = [{
+      label: 'Upload buffer',
+      lamports: await rent(BUFFER_METADATA_SIZE + programSize),
+      detail: `${programSize} bytes`,
+      refunded: true,
+    }];
+
+    // Buffer creation and deploy are signed by the wallet and a new keypair; upgrades and extensions by the wallet
+    let transactions = writes + 2;
+    let signatures = writes + 4;
+    const programData = programId ? await this.connection.getAccountInfo(programDataAddress(new PublicKey(programId))) : null;
+    if (programData) {
+      const capacity = programData.data.length - PROGRAMDATA_METADATA_SIZE;
+      signatures = writes + 3;
+      if (programSize > capacity) {
+        lines.push({
+          label: 'Program data extension',
+          lamports: Math.max(0, await rent(PROGRAMDATA_METADATA_SIZE + programSize) - programData.lamports),
+          detail: `${programSize - capacity} more bytes`,
+        });
+        transactions += 1;
+        signatures += 1;
+      }
+    } else {
+      lines.push(
+        { label: 'Program account', lamports: await rent(PROGRAM_ACCOUNT_SIZE) },
+        {
+          label: 'Program data',
+          lamports: await rent(PROGRAMDATA_METADATA_SIZE + programSize * 2),
+          detail: `${programSize * 2} bytes, twice the binary for later upgrades`,
+        },
+      );
+    }
+
+    // Fee for a one-signature message, at the current fee rate
+    const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
+    const payer = this.wallet?.publicKey || Keypair.generate().publicKey;
+    const message = new Transaction({ feePayer: payer, recentBlockhash: blockhash })
+      .add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 0 }))
+      .compileMessage();
+    const signatureFee = (await this.connection.getFeeForMessage(message, 'confirmed')).value ?? 5000;
+    lines.push({
+      label: 'Transaction fees',
+      lamports: signatures * signatureFee,
+      detail: `${transactions} transactions, ${writes} of them writes`,
+    });
+
+    // Median of recent priority fees, charged on the compute unit limit every loader transaction sets
+    const fees = (await this.connection.getRecentPrioritizationFees())
+      .map(fee => fee.prioritizationFee)
+      .sort((a, b) => a - b);
+    const microLamportsPerUnit = fees.length > 0 ? fees[Math.floor(fees.length / 2)] : 0;
+    if (microLamportsPerUnit > 0) {
+      lines.push({
+        label: 'Priority fees',
+        lamports: Math.ceil(transactions * LOADER_COMPUTE_UNIT_LIMIT * microLamportsPerUnit / 1_000_000),
+        detail: `${microLamportsPerUnit} micro-lamports per compute unit, ${LOADER_COMPUTE_UNIT_LIMIT.toLocaleString()} units per transaction`,
+      });
+    }
+
+    const requiredLamports = lines.reduce((sum, line) => sum + line.lamports, 0);
     return {
-      rentCost,
-      transactionCost,
-      totalCost: rentCost + transactionCost
+      lines,
+      requiredLamports,
+      totalLamports: requiredLamports - lines.filter(line => line.refunded).reduce((sum, line) => sum + line.lamports, 0),
+      transactions,
+      computeUnitPrice: microLamportsPerUnit,
     };
   }
 }
@@ -0,0 +1,241 @@
+import { AccountConstraints, AccountKind, AccountRef, CanvasNode, Connection } from '@/types/editor';
+import { accountSpace, findField, getAccountFields } from './accountSchema';
+import { renderAccountField } from './moduleEmitters';
+import { toTypeName } from './naming';
+import {
+  AUTHORITY_SEED,
+  accountFieldName,
+  connectedAccountNodes,
+  getSeeds,
+  isPda,
+  renderSeeds,
+  SeedScope,
+  seedScopeFor,
+} from './pdaSeeds';
+
+export const PAYER_REF = 'payer';
+
+// Upper bound the runtime allows for any account
+export const MAX_REALLOC_SPACE = 10 * 1024 * 1024;
+
+const BASE58_PUBKEY = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export const getAccountKind = (account: CanvasNode): AccountKind => account.accountKind || 'state';
+
+export const getAccountConstraints = (instruction: CanvasNode, accountId: string): AccountConstraints =>
+  instruction.accountConstraints?.[accountId] || {};
+
+// Rust type wrapped by `Account<'info, _>`
+export const accountTypeName = (account: CanvasNode): string => {
+  switch (getAccountKind(account)) {
+    case 'token':
+      return 'TokenAccount';
+    case 'mint':
+      return 'Mint';
+    default:
+      return toTypeName(account.name);
+  }
+};
+
+export const hasPubkeyField = (account: CanvasNode, name: string): boolean =>
+  getAccountKind(account) === 'state' && findField(getAccountFields(account), name)?.type.kind === 'pubkey';
+
+export const hasBumpField = (account: CanvasNode): boolean =>
+  getAccountKind(account) === 'state' && findField(getAccountFields(account), 'bump')?.type.kind === 'u8';
+
+// True when some account of the instruction is paid for by a signer other than the authority
+export const usesSeparatePayer = (instruction: CanvasNode): boolean =>
+  Object.values(instruction.accountConstraints || {}).some(constraints =>
+    constraints.payer === PAYER_REF && (!!constraints.init || !!constraints.realloc)
+  );
+
+// Token and mint accounts created by the instruction need the token program in the context
+export const needsTokenProgram = (instruction: CanvasNode, accounts: CanvasNode[]): boolean =>
+  accounts.some(account => getAccountKind(account) !== 'state' && !!getAccountConstraints(instruction, account.id).init);
+
+// Without explicit `has_one`s an existing account keeps the implicit authority check
+export const effectiveHasOne = (account: CanvasNode, constraints: AccountConstraints): string[] =>
+  constraints.hasOne ?? (!constraints.init && hasPubkeyField(account, 'authority') ? ['authority'] : []);
+
+const refField = (ref: AccountRef, scope: SeedScope): string | undefined =>
+  ref === PAYER_REF ? PAYER_REF : scope.accountField(ref);
+
+const pubkeyLiteral = (address: string) => `anchor_lang::solana_program::pubkey!("${address}")`;
+
+export const renderConnectedAccount = (instruction: CanvasNode, account: CanvasNode, scope: SeedScope): string => {
+  const field = accountFieldName(account);
+  const kind = getAccountKind(account);
+  const constraints = getAccountConstraints(instruction, account.id);
+  const payer = constraints.payer === PAYER_REF ? PAYER_REF : AUTHORITY_SEED;
+  const attributes: string[] = [];
+
+  if (constraints.init) {
+    attributes.push(constraints.init, `payer = ${payer}`);
+    if (kind === 'state') {
+      attributes.push(`space = ${constraints.space ?? `8 + ${toTypeName(account.name)}::INIT_SPACE`}`);
+    }
+  } else {
+    attributes.push('mut');
+  }
+
+  if (kind === 'token') {
+    if (constraints.tokenMint) attributes.push(`token::mint = ${refField(constraints.tokenMint, scope)}`);
+    if (constraints.tokenAuthority) attributes.push(`token::authority = ${refField(constraints.tokenAuthority, scope)}`);
+  } else if (kind === 'mint') {
+    if (constraints.init || constraints.mintDecimals !== undefined) {
+      attributes.push(`mint::decimals = ${constraints.mintDecimals ?? 0}`);
+    }
+    if (constraints.init || constraints.mintAuthority) {
+      attributes.push(`mint::authority = ${refField(constraints.mintAuthority || AUTHORITY_SEED, scope)}`);
+    }
+  }
+
+  effectiveHasOne(account, constraints).forEach(name => attributes.push(`has_one = ${name}`));
+  if (constraints.address) attributes.push(`address = ${pubkeyLiteral(constraints.address)}`);
+  if (constraints.owner) attributes.push(`owner = ${pubkeyLiteral(constraints.owner)}`);
+
+  if (isPda(account)) {
+    attributes.push(`seeds = ${renderSeeds(getSeeds(account), scope)}`);
+    // Reuse the stored canonical bump instead of searching for it again
+    attributes.push(!constraints.init && hasBumpField(account) ? `bump = ${field}.bump` : 'bump');
+  }
+
+  if (constraints.realloc) {
+    attributes.push(
+      `realloc = ${constraints.realloc.space}`,
+      `realloc::payer = ${payer}`,
+      `realloc::zero = ${constraints.realloc.zero}`
+    );
+  }
+  if (constraints.close) attributes.push(`close = ${refField(constraints.close, scope)}`);
+
+  (constraints.custom || []).forEach(custom => {
+    attributes.push(`constraint = ${custom.expression.trim()} @ ErrorCode::${custom.error}`);
+  });
+
+  return renderAccountField(`${field}: Account<'info, ${accountTypeName(account)}>`, attributes);
+};
+
+// Check one account's constraints within one instruction against its kind and schema
+export const validateAccountConstraints = (
+  instruction: CanvasNode,
+  account: CanvasNode,
+  nodes: CanvasNode[],
+  connections: Connection[]
+): string[] => {
+  const errors: string[] = [];
+  const constraints = getAccountConstraints(instruction, account.id);
+  const kind = getAccountKind(account);
+  const accounts = connectedAccountNodes(instruction, nodes, connections);
+  const scope = seedScopeFor(instruction, nodes, connections);
+  const separatePayer = usesSeparatePayer(instruction);
+  const fields = getAccountFields(account);
+  const { init, space, realloc, close, address, owner } = constraints;
+
+  const checkRef = (ref: AccountRef | undefined, label: string) => {
+    if (ref === undefined) return;
+    if (ref === PAYER_REF ? !separatePayer : !scope.accountField(ref)) {
+      errors.push(`${label} refers to an account that is not part of the instruction`);
+    }
+  };
+
+  if (kind !== 'token' && (constraints.tokenMint || constraints.tokenAuthority)) {
+    errors.push('token::mint and token::authority only apply to token accounts');
+  }
+  if (kind !== 'mint' && (constraints.mintDecimals !== undefined || constraints.mintAuthority)) {
+    errors.push('mint::decimals and mint::authority only apply to mint accounts');
+  }
+  if (kind !== 'state' && (space !== undefined || realloc)) {
+    errors.push('space and realloc are fixed by the token program for token and mint accounts');
+  }
+
+  if (constraints.payer === PAYER_REF && !init && !realloc) {
+    errors.push('a separate payer is only used by init and realloc');
+  }
+
+  if (space !== undefined) {
+    if (!init) {
+      errors.push('space only applies when the account is initialized');
+    } else if (kind === 'state' && space < accountSpace(fields)) {
+      errors.push(`space ${space} is smaller than the ${accountSpace(fields)} bytes the schema needs`);
+    }
+  }
+
+  if (realloc) {
+    if (init) {
+      errors.push('realloc cannot be combined with init');
+    } else if (kind === 'state' && realloc.space < accountSpace(fields)) {
+      errors.push(`realloc to ${realloc.space} bytes is smaller than the ${accountSpace(fields)} bytes the schema needs`);
+    } else if (realloc.space > MAX_REALLOC_SPACE) {
+      errors.push(`realloc to ${realloc.space} bytes exceeds the ${MAX_REALLOC_SPACE} byte account limit`);
+    }
+  }
+
+  if (close !== undefined) {
+    if (init) errors.push('an account cannot be initialized and closed by the same instruction');
+    if (close === account.id) errors.push('an account cannot be closed into itself');
+    checkRef(close, 'close');
+  }
+
+  const hasOne = effectiveHasOne(account, constraints);
+  if (hasOne.length > 0) {
+    if (init) {
+      errors.push('has_one cannot be checked on an account the instruction may create');
+    } else if (kind !== 'state') {
+      errors.push('has_one needs a schema field; use token:: or mint:: constraints for token accounts');
+    }
+    hasOne.forEach(name => {
+      if (findField(fields, name)?.type.kind !== 'pubkey') {
+        errors.push(`has_one = ${name}: the schema has no Pubkey field named ${name}`);
+      } else if (name !== AUTHORITY_SEED && !(name === PAYER_REF && separatePayer) && !accounts.some(a => accountFieldName(a) === name)) {
+        errors.push(`has_one = ${name}: the instruction has no account named ${name}`);
+      }
+    });
+  }
+
+  if (address !== undefined) {
+    if (!BASE58_PUBKEY.test(address)) errors.push('address is not a valid public key');
+    if (isPda(account)) errors.push('address cannot be combined with seeds; the seeds already fix the address');
+  }
+
+  if (owner !== undefined) {
+    if (!BASE58_PUBKEY.test(owner)) errors.push('owner is not a valid public key');
+    if (init) errors.push('owner cannot be checked on an account the instruction creates');
+  }
+
+  if (kind === 'token') {
+    if (init && (!constraints.tokenMint || !constraints.tokenAuthority)) {
+      errors.push('initializing a token account needs token::mint and token::authority');
+    }
+    checkRef(constraints.tokenMint, 'token::mint');
+    checkRef(constraints.tokenAuthority, 'token::authority');
+    const mint = accounts.find(a => a.id === constraints.tokenMint);
+    if (mint && getAccountKind(mint) !== 'mint') {
+      errors.push(`token::mint must be a mint account, ${mint.name} is not`);
+    }
+  }
+
+  if (kind === 'mint') {
+    const decimals = constraints.mintDecimals;
+    if (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > 255)) {
+      errors.push('mint::decimals must be an integer between 0 and 255');
+    }
+    checkRef(constraints.mintAuthority, 'mint::authority');
+  }
+
+  (constraints.custom || []).forEach((custom, index) => {
+    if (!custom.expression.trim()) errors.push(`constraint ${index + 1}: expression is empty`);
+    if (!custom.error) errors.push(`constraint ${index + 1}: choose the error it returns`);
+  });
+
+  return errors;
+};
+
+export const validateInstructionAccounts = (
+  instruction: CanvasNode,
+  nodes: CanvasNode[],
+  connections: Connection[]
+): string[] =>
+  connectedAccountNodes(instruction, nodes, connections)
+    .flatMap(account => validateAccountConstraints(instruction, account, nodes, connections)
+      .map(error => `${instruction.name} → ${account.name}: ${error}`));
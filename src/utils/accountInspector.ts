@@ -0,0 +1,140 @@
+import { Buffer } from 'buffer';
+import { AccountInfo, Connection as RpcConnection, PublicKey } from '@solana/web3.js';
+import { BN, BorshCoder, utils } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { CanvasNode, Connection, FieldType, SeedComponent } from '@/types/editor';
+import { fieldSpace, isIntegerType } from './accountSchema';
+import { AUTHORITY_SEED, getSeeds } from './pdaSeeds';
+import { JsonValue, toJsonValue } from './programMonitor';
+import { toSnakeCase } from './naming';
+
+// Values for a PDA's non-literal seeds, keyed by seed id: argument values and account addresses
+export type SeedValues = Record<string, string>;
+
+export interface InspectedAccount {
+  address: string;
+  owner: string;
+  lamports: number;
+  dataLength: number;
+  executable: boolean;
+  // Account type of the IDL whose discriminator the data starts with
+  type: string | null;
+  // Null when no account type matched or the data did not decode as it
+  fields: Record<string, JsonValue> | null;
+  // First bytes of the data as hex, for accounts that did not decode
+  dataPreview: string;
+}
+
+const PREVIEW_BYTES = 64;
+
+// Type of an argument seed, from the instructions the PDA is used by
+export const seedArgType = (
+  seed: Extract<SeedComponent, { kind: 'arg' }>,
+  account: CanvasNode,
+  nodes: CanvasNode[],
+  connections: Connection[]
+): FieldType | undefined =>
+  connections
+    .filter(conn => conn.sourceNodeId === account.id)
+    .map(conn => nodes.find(node => node.id === conn.targetNodeId))
+    .flatMap(node => node?.args || [])
+    .find(arg => toSnakeCase(arg.name) === seed.name)?.type;
+
+const seedBytes = (
+  seed: SeedComponent,
+  value: string | undefined,
+  type: FieldType | undefined,
+  authority?: PublicKey
+): Buffer => {
+  if (seed.kind === 'literal') return Buffer.from(seed.value);
+  if (seed.kind === 'account') {
+    const key = value || (seed.account === AUTHORITY_SEED ? authority?.toBase58() : undefined);
+    if (!key) throw new Error(`Enter the ${seed.account === AUTHORITY_SEED ? 'authority' : 'account'} address`);
+    return new PublicKey(key).toBuffer();
+  }
+
+  if (value === undefined || value === '') throw new Error(`Enter a value for ${seed.name}`);
+  if (!type || type.kind === 'string') return Buffer.from(value);
+  if (type.kind === 'pubkey') return new PublicKey(value).toBuffer();
+  if (type.kind === 'bool') return Buffer.from([value === 'true' ? 1 : 0]);
+  if (isIntegerType(type)) {
+    const size = fieldSpace(type);
+    return new BN(value).toTwos(size * 8).toArrayLike(Buffer, 'le', size);
+  }
+  throw new Error(`${type.kind} arguments cannot be used as seeds`);
+};
+
+// The PDA the account node's seeds derive for the given values; the authority seed defaults to `authority`
+export const deriveAccountAddress = (
+  account: CanvasNode,
+  programId: PublicKey,
+  values: SeedValues,
+  nodes: CanvasNode[],
+  connections: Connection[],
+  authority?: PublicKey
+): PublicKey => {
+  const seeds = getSeeds(account);
+  if (seeds.length === 0) throw new Error(`${account.name} is not a PDA`);
+  const buffers = seeds.map(seed =>
+    seedBytes(seed, values[seed.id], seed.kind === 'arg' ? seedArgType(seed, account, nodes, connections) : undefined, authority)
+  );
+  return PublicKey.findProgramAddressSync(buffers, programId)[0];
+};
+
+// Address of an account node whose seeds are all known without a transaction: literals and the
+// authority, which is the connected wallet
+export const staticAccountAddress = (account: CanvasNode, programId: PublicKey, authority?: PublicKey): PublicKey | null => {
+  try {
+    return deriveAccountAddress(account, programId, {}, [], [], authority);
+  } catch {
+    return null;
+  }
+};
+
+const startsWith = (data: Uint8Array, prefix: number[]): boolean =>
+  data.length >= prefix.length && prefix.every((byte, index) => data[index] === byte);
+
+export const matchAccountType = (idl: Idl, data: Uint8Array): string | null =>
+  idl.accounts?.find(account => startsWith(data, account.discriminator))?.name || null;
+
+const describeAccount = (idl: Idl, address: PublicKey, info: AccountInfo<Buffer>): InspectedAccount => {
+  const owned = info.owner.toBase58() === idl.address;
+  const type = owned ? matchAccountType(idl, info.data) : null;
+  let fields: Record<string, JsonValue> | null = null;
+  if (type) {
+    try {
+      fields = toJsonValue(new BorshCoder(idl).accounts.decode(type, info.data)) as Record<string, JsonValue>;
+    } catch {
+      // Written by an older version of the program, with a different layout
+    }
+  }
+
+  return {
+    address: address.toBase58(),
+    owner: info.owner.toBase58(),
+    lamports: info.lamports,
+    dataLength: info.data.length,
+    executable: info.executable,
+    type,
+    fields,
+    dataPreview: info.data.subarray(0, PREVIEW_BYTES).toString('hex'),
+  };
+};
+
+export const inspectAccount = async (connection: RpcConnection, idl: Idl, address: PublicKey): Promise<InspectedAccount | null> => {
+  const info = await connection.getAccountInfo(address, 'confirmed');
+  return info ? describeAccount(idl, address, info) : null;
+};
+
+// Accounts the program owns, one `getProgramAccounts` query per account type filtered on its discriminator
+export const listProgramAccounts = async (connection: RpcConnection, idl: Idl, type?: string): Promise<InspectedAccount[]> => {
+  const programId = new PublicKey(idl.address);
+  const types = (idl.accounts || []).filter(account => !type || account.name === type);
+  const results = await Promise.all(types.map(account =>
+    connection.getProgramAccounts(programId, {
+      commitment: 'confirmed',
+      filters: [{ memcmp: { offset: 0, bytes: utils.bytes.bs58.encode(Buffer.from(account.discriminator)) } }],
+    })
+  ));
+  return results.flat().map(({ pubkey, account }) => describeAccount(idl, pubkey, account));
+};
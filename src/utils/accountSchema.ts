@@ -0,0 +1,239 @@
+import { AccountField, CanvasNode, FieldType, ScalarFieldKind } from '@/types/editor';
+import { toSnakeCase, toTypeName } from './naming';
+
+export const DISCRIMINATOR_SIZE = 8;
+
+// Largest account that can be created through a CPI to the system program
+export const MAX_ACCOUNT_SPACE = 10240;
+
+export const SCALAR_FIELD_KINDS: ScalarFieldKind[] = [
+  'u8', 'u16', 'u32', 'u64', 'u128', 'i8', 'i16', 'i32', 'i64', 'i128', 'bool', 'pubkey'
+];
+
+const SCALAR_SIZES: Record<ScalarFieldKind, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  u128: 16,
+  i8: 1,
+  i16: 2,
+  i32: 4,
+  i64: 8,
+  i128: 16,
+  bool: 1,
+  pubkey: 32,
+};
+
+const INTEGER_KINDS = new Set<string>(['u8', 'u16', 'u32', 'u64', 'u128', 'i8', 'i16', 'i32', 'i64', 'i128']);
+
+type NamedType = Extract<FieldType, { kind: 'struct' | 'enum' }>;
+
+// Layout used for account nodes that have not been given a schema yet
+export const defaultAccountFields = (): AccountField[] => [
+  { id: 'authority', name: 'authority', type: { kind: 'pubkey' } },
+  { id: 'data', name: 'data', type: { kind: 'u64' } },
+  { id: 'bump', name: 'bump', type: { kind: 'u8' } },
+];
+
+export const getAccountFields = (node: CanvasNode): AccountField[] =>
+  node.fields && node.fields.length > 0 ? node.fields : defaultAccountFields();
+
+export const findField = (fields: AccountField[], name: string): AccountField | undefined =>
+  fields.find(field => toSnakeCase(field.name) === name);
+
+export const isScalarKind = (kind: string): kind is ScalarFieldKind => kind in SCALAR_SIZES;
+
+export const isIntegerType = (type: FieldType): boolean => INTEGER_KINDS.has(type.kind);
+
+export const rustType = (type: FieldType): string => {
+  switch (type.kind) {
+    case 'pubkey':
+      return 'Pubkey';
+    case 'string':
+      return 'String';
+    case 'vec':
+      return `Vec<${rustType(type.items)}>`;
+    case 'struct':
+    case 'enum':
+      return toTypeName(type.name);
+    default:
+      return type.kind;
+  }
+};
+
+// Serialized size in bytes, matching what `#[derive(InitSpace)]` computes
+export const fieldSpace = (type: FieldType): number => {
+  switch (type.kind) {
+    case 'string':
+      return 4 + type.maxLength;
+    case 'vec':
+      return 4 + type.maxLength * fieldSpace(type.items);
+    case 'struct':
+      return fieldsSpace(type.fields);
+    case 'enum':
+      return 1 + Math.max(0, ...type.variants.map(variant => fieldsSpace(variant.fields || [])));
+    default:
+      return SCALAR_SIZES[type.kind];
+  }
+};
+
+export const fieldsSpace = (fields: AccountField[]): number =>
+  fields.reduce((total, field) => total + fieldSpace(field.type), 0);
+
+export const accountSpace = (fields: AccountField[]): number =>
+  DISCRIMINATOR_SIZE + fieldsSpace(fields);
+
+// `#[max_len]` arguments: one per nesting level of String/Vec
+const maxLenArgs = (type: FieldType): number[] => {
+  if (type.kind === 'string') return [type.maxLength];
+  if (type.kind === 'vec') return [type.maxLength, ...maxLenArgs(type.items)];
+  return [];
+};
+
+const renderFields = (fields: AccountField[], indent: string, visibility = 'pub '): string =>
+  fields.map(field => {
+    const maxLen = maxLenArgs(field.type);
+    const attribute = maxLen.length > 0 ? `${indent}#[max_len(${maxLen.join(', ')})]\n` : '';
+    return `${attribute}${indent}${visibility}${toSnakeCase(field.name)}: ${rustType(field.type)},`;
+  }).join('\n');
+
+// Collect struct and enum definitions referenced anywhere in the fields, innermost first
+export const collectNamedTypes = (fields: AccountField[], found = new Map<string, NamedType>()): Map<string, NamedType> => {
+  const visit = (type: FieldType) => {
+    if (type.kind === 'vec') {
+      visit(type.items);
+    } else if (type.kind === 'struct') {
+      type.fields.forEach(field => visit(field.type));
+      if (!found.has(toTypeName(type.name))) found.set(toTypeName(type.name), type);
+    } else if (type.kind === 'enum') {
+      type.variants.forEach(variant => (variant.fields || []).forEach(field => visit(field.type)));
+      if (!found.has(toTypeName(type.name))) found.set(toTypeName(type.name), type);
+    }
+  };
+
+  fields.forEach(field => visit(field.type));
+  return found;
+};
+
+export const renderNamedType = (type: NamedType): string => {
+  const header = '#[derive(AnchorSerialize, AnchorDeserialize, Clone, PartialEq, Eq, InitSpace)]';
+
+  if (type.kind === 'struct') {
+    return `${header}
+pub struct ${toTypeName(type.name)} {
+${renderFields(type.fields, '    ')}
+}`;
+  }
+
+  const variants = type.variants.map(variant => {
+    if (!variant.fields || variant.fields.length === 0) {
+      return `    ${toTypeName(variant.name)},`;
+    }
+    return `    ${toTypeName(variant.name)} {
+${renderFields(variant.fields, '        ', '')}
+    },`;
+  }).join('\n');
+
+  return `${header}
+pub enum ${toTypeName(type.name)} {
+${variants}
+}`;
+};
+
+export const renderAccountStruct = (node: CanvasNode): string => {
+  const structName = toTypeName(node.name);
+  const fields = getAccountFields(node);
+
+  return `#[account]
+#[derive(InitSpace)]
+pub struct ${structName} {
+${renderFields(fields, '    ')}
+}
+
+impl ${structName} {
+    // discriminator + ${structName}::INIT_SPACE
+    pub const LEN: usize = ${DISCRIMINATOR_SIZE} + ${fieldsSpace(fields)};
+}`;
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_ ]*$/;
+
+// Name and type checks shared by account fields and instruction arguments
+export const validateFieldList = (fields: AccountField[], context: string): string[] => {
+  const errors: string[] = [];
+  const typeShapes = new Map<string, string>();
+
+  const checkFields = (list: AccountField[], context: string) => {
+    const seen = new Set<string>();
+    list.forEach(field => {
+      const name = toSnakeCase(field.name);
+      if (!name || !IDENTIFIER.test(field.name.trim())) {
+        errors.push(`${context}: "${field.name}" is not a valid field name`);
+      } else if (seen.has(name)) {
+        errors.push(`${context}: duplicate field "${name}"`);
+      }
+      seen.add(name);
+      checkType(field.type, `${context}.${name}`);
+    });
+  };
+
+  const checkType = (type: FieldType, context: string) => {
+    switch (type.kind) {
+      case 'string':
+        if (!(type.maxLength > 0)) errors.push(`${context}: String fields need a max length`);
+        break;
+      case 'vec':
+        if (!(type.maxLength > 0)) errors.push(`${context}: Vec fields need a max length`);
+        checkType(type.items, `${context}[]`);
+        break;
+      case 'struct':
+      case 'enum': {
+        const typeName = toTypeName(type.name || '');
+        if (!typeName || !IDENTIFIER.test(type.name.trim())) {
+          errors.push(`${context}: ${type.kind} types need a valid name`);
+          break;
+        }
+        const shape = JSON.stringify(type.kind === 'struct' ? type.fields : type.variants, (key, value) => key === 'id' ? undefined : value);
+        if (typeShapes.has(typeName) && typeShapes.get(typeName) !== shape) {
+          errors.push(`${context}: type ${typeName} is defined more than once with different contents`);
+        }
+        typeShapes.set(typeName, shape);
+
+        if (type.kind === 'struct') {
+          if (type.fields.length === 0) errors.push(`${context}: struct ${typeName} has no fields`);
+          checkFields(type.fields, typeName);
+        } else {
+          if (type.variants.length === 0) errors.push(`${context}: enum ${typeName} has no variants`);
+          const variantNames = new Set<string>();
+          type.variants.forEach(variant => {
+            const variantName = toTypeName(variant.name || '');
+            if (!variantName || !IDENTIFIER.test(variant.name.trim())) {
+              errors.push(`${context}: enum ${typeName} has a variant without a valid name`);
+            } else if (variantNames.has(variantName)) {
+              errors.push(`${context}: enum ${typeName} has duplicate variant ${variantName}`);
+            }
+            variantNames.add(variantName);
+            checkFields(variant.fields || [], `${typeName}::${variantName}`);
+          });
+        }
+        break;
+      }
+      default:
+        if (!isScalarKind(type.kind)) errors.push(`${context}: unknown type ${type.kind}`);
+    }
+  };
+
+  checkFields(fields, context);
+  return errors;
+};
+
+export const validateAccountFields = (fields: AccountField[]): string[] => {
+  const errors = validateFieldList(fields, 'account');
+
+  if (errors.length === 0 && accountSpace(fields) > MAX_ACCOUNT_SPACE) {
+    errors.push(`Account needs ${accountSpace(fields)} bytes, above the ${MAX_ACCOUNT_SPACE} byte limit for accounts created by a program`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,165 @@
+import { CanvasNode } from '@/types/editor';
+import { instructionModuleName } from './codeGen';
+import { isInstructionNode } from './nodeKinds';
+import { eventStructName, isEventNode } from './programEvents';
+import { toTypeName } from './naming';
+import { WorkspaceFile } from './workspaceExport';
+
+export interface BuildOutputLine {
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+// A rustc error or warning, located in the workspace when the compiler gave a location
+export interface BuildDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface BuildArtifacts {
+  success: boolean;
+  // `target/deploy/<program>.so`
+  program?: Uint8Array;
+  programPath?: string;
+  // `target/idl/<program>.json`
+  idl?: string;
+  idlPath?: string;
+  output: BuildOutputLine[];
+  error?: string;
+}
+
+// Compiles an exported workspace with `anchor build`, reporting compiler output as it arrives
+export interface BuildBackend {
+  build(files: WorkspaceFile[], onOutput?: (output: BuildOutputLine) => void): Promise<BuildArtifacts>;
+}
+
+// One JSON object per line of the build worker's response
+type BuildEvent =
+  | { type: 'output'; stream: 'stdout' | 'stderr'; line: string }
+  | { type: 'artifact'; path: string; encoding: 'base64' | 'utf8'; content: string }
+  | { type: 'done'; success: boolean }
+  | { type: 'error'; message: string };
+
+const decodeBase64 = (content: string): Uint8Array => Uint8Array.from(atob(content), char => char.charCodeAt(0));
+
+// A build worker service: `POST <url>/build` with `{ files }`, answered with an NDJSON stream of build events
+export class WorkerBuildBackend implements BuildBackend {
+  constructor(private url: string | undefined = import.meta.env.VITE_BUILD_WORKER_URL) {}
+
+  async build(files: WorkspaceFile[], onOutput?: (output: BuildOutputLine) => void): Promise<BuildArtifacts> {
+    const artifacts: BuildArtifacts = { success: false, output: [] };
+    if (!this.url) {
+      return { ...artifacts, error: 'No build worker configured. Set VITE_BUILD_WORKER_URL to a service that runs `anchor build`.' };
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.url.replace(/\/$/, '')}/build`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files }),
+      });
+    } catch (error) {
+      return { ...artifacts, error: `Build worker at ${this.url} is unreachable: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (!response.ok || !response.body) {
+      return { ...artifacts, error: `Build worker responded with ${response.status} ${response.statusText}` };
+    }
+
+    const handle = (event: BuildEvent) => {
+      if (event.type === 'output') {
+        const output = { stream: event.stream, line: event.line };
+        artifacts.output.push(output);
+        onOutput?.(output);
+      } else if (event.type === 'artifact') {
+        if (event.path.endsWith('.so')) {
+          artifacts.program = event.encoding === 'base64' ? decodeBase64(event.content) : new TextEncoder().encode(event.content);
+          artifacts.programPath = event.path;
+        } else if (event.path.startsWith('target/idl/')) {
+          artifacts.idl = event.encoding === 'base64' ? new TextDecoder().decode(decodeBase64(event.content)) : event.content;
+          artifacts.idlPath = event.path;
+        }
+      } else if (event.type === 'done') {
+        artifacts.success = event.success;
+      } else if (event.type === 'error') {
+        artifacts.error = event.message;
+      }
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop()!;
+      lines.filter(line => line.trim()).forEach(line => handle(JSON.parse(line) as BuildEvent));
+      if (done) break;
+    }
+
+    if (artifacts.success && !artifacts.program) {
+      return { ...artifacts, success: false, error: 'The build finished without a program binary' };
+    }
+    return artifacts;
+  }
+}
+
+// Cargo's end-of-build summaries, which repeat what the diagnostics before them said
+const SUMMARY = /^(error|warning): (could not compile|`[^`]+` \(.+\) generated|aborting due to)/;
+
+// rustc's human-readable diagnostics: a `error[E0425]: ...` header, then `  --> file:line:column`
+export const parseRustcDiagnostics = (lines: string[]): BuildDiagnostic[] => {
+  const diagnostics: BuildDiagnostic[] = [];
+  let current: BuildDiagnostic | undefined;
+
+  lines.forEach(line => {
+    const header = line.match(/^(error|warning)(?:\[\w+\])?: (.+)$/);
+    if (header) {
+      current = SUMMARY.test(line) ? undefined : { severity: header[1] as BuildDiagnostic['severity'], message: header[2] };
+      if (current) diagnostics.push(current);
+      return;
+    }
+    const location = line.match(/^\s*--> (.+?):(\d+):(\d+)$/);
+    if (location && current && !current.file) {
+      current.file = location[1];
+      current.line = Number(location[2]);
+      current.column = Number(location[3]);
+    }
+  });
+
+  return diagnostics;
+};
+
+// The canvas node whose generated code the diagnostic points into: the instruction owning an
+// instruction module, or the node behind the lib.rs item the line belongs to
+export const diagnosticNode = (
+  diagnostic: BuildDiagnostic,
+  files: WorkspaceFile[],
+  nodes: CanvasNode[]
+): CanvasNode | undefined => {
+  if (!diagnostic.file || !diagnostic.line) return undefined;
+
+  const module = diagnostic.file.match(/src\/instructions\/(\w+)\.rs$/)?.[1];
+  if (module) return nodes.find(node => isInstructionNode(node) && instructionModuleName(node) === module);
+
+  if (!diagnostic.file.endsWith('src/lib.rs')) return undefined;
+  const lib = files.find(file => file.path.endsWith('src/lib.rs'));
+  if (!lib) return undefined;
+
+  const preceding = lib.content.split('\n').slice(0, diagnostic.line).reverse();
+  for (const text of preceding) {
+    const handler = text.match(/^\s*pub fn (\w+)\(/)?.[1];
+    if (handler) return nodes.find(node => isInstructionNode(node) && instructionModuleName(node) === handler);
+    const item = text.match(/^pub (?:struct|enum) (\w+)/)?.[1];
+    if (item) {
+      return nodes.find(node =>
+        (node.type === 'account' && toTypeName(node.name) === item) || (isEventNode(node) && eventStructName(node) === item)
+      );
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,234 @@
+import type { Idl } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { ProjectSettings } from '@/types/project';
+import { camelCaseIdl, IdlField, IdlInstruction, IdlInstructionAccount, IdlInstructionAccountItem, IdlSeed, IdlType, IdlTypeDef } from './idl';
+import { toCamelCase, toPascalCase } from './naming';
+import { programTypeName } from './projectSettings';
+
+const BN_TYPES = new Set(['u64', 'i64', 'u128', 'i128', 'u256', 'i256']);
+const NUMBER_TYPES = new Set(['u8', 'i8', 'u16', 'i16', 'u32', 'i32', 'f32', 'f64']);
+const INTEGER_SIZES: Record<string, number> = { u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, u64: 8, i64: 8, u128: 16, i128: 16 };
+
+// TypeScript type Anchor's coder produces for an IDL type
+export const tsType = (type: IdlType): string => {
+  if (typeof type === 'string') {
+    if (BN_TYPES.has(type)) return 'BN';
+    if (NUMBER_TYPES.has(type)) return 'number';
+    if (type === 'bool') return 'boolean';
+    if (type === 'pubkey') return 'PublicKey';
+    if (type === 'bytes') return 'Buffer';
+    return 'string';
+  }
+  if ('vec' in type) return `${tsType(type.vec)}[]`;
+  if ('array' in type) return `${tsType(type.array[0])}[]`;
+  if ('option' in type) return `${tsType(type.option)} | null`;
+  if ('coption' in type) return `${tsType(type.coption)} | null`;
+  if ('defined' in type) return type.defined.name;
+  return 'unknown';
+};
+
+// Anchor camelCases type and variant names too, e.g. `UserVault` is `program.account.userVault`
+const lowerFirst = (name: string): string => name.charAt(0).toLowerCase() + name.slice(1);
+
+const renderFields = (fields: IdlField[], indent: string): string =>
+  fields.map(field => `${indent}${toCamelCase(field.name)}: ${tsType(field.type)};`).join('\n');
+
+const renderTypeDef = (def: IdlTypeDef): string => {
+  if (def.type.kind === 'struct') {
+    const fields = (def.type.fields || []) as IdlField[];
+    return `export interface ${def.name} {\n${renderFields(fields, '  ')}\n}`;
+  }
+  if (def.type.kind === 'enum') {
+    // Enums decode to `{ variantName: { ...fields } }`
+    const variants = def.type.variants.map(variant => {
+      const fields = (variant.fields || []) as IdlField[];
+      const body = fields.length > 0 ? `{ ${fields.map(f => `${toCamelCase(f.name)}: ${tsType(f.type)}`).join('; ')} }` : 'Record<string, never>';
+      return `  | { ${lowerFirst(variant.name)}: ${body} }`;
+    }).join('\n');
+    return `export type ${def.name} =\n${variants};`;
+  }
+  return `export type ${def.name} = ${tsType(def.type.alias)};`;
+};
+
+const flattenAccounts = (items: IdlInstructionAccountItem[]): IdlInstructionAccount[] =>
+  items.flatMap(item => 'accounts' in item ? flattenAccounts(item.accounts) : [item]);
+
+// 32 byte constants are program addresses, e.g. the token program in associated token seeds
+const constantAddress = (bytes: number[]): string =>
+  `new PublicKey(${JSON.stringify(new PublicKey(Uint8Array.from(bytes)).toBase58())})`;
+
+const seedExpression = (seed: IdlSeed, argTypes: Map<string, IdlType>): string => {
+  switch (seed.kind) {
+    case 'const': {
+      const text = String.fromCharCode(...seed.value);
+      if (/^[\x20-\x7e]+$/.test(text)) return `Buffer.from(${JSON.stringify(text)})`;
+      return seed.value.length === 32 ? `${constantAddress(seed.value)}.toBuffer()` : `Buffer.from([${seed.value.join(', ')}])`;
+    }
+    case 'account':
+      return `${toCamelCase(seed.path)}.toBuffer()`;
+    case 'arg': {
+      const name = toCamelCase(seed.path);
+      const type = argTypes.get(seed.path);
+      if (type === 'string') return `Buffer.from(${name})`;
+      if (type === 'pubkey') return `${name}.toBuffer()`;
+      if (type === 'bool') return `Buffer.from([${name} ? 1 : 0])`;
+      if (typeof type === 'string' && INTEGER_SIZES[type]) {
+        return `new BN(${name}).toArrayLike(Buffer, "le", ${INTEGER_SIZES[type]})`;
+      }
+      return name;
+    }
+  }
+};
+
+const seedParameter = (seed: IdlSeed, argTypes: Map<string, IdlType>): string | undefined => {
+  if (seed.kind === 'account') return `${toCamelCase(seed.path)}: PublicKey`;
+  if (seed.kind === 'arg') {
+    const type = argTypes.get(seed.path);
+    return `${toCamelCase(seed.path)}: ${type ? tsType(type) : 'Buffer'}`;
+  }
+  return undefined;
+};
+
+// One `find...Address` helper per distinct derivation, named after the account
+const renderPdaHelpers = (idl: Idl): string[] => {
+  const helpers = new Map<string, { derivation: string; code: string }>();
+
+  idl.instructions.forEach(instruction => {
+    const argTypes = new Map(instruction.args.map(arg => [arg.name, arg.type]));
+
+    flattenAccounts(instruction.accounts).forEach(account => {
+      if (!account.pda) return;
+      const { seeds, program } = account.pda;
+      const programParameter = !program
+        ? 'programId = PROGRAM_ID'
+        : program.kind === 'const' ? undefined : `${toCamelCase(program.path)}: PublicKey`;
+      const parameters = Array.from(new Set(
+        [...seeds.map(seed => seedParameter(seed, argTypes)), programParameter].filter((p): p is string => !!p)
+      ));
+      const programId = !program
+        ? 'programId'
+        : program.kind === 'const' ? constantAddress(program.value) : toCamelCase(program.path);
+      const derivation = `[${seeds.map(seed => seedExpression(seed, argTypes)).join(', ')}], ${programId}`;
+
+      // The same account name with different seeds gets one helper per instruction
+      const baseName = `find${toPascalCase(account.name)}Address`;
+      const existing = helpers.get(baseName);
+      if (existing?.derivation === derivation) return;
+      const name = existing ? `${baseName}For${toPascalCase(instruction.name)}` : baseName;
+
+      helpers.set(name, {
+        derivation,
+        code: `export const ${name} = (${parameters.join(', ')}): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(${derivation});`,
+      });
+    });
+  });
+
+  return Array.from(helpers.values()).map(helper => helper.code);
+};
+
+const renderInstructionBuilder = (instruction: IdlInstruction, idlType: string): string => {
+  const method = toCamelCase(instruction.name);
+  const pascal = toPascalCase(instruction.name);
+  const accounts = flattenAccounts(instruction.accounts);
+
+  // Fixed addresses and PDAs are resolved by Anchor, everything else must be passed in
+  const accountsType = `export interface ${pascal}Accounts {
+${accounts.map(account => `  ${toCamelCase(account.name)}${account.address || account.pda ? '?' : ''}: PublicKey;`).join('\n')}
+}`;
+  const argsType = instruction.args.length > 0
+    ? `export interface ${pascal}Args {\n${renderFields(instruction.args, '  ')}\n}\n\n`
+    : '';
+  const argsParameter = instruction.args.length > 0 ? `args: ${pascal}Args,\n  ` : '';
+  const forwarded = instruction.args.map(arg => `args.${toCamelCase(arg.name)}`).join(', ');
+
+  return `${argsType}${accountsType}
+
+export const ${method}Instruction = (
+  program: Program<${idlType}>,
+  ${argsParameter}accounts: ${pascal}Accounts
+): Promise<TransactionInstruction> =>
+  program.methods
+    .${method}(${forwarded})
+    .accountsPartial(accounts)
+    .instruction();`;
+};
+
+const renderAccountDecoder = (account: { name: string }, idlType: string): string => {
+  const accessor = lowerFirst(account.name);
+  return `export const decode${account.name} = (program: Program<${idlType}>, data: Buffer): ${account.name} =>
+  program.coder.accounts.decode<${account.name}>("${accessor}", data);
+
+export const fetch${account.name} = (program: Program<${idlType}>, address: PublicKey): Promise<${account.name}> =>
+  program.account.${accessor}.fetch(address) as Promise<${account.name}>;`;
+};
+
+// Limits measured by the test runs and applied in the project settings, keyed like the builders
+const renderComputeBudget = (idl: Idl, settings: ProjectSettings): string => {
+  const instructions = idl.instructions.map(ix => ix.name);
+  const limits = Object.entries(settings.computeUnitLimits).filter(([name]) => instructions.includes(name));
+  const names = instructions.map(name => JSON.stringify(toCamelCase(name))).join(' | ') || 'never';
+  const body = limits.length > 0
+    ? `{\n${limits.map(([name, units]) => `  ${toCamelCase(name)}: ${units},`).join('\n')}\n}`
+    : '{}';
+
+  return `// Compute budget
+
+// Sized from measured usage; instructions without a limit get the 200k default
+export const COMPUTE_UNIT_LIMITS: Partial<Record<${names}, number>> = ${body};
+
+// Add before the instruction so the transaction requests only the compute it uses, e.g.
+// \`new Transaction().add(computeUnitLimitInstruction("${toCamelCase(instructions[0] || 'instruction')}"), ix)\`
+export const computeUnitLimitInstruction = (
+  instruction: ${names},
+  units = COMPUTE_UNIT_LIMITS[instruction] ?? 200_000
+): TransactionInstruction =>
+  ComputeBudgetProgram.setComputeUnitLimit({ units });`;
+};
+
+// Typed client for the program, usable before the Rust toolchain has produced target/types
+export const generateClientSdk = (idl: Idl, settings: ProjectSettings): string => {
+  const typeName = programTypeName(settings);
+  // Suffixed, as a program is often named like one of its accounts, e.g. `vault` and `Vault`
+  const idlType = `${typeName}Idl`;
+  const idlJson = JSON.stringify(camelCaseIdl(idl), null, 2);
+  const errors = idl.errors || [];
+  const pdaHelpers = renderPdaHelpers(idl);
+
+  const sections = [
+    `// Type definitions\n\n${(idl.types || []).map(renderTypeDef).join('\n\n')}`,
+    pdaHelpers.length > 0 ? `// PDA helpers\n\n${pdaHelpers.join('\n\n')}` : '',
+    `// Instruction builders\n\n${idl.instructions.map(ix => renderInstructionBuilder(ix, idlType)).join('\n\n')}`,
+    renderComputeBudget(idl, settings),
+    (idl.accounts || []).length > 0
+      ? `// Account decoders\n\n${(idl.accounts || []).map(account => renderAccountDecoder(account, idlType)).join('\n\n')}`
+      : '',
+    `// Program errors\n\nexport const ERRORS: Record<number, { name: string; msg?: string }> = {
+${errors.map(error => `  ${error.code}: { name: ${JSON.stringify(error.name)}, msg: ${JSON.stringify(error.msg)} },`).join('\n')}
+};
+
+export type ${typeName}ErrorName = ${errors.length > 0 ? errors.map(error => JSON.stringify(error.name)).join(' | ') : 'never'};
+
+// Name of the program error behind a failed transaction, e.g. for test assertions
+export const errorName = (error: unknown): ${typeName}ErrorName | undefined => {
+  const code = (error as AnchorError)?.error?.errorCode?.number;
+  return code === undefined ? undefined : ERRORS[code]?.name as ${typeName}ErrorName | undefined;
+};`,
+  ].filter(Boolean);
+
+  return `// Generated by VestraForge from the program IDL. Do not edit by hand.
+import { AnchorError, AnchorProvider, BN, Program } from "@coral-xyz/anchor";
+import { ComputeBudgetProgram, PublicKey, TransactionInstruction } from "@solana/web3.js";
+
+export type ${idlType} = ${idlJson};
+
+export const IDL: ${idlType} = ${idlJson};
+
+export const PROGRAM_ID = new PublicKey(IDL.address);
+
+export const getProgram = (provider: AnchorProvider): Program<${idlType}> =>
+  new Program<${idlType}>(IDL, provider);
+
+${sections.join('\n\n')}
+`;
+};
@@ -1,11 +1,86 @@
 import { CanvasNode, Connection } from '@/types/editor';
+import { collectNamedTypes, findField, getAccountFields, isIntegerType, renderAccountStruct, renderNamedType, validateAccountFields } from './accountSchema';
+import { CargoRequirements, collectCargoRequirements, collectClonePrograms, collectTemplateErrors, getModuleEmitter, renderAccountField, TemplateEmission } from './moduleEmitters';
+import { getInstructionArgs, renderArgChecks, renderArgParameters, renderInstructionAttribute, testValueFor, validateInstructionArgs, violatingValueFor } from './instructionArgs';
+import { toCamelCase, toSnakeCase, toTypeName } from './naming';
+import {
+  accountFieldName,
+  AUTHORITY_SEED,
+  clientAccountVariable,
+  connectedAccountNodes,
+  getSeeds,
+  isPda,
+  renderClientSeeds,
+  seedScopeFor,
+  testArgsFor,
+  validatePdaUsage,
+} from './pdaSeeds';
+import {
+  getAccountConstraints,
+  getAccountKind,
+  hasBumpField,
+  hasPubkeyField,
+  needsTokenProgram,
+  PAYER_REF,
+  renderConnectedAccount,
+  usesSeparatePayer,
+  validateInstructionAccounts,
+} from './accountConstraints';
+import { ProjectSettings } from '@/types/project';
+import type { Idl } from '@coral-xyz/anchor';
+import { generateIdl, validateIdl } from './idl';
+import { ProgramError, renderErrorEnum, resolveProgramErrors, validateErrorCatalog, validateErrorReferences } from './errorCatalog';
+import { generateClientSdk } from './clientSdk';
+import {
+  connectedEventNodes,
+  eventFieldSource,
+  eventListenerName,
+  eventStructName,
+  getEventFields,
+  isEventNode,
+  renderEventEmits,
+  renderEventStruct,
+  validateEventEmits,
+  validateEventNode,
+} from './programEvents';
+import {
+  connectedCpiCalls,
+  cpiCaller,
+  cpiClonePrograms,
+  cpiSplFeatures,
+  cpiTestSetup,
+  declaredProgramIdls,
+  isCpiNode,
+  renderCpiAccountFields,
+  renderCpiCalls,
+  validateCpiCalls,
+  validateCpiNode,
+} from './cpiCalls';
+import { isInstructionNode } from './nodeKinds';
+import { customCodeScope, CustomCodeScope, hasCustomCode, renderCustomCode, validateCustomCode } from './customCode';
+import {
+  defaultProjectSettings,
+  hasClusterSpecificIds,
+  PROGRAM_CLUSTERS,
+  programTypeName,
+  workspaceAccessor,
+} from './projectSettings';
 
 export interface GeneratedCode {
   lib: string;
   instructions: string[];
+  // File stem of each entry in `instructions`, as declared in `instructions/mod.rs`
+  instructionModules: string[];
+  instructionsMod: string;
   tests: string;
   cargoToml: string;
   anchorToml: string;
+  // Anchor IDL JSON, as `anchor build` would write to target/idl
+  idl: string;
+  // TypeScript client module built from the IDL
+  client: string;
+  // IDLs of the programs called through `declare_program!`, written to idls/<name>.json
+  programIdls: { name: string; content: string }[];
   programFlow: ProgramFlow;
 }
 
@@ -22,41 +97,93 @@ export interface DataFlowConnection {
   required: boolean;
 }
 
-export const generateAnchorCode = (nodes: CanvasNode[], connections: Connection[]): GeneratedCode => {
-  const programName = 'my_program';
-  const instructionNodes = nodes.filter(node => node.type !== 'account');
+export const generateAnchorCode = (
+  nodes: CanvasNode[],
+  connections: Connection[],
+  settings: ProjectSettings = defaultProjectSettings()
+): GeneratedCode => {
+  const instructionNodes = nodes.filter(isInstructionNode);
   const accountNodes = nodes.filter(node => node.type === 'account');
+  const eventNodes = nodes.filter(isEventNode);
+  const programIdls = declaredProgramIdls(nodes);
 
   // Analyze connections to understand program flow
   const programFlow = analyzeProgramFlow(nodes, connections);
   
   // Generate lib.rs with proper connection handling
-  const lib = generateLibRs(programName, instructionNodes, accountNodes, connections);
+  const errors = programErrors(settings, nodes, connections);
+  const lib = generateLibRs(settings, instructionNodes, accountNodes, eventNodes, connections, errors, programIdls.map(idl => idl.name));
   
   // Generate individual instruction files with connection context
   const instructions = instructionNodes.map(node => 
-    generateInstruction(node, connections, nodes)
+    generateInstruction(node, connections, nodes, errors.length > 0)
   );
+  const instructionModules = instructionNodes.map(instructionModuleName);
+  const instructionsMod = generateInstructionsMod(instructionModules);
   
   // Generate comprehensive tests
-  const tests = generateTests(programName, instructionNodes, connections);
+  const tests = generateTests(settings, instructionNodes, connections, nodes, errors);
   
   // Generate Cargo.toml with proper dependencies
-  const cargoToml = generateCargoToml(programName);
+  const cargoToml = generateCargoToml(settings, withCpiFeatures(
+    withAccountFeatures(collectCargoRequirements(instructionNodes), instructionNodes, accountNodes),
+    nodes
+  ));
   
   // Generate Anchor.toml
-  const anchorToml = generateAnchorToml(programName);
+  const anchorToml = generateAnchorToml(settings, Array.from(new Set([...collectClonePrograms(instructionNodes), ...cpiClonePrograms(nodes)])));
+
+  // IDL computed from the graph, and the typed client built on it
+  const idl = buildIdl(settings, instructionNodes, accountNodes, eventNodes, connections, nodes, errors);
+  const client = generateClientSdk(idl, settings);
 
   return {
     lib,
     instructions,
+    instructionModules,
+    instructionsMod,
     tests,
     cargoToml,
     anchorToml,
+    idl: `${JSON.stringify(idl, null, 2)}\n`,
+    client,
+    programIdls,
     programFlow
   };
 };
 
+// Problems that would keep the generated program from compiling or make an instruction always fail
+export const validateProgramModel = (
+  nodes: CanvasNode[],
+  connections: Connection[],
+  settings: ProjectSettings = defaultProjectSettings()
+): string[] => {
+  const accountNodes = nodes.filter(node => node.type === 'account');
+  const eventNodes = nodes.filter(isEventNode);
+  const instructionNodes = nodes.filter(node => isInstructionNode(node) && node.type !== 'start');
+
+  return [
+    ...accountNodes
+      .filter(node => getAccountKind(node) === 'state')
+      .flatMap(node => validateAccountFields(getAccountFields(node)).map(error => `${node.name}: ${error}`)),
+    ...accountNodes.flatMap(node => validatePdaUsage(node, nodes, connections).map(error => `${node.name}: ${error}`)),
+    ...instructionNodes.flatMap(node => validateInstructionArgs(getInstructionArgs(node)).map(error => `${node.name}: ${error}`)),
+    ...instructionNodes.flatMap(node => validateInstructionAccounts(node, nodes, connections)),
+    ...eventNodes.flatMap(node => validateEventNode(node).map(error => `${node.name}: ${error}`)),
+    ...instructionNodes.flatMap(node => validateEventEmits(node, nodes, connections)),
+    ...nodes.filter(isCpiNode).flatMap(node => validateCpiNode(node).map(error => `${node.name}: ${error}`)),
+    ...instructionNodes.flatMap(node =>
+      validateCpiCalls(node, nodes, connections, renderBaseAccounts(node, connections, nodes, emitTemplate(node)))
+    ),
+    ...instructionNodes.filter(hasCustomCode).flatMap(node =>
+      validateCustomCode(node.code!, instructionCodeScope(node, nodes, connections)).map(error => `${node.name} code: ${error}`)
+    ),
+    ...validateErrorCatalog(settings.errors).map(error => `Error catalog: ${error}`),
+    ...validateErrorReferences(instructionNodes, settings.errors),
+    ...validateIdl(buildIdl(settings, instructionNodes, accountNodes, eventNodes, connections, nodes, programErrors(settings, nodes, connections))),
+  ];
+};
+
 const analyzeProgramFlow = (nodes: CanvasNode[], connections: Connection[]): ProgramFlow => {
   const entryPoints: string[] = [];
   const executionOrder: string[] = [];
@@ -65,7 +192,7 @@ const analyzeProgramFlow = (nodes: CanvasNode[], connections: Connection[]): Pro
   // Find entry points (nodes with no incoming connections)
   nodes.forEach(node => {
     const hasIncoming = connections.some(conn => conn.targetNodeId === node.id);
-    if (!hasIncoming && node.type !== 'account') {
+    if (!hasIncoming && isInstructionNode(node)) {
       entryPoints.push(node.name);
     }
   });
@@ -81,7 +208,7 @@ const analyzeProgramFlow = (nodes: CanvasNode[], connections: Connection[]): Pro
     visiting.add(nodeId);
     
     const node = nodes.find(n => n.id === nodeId);
-    if (node && node.type !== 'account') {
+    if (node && isInstructionNode(node)) {
       // Visit dependencies first
       connections
         .filter(conn => conn.targetNodeId === nodeId)
@@ -119,52 +246,81 @@ const analyzeProgramFlow = (nodes: CanvasNode[], connections: Connection[]): Pro
   return { entryPoints, executionOrder, dataFlow };
 };
 
+// Built-in errors returned by the generated handlers themselves
+const requiredErrors = (instructionNodes: CanvasNode[], nodes: CanvasNode[], connections: Connection[]): string[] => {
+  const usesAuthorityCheck = instructionNodes.some(node =>
+    !getModuleEmitter(node) ||
+    connectedAccountNodes(node, nodes, connections).some(account =>
+      getAccountConstraints(node, account.id).init === 'init_if_needed' && hasPubkeyField(account, 'authority')
+    )
+  );
+  return [...(usesAuthorityCheck ? ['Unauthorized'] : []), ...collectTemplateErrors(instructionNodes)];
+};
+
+// Variants of the generated `ErrorCode`: the catalog plus whatever built-in errors the handlers need
+const programErrors = (settings: ProjectSettings, nodes: CanvasNode[], connections: Connection[]): ProgramError[] => {
+  const instructionNodes = nodes.filter(isInstructionNode);
+  return resolveProgramErrors(settings.errors, requiredErrors(instructionNodes, nodes, connections));
+};
+
+export const instructionModuleName = (node: CanvasNode): string => node.name.toLowerCase().replace(/\s+/g, '_');
+
+// Nested structs and enums referenced by account fields, instruction arguments and event payloads
+const programNamedTypes = (instructionNodes: CanvasNode[], stateNodes: CanvasNode[], eventNodes: CanvasNode[]) => {
+  const fromAccounts = stateNodes.reduce(
+    (found, node) => collectNamedTypes(getAccountFields(node), found),
+    collectNamedTypes([])
+  );
+  const fromArgs = instructionNodes.reduce((found, node) => collectNamedTypes(getInstructionArgs(node), found), fromAccounts);
+  return eventNodes.reduce((found, node) => collectNamedTypes(getEventFields(node), found), fromArgs);
+};
+
+const generateInstructionsMod = (modules: string[]): string =>
+  modules.map(name => `pub mod ${name};\npub use ${name}::*;`).join('\n') + '\n';
+
 const generateLibRs = (
-  programName: string, 
+  settings: ProjectSettings, 
   instructionNodes: CanvasNode[], 
   accountNodes: CanvasNode[], 
-  connections: Connection[]
+  eventNodes: CanvasNode[],
+  connections: Connection[],
+  errors: ProgramError[],
+  declaredPrograms: string[]
 ): string => {
-  const instructionImports = instructionNodes.map(node => 
-    `pub mod ${node.name.toLowerCase().replace(/\s+/g, '_')};`
-  ).join('\n');
-
+  // Program entrypoints forward to the handlers in each instruction module
   const instructionHandlers = instructionNodes.map(node => {
-    const functionName = node.name.toLowerCase().replace(/\s+/g, '_');
-    return `    pub use ${functionName}::*;`;
-  }).join('\n');
-
-  const accountStructs = accountNodes.map(node => {
+    const functionName = instructionModuleName(node);
     const structName = node.name.replace(/\s+/g, '');
-    const connectedInstructions = connections
-      .filter(conn => conn.sourceNodeId === node.id || conn.targetNodeId === node.id)
-      .length;
-    
-    return `
-#[account]
-pub struct ${structName} {
-    pub authority: Pubkey,
-    pub data: u64,
-    pub bump: u8,
-    pub connected_instructions: u8, // ${connectedInstructions} connections
-}
+    const args = getInstructionArgs(node);
+    const parameters = args.length > 0 ? `, ${renderArgParameters(args)}` : '';
+    const forwarded = ['ctx', ...args.map(arg => toSnakeCase(arg.name))].join(', ');
+    return `    pub fn ${functionName}(ctx: Context<${structName}>${parameters}) -> Result<()> {
+        ${functionName}::${functionName}(${forwarded})
+    }`;
+  }).join('\n\n');
+
+  // Token and mint accounts use the SPL types, only program state gets a struct
+  const stateNodes = accountNodes.filter(node => getAccountKind(node) === 'state');
+  const accountStructs = stateNodes.map(node => renderAccountStruct(node)).join('\n\n');
+
+  const eventStructs = eventNodes.map(renderEventStruct).join('\n\n');
+
+  const namedTypes = programNamedTypes(instructionNodes, stateNodes, eventNodes);
+  const typeDefinitions = Array.from(namedTypes.values()).map(renderNamedType).join('\n\n');
 
-impl ${structName} {
-    pub const LEN: usize = 8 + 32 + 8 + 1 + 1;
-}`;
-  }).join('\n');
 
   // Generate program flow validation
   const flowValidation = generateFlowValidation(instructionNodes, connections);
 
   return `use anchor_lang::prelude::*;
 
-declare_id!("Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS");
-
-${instructionImports}
+${renderDeclareId(settings)}
+${declaredPrograms.map(name => `\ndeclare_program!(${name});\n`).join('')}
+pub mod instructions;
+pub use instructions::*;
 
 #[program]
-pub mod ${programName} {
+pub mod ${settings.programName} {
     use super::*;
 ${instructionHandlers}
     
@@ -172,20 +328,27 @@ ${instructionHandlers}
 }
 
 ${accountStructs}
+${eventStructs ? `\n${eventStructs}\n` : ''}
+${typeDefinitions}
 
 #[derive(Accounts)]
 pub struct Initialize {}
+${errors.length > 0 ? `\n${renderErrorEnum(errors)}\n` : ''}`;
+};
 
-#[error_code]
-pub enum ErrorCode {
-    #[msg("Invalid program flow")]
-    InvalidProgramFlow,
-    #[msg("Missing required connection")]
-    MissingConnection,
-    #[msg("Unauthorized access")]
-    Unauthorized,
-}
-`;
+// Clusters with their own program ID are selected with a cargo feature, e.g. `anchor build -- --features devnet`
+const renderDeclareId = (settings: ProjectSettings): string => {
+  if (!hasClusterSpecificIds(settings)) {
+    return `declare_id!("${settings.programIds.localnet}");`;
+  }
+
+  const [localnet, ...others] = PROGRAM_CLUSTERS;
+  return [
+    ...others.map(cluster => `#[cfg(feature = "${cluster}")]
+declare_id!("${settings.programIds[cluster]}");`),
+    `#[cfg(not(any(${others.map(cluster => `feature = "${cluster}"`).join(', ')})))]
+declare_id!("${settings.programIds[localnet]}");`,
+  ].join('\n');
 };
 
 const generateFlowValidation = (instructionNodes: CanvasNode[], connections: Connection[]): string => {
@@ -202,125 +365,413 @@ const generateFlowValidation = (instructionNodes: CanvasNode[], connections: Con
 const generateInstruction = (
   node: CanvasNode, 
   connections: Connection[], 
-  allNodes: CanvasNode[]
+  allNodes: CanvasNode[],
+  // Whether lib.rs declares an `ErrorCode`; an enum without variants does not compile, so it may not
+  declaresErrors: boolean
 ): string => {
-  const functionName = node.name.toLowerCase().replace(/\s+/g, '_');
+  const functionName = instructionModuleName(node);
   const structName = node.name.replace(/\s+/g, '');
   
   // Find connected nodes and their relationships
   const incomingConnections = connections.filter(conn => conn.targetNodeId === node.id);
   const outgoingConnections = connections.filter(conn => conn.sourceNodeId === node.id);
   
-  const connectedAccounts = incomingConnections
-    .map(conn => allNodes.find(n => n.id === conn.sourceNodeId))
-    .filter(n => n?.type === 'account')
-    .map(n => n!.name.replace(/\s+/g, ''));
+  const accountNodes = connectedAccountNodes(node, allNodes, connections);
+  const connectedAccounts = accountNodes.map(n => toTypeName(n.name));
+
+  // Only emit the counter update when the schema has that field
+  const hasCounter = (index: number) => {
+    if (getAccountKind(accountNodes[index]) !== 'state') return false;
+    const field = findField(getAccountFields(accountNodes[index]), 'data');
+    return field ? isIntegerType(field.type) : false;
+  };
 
   const connectedInstructions = incomingConnections
     .map(conn => allNodes.find(n => n.id === conn.sourceNodeId))
     .filter(n => n?.type !== 'account')
     .map(n => n!.name);
 
-  // Generate account validation based on connections
-  const accountFields = connectedAccounts.length > 0 ? 
-    connectedAccounts.map(accountName => `
-    #[account(mut, constraint = ${accountName.toLowerCase()}.authority == authority.key())]
-    pub ${accountName.toLowerCase()}: Account<'info, ${accountName}>,`).join('') +
-    `
-    #[account(mut)]
-    pub authority: Signer<'info>,
-    pub system_program: Program<'info, System>,` : `
-    #[account(mut)]
-    pub authority: Signer<'info>,
-    pub system_program: Program<'info, System>,`;
-
-  // Generate instruction logic based on connections
-  const instructionLogic = generateInstructionLogic(node, incomingConnections, outgoingConnections, allNodes);
+  const args = getInstructionArgs(node);
+  const parameters = args.length > 0 ? `, ${renderArgParameters(args)}` : '';
+  const argChecks = renderArgChecks(args);
+  const emission = emitTemplate(node);
+
+  const baseAccounts = renderBaseAccounts(node, connections, allNodes, emission);
+  const cpiCalls = connectedCpiCalls(node, allNodes, connections);
+  const caller = cpiCaller(node, allNodes, connections, baseAccounts);
+  const accountFields = baseAccounts + renderCpiAccountFields(cpiCalls, caller);
+  const imports = [...splTokenImports(node, accountNodes, emission?.imports || []), ...(emission?.imports || [])];
+
+  // Account structs and argument types live in lib.rs; ErrorCode must be named to shadow the prelude's
+  const crateItems = Array.from(new Set([
+    ...(declaresErrors ? ['ErrorCode'] : []),
+    ...accountNodes.filter(account => getAccountKind(account) === 'state').map(account => toTypeName(account.name)),
+    ...collectNamedTypes(args).keys(),
+    ...connectedEventNodes(node, allNodes, connections).map(eventStructName),
+  ]));
+
+  // Generate instruction logic from the node's template and custom code, if any
+  const instructionLogic = generateInstructionLogic(node, emission);
+  const accountSetup = accountNodes.flatMap(account => initializeConnectedAccount(node, account));
+  const cpiInvocations = renderCpiCalls(cpiCalls, caller, seedScopeFor(node, allNodes, connections));
+  const eventEmits = renderEventEmits(node, allNodes, connections);
+
+  const crateImport = crateItems.length > 1 ? `{${crateItems.join(', ')}}` : crateItems[0];
 
   return `use anchor_lang::prelude::*;
-use crate::ErrorCode;
-
-pub fn ${functionName}(ctx: Context<${structName}>) -> Result<()> {
+${crateImport ? `use crate::${crateImport};\n` : ''}${imports.length > 0 ? `${imports.join('\n')}\n` : ''}
+pub fn ${functionName}(ctx: Context<${structName}>${parameters}) -> Result<()> {
     msg!("Executing ${node.name}");
-    
+${argChecks ? `\n    // Validate arguments\n${argChecks}\n` : ''}    
     // Validate incoming connections
     ${connectedInstructions.length > 0 ? 
       `msg!("Connected to instructions: ${connectedInstructions.join(', ')}");` : 
       `msg!("Entry point instruction");`}
-    
+${accountSetup.length > 0 ? `\n    // Initialize connected accounts\n${accountSetup.join('\n')}\n` : ''}    
     ${instructionLogic}
-    
+${cpiInvocations.length > 0 ? `\n    // Cross-program invocations\n${cpiInvocations.join('\n\n')}\n` : ''}    
     // Update connected accounts
-    ${connectedAccounts.map(accountName => `
+    ${connectedAccounts.filter((_, index) => hasCounter(index)).map(accountName => `
     ctx.accounts.${accountName.toLowerCase()}.data += 1;
     msg!("Updated ${accountName} data");`).join('')}
-    
+${eventEmits.length > 0 ? `\n    // Emit events\n${eventEmits.join('\n')}\n` : ''}    
     Ok(())
 }
 
-#[derive(Accounts)]
+#[derive(Accounts)]${renderInstructionAttribute(args)}
 pub struct ${structName}<'info> {${accountFields}
 }
-`;
+${emission?.definitions ? `\n${emission.definitions}\n` : ''}`;
 };
 
-const generateInstructionLogic = (
+const initializeConnectedAccount = (instruction: CanvasNode, account: CanvasNode): string[] => {
+  const init = instruction.accountConstraints?.[account.id]?.init;
+  if (!init) return [];
+
+  const field = `ctx.accounts.${accountFieldName(account)}`;
+  const lines: string[] = [];
+
+  if (hasPubkeyField(account, 'authority')) {
+    if (init === 'init') {
+      lines.push(`    ${field}.authority = ctx.accounts.authority.key();`);
+    } else {
+      lines.push(
+        `    if ${field}.authority == Pubkey::default() {`,
+        `        ${field}.authority = ctx.accounts.authority.key();`,
+        '    }',
+        `    require_keys_eq!(${field}.authority, ctx.accounts.authority.key(), ErrorCode::Unauthorized);`
+      );
+    }
+  }
+  if (isPda(account) && hasBumpField(account)) {
+    lines.push(`    ${field}.bump = ctx.bumps.${accountFieldName(account)};`);
+  }
+
+  return lines;
+};
+
+// SPL types used by connected token and mint accounts, minus those a template already imports
+const splTokenImports = (instruction: CanvasNode, accounts: CanvasNode[], templateImports: string[]): string[] => {
+  const kinds = accounts.map(getAccountKind);
+  const names = [
+    ...(kinds.includes('mint') ? ['Mint'] : []),
+    ...(needsTokenProgram(instruction, accounts) ? ['Token'] : []),
+    ...(kinds.includes('token') ? ['TokenAccount'] : []),
+  ];
+  const imported = templateImports.filter(line => line.startsWith('use anchor_spl::token::')).join(' ');
+  const missing = names.filter(name => !new RegExp(`\\b${name}\\b`).test(imported));
+  return missing.length > 0 ? [`use anchor_spl::token::{${missing.join(', ')}};`] : [];
+};
+
+// `init_if_needed` is behind a cargo feature of anchor-lang; token and mint accounts need anchor-spl
+const withAccountFeatures = (
+  requirements: CargoRequirements,
+  instructionNodes: CanvasNode[],
+  accountNodes: CanvasNode[]
+): CargoRequirements => {
+  const needsInitIfNeeded = instructionNodes.some(node =>
+    Object.values(node.accountConstraints || {}).some(constraints => constraints.init === 'init_if_needed')
+  );
+  const needsSpl = accountNodes.some(node => getAccountKind(node) !== 'state');
+
+  return {
+    anchorLangFeatures: needsInitIfNeeded && !requirements.anchorLangFeatures.includes('init-if-needed')
+      ? [...requirements.anchorLangFeatures, 'init-if-needed'].sort()
+      : requirements.anchorLangFeatures,
+    anchorSplFeatures: needsSpl ? requirements.anchorSplFeatures || [] : requirements.anchorSplFeatures,
+  };
+};
+
+// Fields of the instruction's `#[derive(Accounts)]` struct, before the accounts its CPI calls add
+const renderBaseAccounts = (
   node: CanvasNode,
-  incomingConnections: Connection[],
-  outgoingConnections: Connection[],
-  allNodes: CanvasNode[]
+  connections: Connection[],
+  allNodes: CanvasNode[],
+  emission?: TemplateEmission
 ): string => {
-  const nodeType = node.type.toLowerCase();
-  
-  switch (nodeType) {
-    case 'token':
-      return `
-    // Token operation logic
-    require!(ctx.accounts.authority.key() != Pubkey::default(), ErrorCode::Unauthorized);
-    msg!("Processing token operation");`;
-    
-    case 'nft':
-      return `
-    // NFT operation logic
-    require!(ctx.accounts.authority.key() != Pubkey::default(), ErrorCode::Unauthorized);
-    msg!("Processing NFT operation");`;
-    
-    case 'defi':
-      return `
-    // DeFi operation logic
-    require!(ctx.accounts.authority.key() != Pubkey::default(), ErrorCode::Unauthorized);
-    msg!("Processing DeFi operation");`;
-    
-    default:
-      return `
+  const accountNodes = connectedAccountNodes(node, allNodes, connections);
+  const scope = seedScopeFor(node, allNodes, connections);
+  const templateAccounts = emission ? emission.accounts : '';
+
+  return accountNodes.map(account => renderConnectedAccount(node, account, scope)).join('') +
+    templateAccounts +
+    (needsTokenProgram(node, accountNodes) && !templateAccounts.includes('pub token_program:')
+      ? `\n    pub token_program: Program<'info, Token>,`
+      : '') +
+    `
+    #[account(mut)]
+    pub authority: Signer<'info>,${usesSeparatePayer(node) ? `
+    #[account(mut)]
+    pub payer: Signer<'info>,` : ''}
+    pub system_program: Program<'info, System>,`;
+};
+
+const renderInstructionAccounts = (
+  node: CanvasNode,
+  connections: Connection[],
+  allNodes: CanvasNode[],
+  emission?: TemplateEmission
+): string => {
+  const baseAccounts = renderBaseAccounts(node, connections, allNodes, emission);
+  const caller = cpiCaller(node, allNodes, connections, baseAccounts);
+  return baseAccounts + renderCpiAccountFields(connectedCpiCalls(node, allNodes, connections), caller);
+};
+
+// Accounts, arguments and template bindings a node's custom code block can use
+export const instructionCodeScope = (node: CanvasNode, nodes: CanvasNode[], connections: Connection[]): CustomCodeScope => {
+  const emission = emitTemplate(node);
+  return customCodeScope(renderInstructionAccounts(node, connections, nodes, emission), getInstructionArgs(node), emission?.body);
+};
+
+// anchor-spl and its features for the SPL programs CPI nodes call
+const withCpiFeatures = (requirements: CargoRequirements, nodes: CanvasNode[]): CargoRequirements => {
+  const features = cpiSplFeatures(nodes);
+  if (!features) return requirements;
+  return {
+    ...requirements,
+    anchorSplFeatures: Array.from(new Set([...(requirements.anchorSplFeatures || []), ...features])).sort(),
+  };
+};
+
+const buildIdl = (
+  settings: ProjectSettings,
+  instructionNodes: CanvasNode[],
+  accountNodes: CanvasNode[],
+  eventNodes: CanvasNode[],
+  connections: Connection[],
+  nodes: CanvasNode[],
+  errors: ProgramError[]
+): Idl =>
+  generateIdl({
+    settings,
+    instructions: instructionNodes.map(node => {
+      const emission = emitTemplate(node);
+      return {
+        name: instructionModuleName(node),
+        args: getInstructionArgs(node),
+        accounts: renderInstructionAccounts(node, connections, nodes, emission),
+        definitions: emission?.definitions,
+      };
+    }),
+    stateAccounts: accountNodes.filter(node => getAccountKind(node) === 'state'),
+    events: eventNodes,
+    errors,
+  });
+
+const emitTemplate = (node: CanvasNode): TemplateEmission | undefined =>
+  getModuleEmitter(node)?.emit({
+    node,
+    structName: node.name.replace(/\s+/g, ''),
+    args: getInstructionArgs(node),
+  });
+
+const generateInstructionLogic = (node: CanvasNode, emission?: TemplateEmission): string => {
+  const customCode = hasCustomCode(node) ? `
+    // Custom code
+${renderCustomCode(node.code!)}` : '';
+
+  if (emission) {
+    return `
+    // ${node.name} logic
+${emission.body}${customCode ? `\n${customCode}` : ''}`;
+  }
+
+  if (customCode) return customCode;
+
+  return `
     // Custom instruction logic
     require!(ctx.accounts.authority.key() != Pubkey::default(), ErrorCode::Unauthorized);
     msg!("Processing custom operation");`;
+};
+
+// Test statements that give every connected account an address, PDAs derived client-side
+const connectedAccountTestSetup = (instruction: CanvasNode, allNodes: CanvasNode[], connections: Connection[]) => {
+  const accounts = connectedAccountNodes(instruction, allNodes, connections);
+  const scope = { ...seedScopeFor(instruction, allNodes, connections), args: testArgsFor(instruction, allNodes, connections) };
+  const setup: string[] = [];
+  const accountEntries: Record<string, string> = {};
+  const signers: string[] = [];
+  const keys = new Map<string, string>([[AUTHORITY_SEED, 'provider.wallet.publicKey']]);
+
+  const accountKey = (accountId: string) => keys.get(accountId) || 'anchor.web3.PublicKey.default';
+
+  // Derive accounts after the ones their seeds reference
+  const visiting = new Set<string>();
+  const visit = (account: CanvasNode) => {
+    if (keys.has(account.id) || visiting.has(account.id)) return;
+    visiting.add(account.id);
+    getSeeds(account).forEach(seed => {
+      const dependency = seed.kind === 'account' ? accounts.find(n => n.id === seed.account) : undefined;
+      if (dependency) visit(dependency);
+    });
+
+    const variable = clientAccountVariable(account);
+    const init = instruction.accountConstraints?.[account.id]?.init;
+    if (isPda(account)) {
+      const seeds = renderClientSeeds(getSeeds(account), scope, accountKey);
+      setup.push(`const [${variable}] = anchor.web3.PublicKey.findProgramAddressSync(
+        [${seeds.join(', ')}],
+        program.programId
+      );`);
+      keys.set(account.id, variable);
+    } else if (init) {
+      setup.push(`const ${variable} = anchor.web3.Keypair.generate();`);
+      signers.push(variable);
+      keys.set(account.id, `${variable}.publicKey`);
+    } else {
+      setup.push(`// Existing ${account.name} account: replace with its address
+      const ${variable} = anchor.web3.Keypair.generate().publicKey;`);
+      keys.set(account.id, variable);
+    }
+    accountEntries[variable] = keys.get(account.id)!;
+  };
+  accounts.forEach(visit);
+
+  // A separate fee payer has to be funded before it can pay rent
+  if (usesSeparatePayer(instruction)) {
+    setup.unshift(`const payer = anchor.web3.Keypair.generate();
+      await provider.connection.confirmTransaction(
+        await provider.connection.requestAirdrop(payer.publicKey, anchor.web3.LAMPORTS_PER_SOL),
+        "confirmed"
+      );`);
+    accountEntries[PAYER_REF] = 'payer.publicKey';
+    signers.unshift(PAYER_REF);
   }
+
+  return { setup, accounts: accountEntries, signers };
+};
+
+// Listeners registered before the positive test's transaction, and assertions on the payloads they receive
+const eventCapture = (
+  instruction: CanvasNode,
+  allNodes: CanvasNode[],
+  connections: Connection[],
+  accountKeys: Record<string, string>,
+  programType: string
+) => {
+  const events = connectedEventNodes(instruction, allNodes, connections);
+  if (events.length === 0) return { listen: '', assert: '' };
+  const testArgs = testArgsFor(instruction, allNodes, connections);
+
+  const listen = events.map(event => {
+    const name = eventListenerName(event);
+    return `
+      const ${name}Events: anchor.IdlEvents<${programType}>["${name}"][] = [];
+      const ${name}Listener = program.addEventListener("${name}", (event) => ${name}Events.push(event));`;
+  }).join('');
+
+  const assertions = events.map(event => {
+    const name = eventListenerName(event);
+    const fieldChecks = getEventFields(event).flatMap(field => {
+      const source = eventFieldSource(field, instruction, allNodes, connections);
+      const expected = source.kind === 'arg'
+        ? testValueFor(testArgs.find(arg => arg.id === source.arg.id) || source.arg)
+        : source.kind === 'account'
+          ? source.account ? accountKeys[clientAccountVariable(source.account)] : 'provider.wallet.publicKey'
+          : undefined;
+      if (!expected) return [];
+
+      const actual = `${name}Events[0].${toCamelCase(field.name)}`;
+      if (field.type.kind === 'pubkey') return [`expect(${actual}.toBase58()).to.equal(${expected}.toBase58());`];
+      if (['u64', 'u128', 'i64', 'i128'].includes(field.type.kind)) return [`expect(${actual}.toString()).to.equal(${expected}.toString());`];
+      if (['vec', 'struct', 'enum'].includes(field.type.kind)) return [`expect(${actual}).to.deep.equal(${expected});`];
+      return [`expect(${actual}).to.equal(${expected});`];
+    });
+    return [
+      `await program.removeEventListener(${name}Listener);`,
+      `expect(${name}Events).to.have.lengthOf(1);`,
+      ...fieldChecks,
+    ].map(line => `\n      ${line}`).join('');
+  }).join('');
+
+  return {
+    listen: `${listen}\n`,
+    assert: `
+      // Event logs reach the websocket subscription shortly after confirmation
+      await new Promise(resolve => setTimeout(resolve, 1000));${assertions}
+      `,
+  };
 };
 
 const generateTests = (
-  programName: string, 
+  settings: ProjectSettings, 
   instructionNodes: CanvasNode[], 
-  connections: Connection[]
+  connections: Connection[],
+  allNodes: CanvasNode[],
+  errors: ProgramError[]
 ): string => {
   const testCases = instructionNodes.map(node => {
     const functionName = node.name.toLowerCase().replace(/\s+/g, '_');
     const connectedNodes = connections
       .filter(conn => conn.targetNodeId === node.id || conn.sourceNodeId === node.id)
       .length;
+    const testSetup = emitTemplate(node)?.test;
+    const accountSetup = connectedAccountTestSetup(node, allNodes, connections);
+    const knownKeys: Record<string, string> = { ...accountSetup.accounts, ...testSetup?.accounts };
+    const cpiSetup = cpiTestSetup(
+      connectedCpiCalls(node, allNodes, connections),
+      cpiCaller(node, allNodes, connections, renderBaseAccounts(node, connections, allNodes, emitTemplate(node))),
+      field => field === AUTHORITY_SEED ? 'provider.wallet.publicKey' : knownKeys[toCamelCase(field)] || 'anchor.web3.PublicKey.default'
+    );
+    const setupLines = [...accountSetup.setup, ...(testSetup?.setup || []), ...cpiSetup.setup];
+    const setup = setupLines.length > 0 ? setupLines.map(line => `\n      ${line}`).join('') + '\n' : '';
+    const templateAccounts = Object.entries({ ...knownKeys, ...cpiSetup.accounts })
+      .map(([name, value]) => `\n          ${name}: ${value},`).join('');
+    const signerList = [...accountSetup.signers, ...(testSetup?.signers || []), ...cpiSetup.signers];
+    const signers = signerList.length > 0 ? `\n        .signers([${signerList.join(', ')}])` : '';
+    const events = eventCapture(node, allNodes, connections, accountSetup.accounts, programTypeName(settings));
+    const args = getInstructionArgs(node);
+    const testArgs = testArgsFor(node, allNodes, connections);
+    const call = (values: string[]) => `program.methods.${toCamelCase(functionName)}(${values.join(', ')})
+        .accountsPartial({${templateAccounts}
+          authority: provider.wallet.publicKey,
+          systemProgram: anchor.web3.SystemProgram.programId,
+        })${signers}
+        .rpc()`;
+
+    // Arguments that derive PDAs would fail the seeds constraint before the check is reached
+    const seedArgs = new Set(connectedAccountNodes(node, allNodes, connections).flatMap(account =>
+      getSeeds(account).flatMap(seed => seed.kind === 'arg' ? [seed.name] : [])
+    ));
+    const negativeTests = args.flatMap((arg, index) => {
+      const value = violatingValueFor(arg);
+      if (!arg.error || value === undefined || seedArgs.has(toSnakeCase(arg.name))) return [];
+      const values = testArgs.map((other, otherIndex) => otherIndex === index ? value : testValueFor(other));
+      return [`
+  it("${node.name} rejects ${toSnakeCase(arg.name)} outside its bounds", async () => {${setup}
+      await expectProgramError(
+        ${call(values)},
+        "${arg.error}"
+      );
+  });`];
+    });
     
-    return `
+    return `${negativeTests.map(test => `${test}\n`).join('')}
   it("${node.name} (${connectedNodes} connections)", async () => {
     // Test ${node.name} instruction with connection validation
-    try {
-      const tx = await program.methods.${functionName}()
-        .accounts({
-          authority: provider.wallet.publicKey,
-          systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .rpc();
-      
+    try {${setup}${events.listen}
+      const tx = await ${call(testArgs.map(testValueFor))};
+      ${events.assert}
       console.log("✅ ${node.name} transaction signature:", tx);
       
       // Validate program flow
@@ -339,15 +790,36 @@ const generateTests = (
   }).join('\n');
 
   const integrationTests = generateIntegrationTests(instructionNodes, connections);
+  const templateImports = Array.from(new Set(
+    instructionNodes.flatMap(node => emitTemplate(node)?.test?.imports || [])
+  ));
+  const { programName } = settings;
+  const programType = programTypeName(settings);
 
   return `import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
-import { ${programName.charAt(0).toUpperCase() + programName.slice(1)} } from "../target/types/${programName}";
+${templateImports.map(line => `${line}\n`).join('')}import { ${programType} } from "../target/types/${programName}";
 import { expect } from "chai";
 
 describe("${programName}", () => {
-  anchor.setProvider(anchor.AnchorProvider.env());
-  const program = anchor.workspace.${programName.charAt(0).toUpperCase() + programName.slice(1)} as Program<${programName.charAt(0).toUpperCase() + programName.slice(1)}>;
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+  const program = anchor.workspace.${workspaceAccessor(settings)} as Program<${programType}>;
+
+  // ErrorCode variants by the code Anchor reports for them
+  const ERRORS: Record<number, string> = {
+${errors.map(error => `    ${error.code}: "${error.name}",`).join('\n')}
+  };
+
+  const expectProgramError = async (transaction: Promise<unknown>, name: string) => {
+    try {
+      await transaction;
+    } catch (error) {
+      expect(ERRORS[(error as anchor.AnchorError).error?.errorCode?.number]).to.equal(name);
+      return;
+    }
+    expect.fail(\`Expected the transaction to fail with \${name}\`);
+  };
 
   before(async () => {
     console.log("🚀 Starting ${programName} tests");
@@ -382,16 +854,32 @@ const generateIntegrationTests = (instructionNodes: CanvasNode[], connections: C
   });`;
 };
 
-const generateCargoToml = (programName: string): string => {
+const ANCHOR_VERSION = '0.31.1';
+
+const generateCargoToml = (settings: ProjectSettings, requirements: CargoRequirements): string => {
+  const anchorLang = requirements.anchorLangFeatures.length > 0
+    ? `{ version = "${ANCHOR_VERSION}", features = [${requirements.anchorLangFeatures.map(f => `"${f}"`).join(', ')}] }`
+    : `"${ANCHOR_VERSION}"`;
+  const anchorSpl = requirements.anchorSplFeatures
+    ? requirements.anchorSplFeatures.length > 0
+      ? `\nanchor-spl = { version = "${ANCHOR_VERSION}", features = [${requirements.anchorSplFeatures.map(f => `"${f}"`).join(', ')}] }`
+      : `\nanchor-spl = "${ANCHOR_VERSION}"`
+    : '';
+  const idlBuild = ['"anchor-lang/idl-build"', ...(requirements.anchorSplFeatures ? ['"anchor-spl/idl-build"'] : [])];
+  // Features selecting the cluster-specific `declare_id!`
+  const clusterFeatures = hasClusterSpecificIds(settings)
+    ? PROGRAM_CLUSTERS.slice(1).map(cluster => `\n${cluster} = []`).join('')
+    : '';
+
   return `[package]
-name = "${programName}"
+name = "${settings.crateName}"
 version = "0.1.0"
 description = "Created with AnchorFlow"
 edition = "2021"
 
 [lib]
 crate-type = ["cdylib", "lib"]
-name = "${programName}"
+name = "${settings.programName}"
 
 [features]
 no-entrypoint = []
@@ -399,20 +887,30 @@ no-idl = []
 no-log-ix-name = []
 cpi = ["no-entrypoint"]
 default = []
+idl-build = [${idlBuild.join(', ')}]${clusterFeatures}
 
 [dependencies]
-anchor-lang = "0.29.0"
+anchor-lang = ${anchorLang}${anchorSpl}
 `;
 };
 
-const generateAnchorToml = (programName: string): string => {
+const generateAnchorToml = (settings: ProjectSettings, clonePrograms: string[]): string => {
+  // Programs the tests call into are cloned from mainnet into the local validator
+  const testValidator = clonePrograms.length > 0 ? `
+[test.validator]
+url = "https://api.mainnet-beta.solana.com"
+${clonePrograms.map(address => `
+[[test.validator.clone]]
+address = "${address}"`).join('\n')}
+` : '';
+
   return `[features]
 seeds = false
 skip-lint = false
 
-[programs.localnet]
-${programName} = "Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS"
-
+${PROGRAM_CLUSTERS.map(cluster => `[programs.${cluster}]
+${settings.programName} = "${settings.programIds[cluster]}"
+`).join('\n')}
 [registry]
 url = "https://api.apr.dev"
 
@@ -422,5 +920,5 @@ wallet = "~/.config/solana/id.json"
 
 [scripts]
 test = "yarn run ts-mocha -p ./tsconfig.json -t 1000000 tests/**/*.ts"
-`;
+${testValidator}`;
 };
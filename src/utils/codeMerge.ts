@@ -0,0 +1,120 @@
+import { CodeEdit } from '@/types/project';
+import { GeneratedCode } from './codeGen';
+
+export const CONFLICT_START = '<<<<<<< your edit';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> regenerated';
+
+export type CodeEdits = Record<string, CodeEdit>;
+
+// Indices of `b` matched to each line of `a` by a longest common subsequence, -1 where unmatched
+const matchLines = (a: string[], b: string[]): number[] => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+// Line-based diff3: changes on one side are taken as is, the same change on both sides once, and
+// different changes to the same lines become a conflict block with both versions
+export const mergeThreeWay = (base: string, ours: string, theirs: string): string => {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  let baseStart = 0;
+  let ourStart = 0;
+  let theirStart = 0;
+
+  const resolve = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const original = baseLines.slice(baseStart, baseEnd);
+    const mine = ourLines.slice(ourStart, ourEnd);
+    const regenerated = theirLines.slice(theirStart, theirEnd);
+    if (sameLines(mine, original)) {
+      merged.push(...regenerated);
+    } else if (sameLines(regenerated, original) || sameLines(mine, regenerated)) {
+      merged.push(...mine);
+    } else {
+      merged.push(CONFLICT_START, ...mine, CONFLICT_SEPARATOR, ...regenerated, CONFLICT_END);
+    }
+  };
+
+  // Lines unchanged on both sides anchor the chunks between them
+  baseLines.forEach((line, index) => {
+    const ourIndex = ourMatches[index];
+    const theirIndex = theirMatches[index];
+    if (ourIndex === -1 || theirIndex === -1) return;
+    resolve(index, ourIndex, theirIndex);
+    merged.push(line);
+    baseStart = index + 1;
+    ourStart = ourIndex + 1;
+    theirStart = theirIndex + 1;
+  });
+  resolve(baseLines.length, ourLines.length, theirLines.length);
+
+  return merged.join('\n');
+};
+
+export const countConflicts = (content: string): number =>
+  content.split('\n').filter(line => line === CONFLICT_START).length;
+
+export const countEditConflicts = (edits: CodeEdits): number =>
+  Object.values(edits).reduce((total, edit) => total + countConflicts(edit.edited), 0);
+
+// Generated files a user can edit, by the key their edits are stored under
+export const editableFiles = (code: GeneratedCode): Record<string, string> => ({
+  'lib.rs': code.lib,
+  ...Object.fromEntries(code.instructions.map((content, index) => [`instructions/${code.instructionModules[index]}.rs`, content])),
+  'tests.ts': code.tests,
+  'Cargo.toml': code.cargoToml,
+  'Anchor.toml': code.anchorToml,
+});
+
+export const applyCodeEdits = (code: GeneratedCode, edits: CodeEdits): GeneratedCode => {
+  const content = (key: string, generated: string) => edits[key]?.edited ?? generated;
+  return {
+    ...code,
+    lib: content('lib.rs', code.lib),
+    instructions: code.instructions.map((instruction, index) => content(`instructions/${code.instructionModules[index]}.rs`, instruction)),
+    tests: content('tests.ts', code.tests),
+    cargoToml: content('Cargo.toml', code.cargoToml),
+    anchorToml: content('Anchor.toml', code.anchorToml),
+  };
+};
+
+// Carry edits over to newly generated files. Edits to files the graph no longer produces are dropped,
+// and an edit that ends up equal to the generated file is no longer an edit
+export const rebaseCodeEdits = (edits: CodeEdits, files: Record<string, string>): CodeEdits =>
+  Object.fromEntries(Object.entries(edits).flatMap(([key, edit]) => {
+    const generated = files[key];
+    if (generated === undefined) return [];
+    const edited = edit.base === generated ? edit.edited : mergeThreeWay(edit.base, edit.edited, generated);
+    return edited === generated ? [] : [[key, { base: generated, edited }]];
+  }));
+
+export const sameCodeEdits = (a: CodeEdits, b: CodeEdits): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => b[key] && a[key].base === b[key].base && a[key].edited === b[key].edited);
+};
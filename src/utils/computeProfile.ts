@@ -0,0 +1,96 @@
+import { ComputeProfile, InstructionProfile } from '@/types/profiling';
+import type { TestResult } from './SolanaUtils';
+
+// Most compute units a transaction may request
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// What the `setComputeUnitLimit` instruction itself consumes
+const COMPUTE_BUDGET_UNITS = 150;
+
+// Headroom over the measured usage, for inputs that take longer paths than the test's
+const LIMIT_MARGIN = 0.1;
+
+// An increase counts as a regression when it is both this relative and this absolute
+const REGRESSION_RATIO = 0.05;
+const REGRESSION_MIN_UNITS = 100;
+
+export interface ComputeRegression {
+  instruction: string;
+  before: number;
+  after: number;
+  // Last run of different source on the same network, which the increase is measured from
+  baseline: ComputeProfile;
+}
+
+const INVOKE = /^Program \w+ invoke \[(\d+)\]$/;
+const CONSUMED = /^Program (\w+) consumed (\d+) of \d+ compute units$/;
+// Builtin programs log no consumption, so invocations end on their result
+const RESULT = /^Program \w+ (success|failed)/;
+
+// Units the program's top-level invocations consumed, CPIs included; null when the logs have none,
+// e.g. because they were truncated
+export const programComputeUnits = (logs: string[], programId: string): number | null => {
+  let depth = 0;
+  let total: number | null = null;
+  logs.forEach(line => {
+    const invoke = line.match(INVOKE);
+    if (invoke) {
+      depth = Number(invoke[1]);
+      return;
+    }
+    const consumed = line.match(CONSUMED);
+    if (consumed && depth === 1 && consumed[1] === programId) {
+      total = (total ?? 0) + Number(consumed[2]);
+    } else if (RESULT.test(line)) {
+      depth -= 1;
+    }
+  });
+  return total;
+};
+
+// Every tested instruction, so one that stops passing stays listed as not measured
+export const profileFromResults = (results: TestResult[], programId: string): InstructionProfile[] =>
+  results.map(result => ({
+    instruction: result.instruction,
+    computeUnits: result.gasUsed ?? null,
+    programUnits: programComputeUnits(result.logs || [], programId),
+    success: result.success,
+    error: result.error,
+  }));
+
+// Failed tests stop early and so under-measure; only passing ones count
+export const measuredUnits = (entry: InstructionProfile | undefined): number | null =>
+  entry?.success ? entry.computeUnits : null;
+
+// Limit for a transaction that measured `units`, rounded up to the next thousand
+export const recommendedComputeUnitLimit = (units: number): number =>
+  Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil((units + COMPUTE_BUDGET_UNITS) * (1 + LIMIT_MARGIN) / 1000) * 1000);
+
+export const computeUnitLimitsFrom = (profile: ComputeProfile): Record<string, number> =>
+  Object.fromEntries(profile.instructions.flatMap(entry => {
+    const units = measuredUnits(entry);
+    return units === null ? [] : [[entry.instruction, recommendedComputeUnitLimit(units)]];
+  }));
+
+// The run `profile` is compared with: the latest earlier one on its network built from other source
+export const baselineProfile = (profile: ComputeProfile, history: ComputeProfile[]): ComputeProfile | undefined =>
+  history
+    .filter(other => other.network === profile.network && other.sourceHash !== profile.sourceHash)
+    .filter(other => other.createdAt < profile.createdAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+// Instructions that pass in both runs and use noticeably more compute since the graph last changed
+export const findRegressions = (profile: ComputeProfile, history: ComputeProfile[]): ComputeRegression[] => {
+  const baseline = baselineProfile(profile, history);
+  if (!baseline) return [];
+
+  return profile.instructions.flatMap(entry => {
+    const before = measuredUnits(baseline.instructions.find(other => other.instruction === entry.instruction));
+    const after = measuredUnits(entry);
+    if (before === null || after === null) return [];
+    const increase = after - before;
+    return increase >= REGRESSION_MIN_UNITS && increase > before * REGRESSION_RATIO
+      ? [{ instruction: entry.instruction, before, after, baseline }]
+      : [];
+  });
+};
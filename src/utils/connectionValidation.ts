@@ -65,8 +65,8 @@ export class ConnectionValidator {
     const compatibilityMap: Record<string, string[]> = {
       'number': ['string', 'boolean'],
       'string': ['number'],
-      'data': ['any'],
-      'control': ['event'],
+      'data': ['any', 'event', 'cpi'],
+      'control': ['event', 'cpi'],
       'event': ['control'],
     };
 
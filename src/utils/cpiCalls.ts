@@ -0,0 +1,323 @@
+import { CanvasNode, Connection, CpiInvocation, CpiTarget, Port } from '@/types/editor';
+import { rustType } from './accountSchema';
+import { getAccountConstraints, PAYER_REF, usesSeparatePayer } from './accountConstraints';
+import {
+  BUILT_IN_ACCOUNT_FIELDS,
+  CpiAccountInterface,
+  CpiInstructionInterface,
+  CpiProgramInterface,
+  getCpiProgram,
+  validateProgramIdl,
+} from './cpiPrograms';
+import { renderAccountField } from './moduleEmitters';
+import { getInstructionArgs } from './instructionArgs';
+import { toCamelCase, toSnakeCase } from './naming';
+import { accountFieldName, AUTHORITY_SEED, connectedAccountNodes, isPda, renderSignerSeeds, SeedScope } from './pdaSeeds';
+
+export const CPI_NODE_TYPE = 'cpi';
+
+export const isCpiNode = (node: CanvasNode): boolean => node.type === CPI_NODE_TYPE;
+
+export const getCpiTarget = (node: CanvasNode): CpiTarget => node.cpi || { program: 'system', invocations: {} };
+
+export const cpiProgramFor = (node: CanvasNode): CpiProgramInterface | undefined => {
+  const target = getCpiTarget(node);
+  return getCpiProgram(target.program, target.idl);
+};
+
+export const getInvocation = (node: CanvasNode, instruction: string): CpiInvocation =>
+  getCpiTarget(node).invocations[instruction] || { accounts: {}, args: {} };
+
+// One input port per instruction of the target program, wired from the instructions that call it
+export const cpiPorts = (program?: CpiProgramInterface): Port[] =>
+  (program?.instructions || []).map(instruction => ({ id: crypto.randomUUID(), name: instruction.name, type: 'cpi' }));
+
+export interface CpiCall {
+  node: CanvasNode;
+  // Name of the port the caller is wired to
+  name: string;
+  program?: CpiProgramInterface;
+  instruction?: CpiInstructionInterface;
+  invocation: CpiInvocation;
+}
+
+// Target instructions an instruction invokes, in connection order
+export const connectedCpiCalls = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): CpiCall[] =>
+  connections
+    .filter(conn => conn.sourceNodeId === instruction.id)
+    .flatMap(conn => {
+      const node = nodes.find(n => n.id === conn.targetNodeId);
+      // Ports of a program the node no longer targets are gone
+      const port = node && isCpiNode(node) ? node.inputs.find(p => p.id === conn.targetPortId) : undefined;
+      if (!node || !port) return [];
+      const name = port.name;
+      const program = cpiProgramFor(node);
+      return [{
+        node,
+        name,
+        program,
+        instruction: program?.instructions.find(ix => ix.name === name),
+        invocation: getInvocation(node, name),
+      }];
+    });
+
+// The instruction making the calls, and the fields its accounts struct has before any CPI account is added
+export interface CpiCaller {
+  instruction: CanvasNode;
+  accounts: CanvasNode[];
+  fields: string[];
+}
+
+export const cpiCaller = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[], accountFields: string): CpiCaller => ({
+  instruction,
+  accounts: connectedAccountNodes(instruction, nodes, connections),
+  fields: Array.from(accountFields.matchAll(/pub (\w+):/g)).map(match => match[1]),
+});
+
+// How one account of the target instruction is filled from the caller's context
+export interface ResolvedCpiAccount {
+  target: CpiAccountInterface;
+  field: string;
+  source: 'caller' | 'builtIn' | 'passThrough';
+  // Account node behind a caller field
+  account?: CanvasNode;
+}
+
+// An explicit mapping wins; otherwise shared programs, then a caller field of the same name, then a new field
+export const resolveCpiAccount = (target: CpiAccountInterface, invocation: CpiInvocation, caller: CpiCaller): ResolvedCpiAccount => {
+  const ref = invocation.accounts[target.name];
+  if (ref === AUTHORITY_SEED || ref === PAYER_REF) return { target, field: ref, source: 'caller' };
+  const mapped = ref ? caller.accounts.find(account => account.id === ref) : undefined;
+  if (mapped) return { target, field: accountFieldName(mapped), source: 'caller', account: mapped };
+
+  if (target.builtIn) return { target, field: target.builtIn, source: 'builtIn' };
+  // Without a separate payer the authority pays
+  if (target.name === PAYER_REF && !caller.fields.includes(PAYER_REF)) return { target, field: AUTHORITY_SEED, source: 'caller' };
+  if (caller.fields.includes(target.name)) {
+    return { target, field: target.name, source: 'caller', account: caller.accounts.find(account => accountFieldName(account) === target.name) };
+  }
+  return { target, field: target.name, source: 'passThrough' };
+};
+
+const resolvedCalls = (calls: CpiCall[], caller: CpiCaller) =>
+  calls.flatMap(call => call.program && call.instruction
+    ? [{ call, program: call.program, instruction: call.instruction, accounts: call.instruction.accounts.map(target => resolveCpiAccount(target, call.invocation, caller)) }]
+    : []);
+
+const pubkeyLiteral = (address: string) => `anchor_lang::solana_program::pubkey!("${address}")`;
+
+// Fields the calls add to the caller's accounts struct: target programs, shared programs and accounts only the target reads
+export const renderCpiAccountFields = (calls: CpiCall[], caller: CpiCaller): string => {
+  const fields = new Map<string, string>();
+  const add = (name: string, field: string) => {
+    if (!caller.fields.includes(name) && !fields.has(name)) fields.set(name, field);
+  };
+
+  resolvedCalls(calls, caller).forEach(({ program, instruction, accounts }) => {
+    add(program.programField, renderAccountField(`${program.programField}: Program<'info, ${program.programType}>`));
+    accounts.forEach(({ target, field, source }) => {
+      if (source === 'builtIn') {
+        add(field, renderAccountField(BUILT_IN_ACCOUNT_FIELDS[target.builtIn!]));
+      } else if (source === 'passThrough' && target.signer) {
+        add(field, renderAccountField(`${field}: Signer<'info>`, target.writable ? ['mut'] : []));
+      } else if (source === 'passThrough') {
+        add(field, renderAccountField(
+          `${field}: UncheckedAccount<'info>`,
+          [...(target.writable ? ['mut'] : []), ...(target.address ? [`address = ${pubkeyLiteral(target.address)}`] : [])],
+          `validated by ${program.label} in ${instruction.name}`
+        ));
+      }
+    });
+  });
+
+  return Array.from(fields.values()).join('');
+};
+
+// Argument values in the caller, by target argument name; caller arguments that are not Copy are cloned
+const argValues = (call: CpiCall, instruction: CpiInstructionInterface, caller: CpiCaller): Record<string, string> => {
+  const callerArgs = getInstructionArgs(caller.instruction);
+  return Object.fromEntries(instruction.args.map(arg => {
+    const value = (call.invocation.args[arg.name] || '').trim();
+    const callerArg = callerArgs.find(a => toSnakeCase(a.name) === value);
+    if (!callerArg) return [arg.name, value || 'Default::default()'];
+    return [arg.name, ['string', 'vec', 'struct', 'enum'].includes(callerArg.type.kind) ? `${value}.clone()` : value];
+  }));
+};
+
+const indent = (text: string, prefix: string) => text.split('\n').map(line => `${prefix}${line}`).join('\n');
+
+// Calls made after the handler's own logic; PDAs of the program that stand in for a signer sign with their seeds
+export const renderCpiCalls = (calls: CpiCall[], caller: CpiCaller, scope: SeedScope): string[] =>
+  resolvedCalls(calls, caller).map(({ call, program, instruction, accounts }) => {
+    const pdaSigners = Array.from(new Set(accounts
+      .filter(({ target, account }) => target.signer && account && isPda(account))
+      .map(({ account }) => account!)));
+    const signerSeeds = pdaSigners.map(account => renderSignerSeeds(account, scope));
+
+    const values = argValues(call, instruction, caller);
+    const args = instruction.renderArgs ? instruction.renderArgs(values) : instruction.args.map(arg => values[arg.name]);
+    const accountInfos = accounts.map(({ target, field }) => `        ${target.name}: ctx.accounts.${field}.to_account_info(),`);
+    const context = [
+      `    CpiContext::${signerSeeds.length > 0 ? 'new_with_signer' : 'new'}(`,
+      `        ctx.accounts.${program.programField}.to_account_info(),`,
+      `        ${program.accountsModule}::${instruction.accountsStruct} {`,
+      ...accountInfos.map(line => `    ${line}`),
+      '        },',
+      ...(signerSeeds.length > 0 ? ['        signer_seeds,'] : []),
+      '    ),',
+    ];
+    const invocation = [
+      `${program.cpiModule}::${instruction.name}(`,
+      ...context,
+      ...args.map(arg => indent(`${arg},`, '    ')),
+      ')?;',
+    ].join('\n');
+    const comment = `// ${program.label}: ${instruction.name}`;
+
+    if (signerSeeds.length === 0) return indent(`${comment}\n${invocation}`, '    ');
+
+    const bindings = Array.from(new Set(signerSeeds.flatMap(seeds => seeds.bindings)));
+    return indent([
+      comment,
+      '{',
+      ...bindings.map(binding => `    ${binding}`),
+      `    let signer_seeds: &[&[&[u8]]] = &[${signerSeeds.map(seeds => seeds.seeds).join(', ')}];`,
+      indent(invocation, '    '),
+      '}',
+    ].join('\n'), '    ');
+  });
+
+const BUILT_IN_TEST_KEYS: Record<string, string> = {
+  system_program: 'anchor.web3.SystemProgram.programId',
+  rent: 'anchor.web3.SYSVAR_RENT_PUBKEY',
+};
+
+// Test statements giving the accounts only the target program reads an address; `fieldKey` gives the
+// test expression for the key of one of the caller's own fields
+export const cpiTestSetup = (calls: CpiCall[], caller: CpiCaller, fieldKey: (field: string) => string) => {
+  const setup: string[] = [];
+  const accounts: Record<string, string> = {};
+  const signers: string[] = [];
+  const keys = new Map<string, string>();
+
+  const keyOf = (field: string) => keys.get(field) || BUILT_IN_TEST_KEYS[field] || fieldKey(field);
+
+  resolvedCalls(calls, caller).forEach(({ program, instruction, accounts: resolved }) => {
+    // Anchor resolves the well-known programs from the IDL; an imported program's address has to be passed
+    if (program.kind === 'idl' && !keys.has(program.programField)) {
+      const variable = toCamelCase(program.programField);
+      accounts[variable] = `new anchor.web3.PublicKey("${program.address}")`;
+      keys.set(program.programField, accounts[variable]);
+    }
+
+    const passThrough = resolved.filter(({ source, target, field }) => source === 'passThrough' && !target.address && !keys.has(field));
+    // Derived addresses come last, their seeds may use the other accounts
+    [...passThrough.filter(({ target }) => !target.derive), ...passThrough.filter(({ target }) => target.derive)].forEach(({ target, field }) => {
+      const variable = toCamelCase(field);
+      if (target.derive) {
+        const seeds = target.derive.seeds.map(seed => {
+          if (seed.kind === 'literal') return `Buffer.from(${JSON.stringify(seed.value)})`;
+          if (seed.kind === 'address') return `new anchor.web3.PublicKey("${seed.address}").toBuffer()`;
+          const source = resolved.find(account => account.target.name === seed.name);
+          return `${source ? keyOf(source.field) : 'anchor.web3.PublicKey.default'}.toBuffer()`;
+        });
+        setup.push(`const [${variable}] = anchor.web3.PublicKey.findProgramAddressSync(
+        [${seeds.join(', ')}],
+        new anchor.web3.PublicKey("${target.derive.program}")
+      );`);
+        keys.set(field, variable);
+      } else if (target.signer) {
+        setup.push(`const ${variable} = anchor.web3.Keypair.generate();`);
+        // Writable signers usually pay for something in the target program
+        if (target.writable) {
+          setup.push(`await provider.connection.confirmTransaction(
+        await provider.connection.requestAirdrop(${variable}.publicKey, anchor.web3.LAMPORTS_PER_SOL),
+        "confirmed"
+      );`);
+        }
+        signers.push(variable);
+        keys.set(field, `${variable}.publicKey`);
+      } else {
+        setup.push(`// ${program.label} ${instruction.name} ${target.name} account: replace with its address
+      const ${variable} = anchor.web3.Keypair.generate().publicKey;`);
+        keys.set(field, variable);
+      }
+      accounts[variable] = keys.get(field)!;
+    });
+  });
+
+  return { setup, accounts, signers };
+};
+
+export const validateCpiNode = (node: CanvasNode): string[] => {
+  const target = getCpiTarget(node);
+  if (target.program !== 'idl') return [];
+  if (!target.idl) return ['load the IDL of the program to call'];
+  return validateProgramIdl(target.idl);
+};
+
+export const validateCpiCalls = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[], accountFields: string): string[] => {
+  const caller = cpiCaller(instruction, nodes, connections, accountFields);
+  const callerArgs = getInstructionArgs(instruction);
+
+  return connectedCpiCalls(instruction, nodes, connections).flatMap(call => {
+    if (!call.program) return [];
+    const label = `${instruction.name}: ${call.node.name}.${call.name}`;
+    if (!call.instruction) return [`${label}: ${call.program.label} has no instruction ${call.name}`];
+
+    const argErrors = call.instruction.args.flatMap(arg => {
+      const value = (call.invocation.args[arg.name] || '').trim();
+      if (!value) return [`${label}: argument ${arg.name} needs a value`];
+      const callerArg = callerArgs.find(a => toSnakeCase(a.name) === value);
+      if (callerArg && rustType(callerArg.type) !== arg.rustType) {
+        return [`${label}: ${arg.name} is ${arg.rustType} but args.${value} is ${rustType(callerArg.type)}`];
+      }
+      return [];
+    });
+
+    const accountErrors = call.instruction.accounts.flatMap(target => {
+      const ref = call.invocation.accounts[target.name];
+      if (!ref) return [];
+      if (ref === PAYER_REF && !usesSeparatePayer(instruction)) {
+        return [`${label}: ${target.name} is mapped to the payer, but the instruction has no separate payer`];
+      }
+      if (ref === AUTHORITY_SEED || ref === PAYER_REF) return [];
+
+      const account = caller.accounts.find(a => a.id === ref);
+      if (!account) return [`${label}: ${target.name} is mapped to an account not connected to the instruction`];
+      // A PDA signs through its seeds and a fresh keypair account signs the transaction
+      if (target.signer && !isPda(account) && !getAccountConstraints(instruction, account.id).init) {
+        return [`${label}: ${target.name} must sign, but ${account.name} is neither a PDA nor created by the instruction`];
+      }
+      return [];
+    });
+
+    return [...argErrors, ...accountErrors];
+  });
+};
+
+const cpiPrograms = (nodes: CanvasNode[]): CpiProgramInterface[] =>
+  nodes.filter(isCpiNode).flatMap(node => {
+    const program = cpiProgramFor(node);
+    return program ? [program] : [];
+  });
+
+// anchor-spl features the called programs need; undefined when none is an SPL program
+export const cpiSplFeatures = (nodes: CanvasNode[]): string[] | undefined => {
+  const programs = cpiPrograms(nodes).filter(program => program.splFeatures);
+  return programs.length > 0 ? Array.from(new Set(programs.flatMap(program => program.splFeatures!))) : undefined;
+};
+
+export const cpiClonePrograms = (nodes: CanvasNode[]): string[] =>
+  Array.from(new Set(cpiPrograms(nodes).filter(program => program.clone).map(program => program.address)));
+
+// IDLs that `declare_program!` reads from the workspace's idls/ directory
+export const declaredProgramIdls = (nodes: CanvasNode[]): { name: string; content: string }[] => {
+  const idls = new Map<string, string>();
+  nodes.filter(isCpiNode).forEach(node => {
+    const { idl } = getCpiTarget(node);
+    const program = cpiProgramFor(node);
+    if (idl && program?.declaredProgram) idls.set(program.declaredProgram, JSON.stringify(idl, null, 2));
+  });
+  return Array.from(idls, ([name, content]) => ({ name, content }));
+};
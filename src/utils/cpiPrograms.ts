@@ -0,0 +1,354 @@
+import type { Idl } from '@coral-xyz/anchor';
+import { CpiProgramKind } from '@/types/editor';
+import { IdlType, KNOWN_ADDRESSES } from './idl';
+import { toPascalCase } from './naming';
+
+// Programs and sysvars a caller declares once and every CPI shares
+export type BuiltInAccount = 'system_program' | 'token_program' | 'rent';
+
+export const BUILT_IN_ACCOUNT_FIELDS: Record<BuiltInAccount, string> = {
+  system_program: 'system_program: Program<\'info, System>',
+  token_program: 'token_program: Program<\'info, anchor_spl::token::Token>',
+  rent: 'rent: Sysvar<\'info, Rent>',
+};
+
+// Seeds of an account owned by another program, derived by the generated tests
+export type CpiSeedSource =
+  | { kind: 'literal'; value: string }
+  | { kind: 'address'; address: string }
+  // Key of another account of the same target instruction
+  | { kind: 'account'; name: string };
+
+export interface CpiAccountInterface {
+  name: string;
+  writable?: boolean;
+  signer?: boolean;
+  builtIn?: BuiltInAccount;
+  // Fixed address the target program expects
+  address?: string;
+  derive?: { seeds: CpiSeedSource[]; program: string };
+}
+
+export interface CpiArgInterface {
+  name: string;
+  rustType: string;
+}
+
+export interface CpiInstructionInterface {
+  name: string;
+  accountsStruct: string;
+  accounts: CpiAccountInterface[];
+  args: CpiArgInterface[];
+  // Values as passed to the CPI function, when they differ from `args` in shape or order
+  renderArgs?: (values: Record<string, string>) => string[];
+}
+
+export interface CpiProgramInterface {
+  kind: CpiProgramKind;
+  label: string;
+  address: string;
+  // Modules holding the CPI functions and their accounts structs
+  cpiModule: string;
+  accountsModule: string;
+  // Field and type of the program account in the caller's accounts struct
+  programField: string;
+  programType: string;
+  // Present when the CPI needs anchor-spl, listing the features it needs
+  splFeatures?: string[];
+  // Mainnet program the local validator must clone for the generated tests
+  clone?: boolean;
+  // Module name given to `declare_program!` (IDL programs)
+  declaredProgram?: string;
+  instructions: CpiInstructionInterface[];
+}
+
+const account = (name: string, flags: Omit<CpiAccountInterface, 'name'> = {}): CpiAccountInterface => ({ name, ...flags });
+
+const TOKEN_INSTRUCTIONS: CpiInstructionInterface[] = [
+  {
+    name: 'transfer_checked',
+    accountsStruct: 'TransferChecked',
+    accounts: [account('from', { writable: true }), account('mint'), account('to', { writable: true }), account('authority', { signer: true })],
+    args: [{ name: 'amount', rustType: 'u64' }, { name: 'decimals', rustType: 'u8' }],
+  },
+  {
+    name: 'mint_to',
+    accountsStruct: 'MintTo',
+    accounts: [account('mint', { writable: true }), account('to', { writable: true }), account('authority', { signer: true })],
+    args: [{ name: 'amount', rustType: 'u64' }],
+  },
+  {
+    name: 'burn',
+    accountsStruct: 'Burn',
+    accounts: [account('mint', { writable: true }), account('from', { writable: true }), account('authority', { signer: true })],
+    args: [{ name: 'amount', rustType: 'u64' }],
+  },
+  {
+    name: 'approve',
+    accountsStruct: 'Approve',
+    accounts: [account('to', { writable: true }), account('delegate'), account('authority', { signer: true })],
+    args: [{ name: 'amount', rustType: 'u64' }],
+  },
+  {
+    name: 'revoke',
+    accountsStruct: 'Revoke',
+    accounts: [account('source', { writable: true }), account('authority', { signer: true })],
+    args: [],
+  },
+  {
+    name: 'close_account',
+    accountsStruct: 'CloseAccount',
+    accounts: [account('account', { writable: true }), account('destination', { writable: true }), account('authority', { signer: true })],
+    args: [],
+  },
+  {
+    name: 'freeze_account',
+    accountsStruct: 'FreezeAccount',
+    accounts: [account('account', { writable: true }), account('mint'), account('authority', { signer: true })],
+    args: [],
+  },
+  {
+    name: 'thaw_account',
+    accountsStruct: 'ThawAccount',
+    accounts: [account('account', { writable: true }), account('mint'), account('authority', { signer: true })],
+    args: [],
+  },
+];
+
+const METADATA_SEEDS: CpiSeedSource[] = [
+  { kind: 'literal', value: 'metadata' },
+  { kind: 'address', address: KNOWN_ADDRESSES.Metadata },
+  { kind: 'account', name: 'mint' },
+];
+
+export const CPI_PROGRAMS: Record<Exclude<CpiProgramKind, 'idl'>, CpiProgramInterface> = {
+  system: {
+    kind: 'system',
+    label: 'System Program',
+    address: KNOWN_ADDRESSES.System,
+    cpiModule: 'anchor_lang::system_program',
+    accountsModule: 'anchor_lang::system_program',
+    programField: 'system_program',
+    programType: 'System',
+    instructions: [
+      {
+        name: 'transfer',
+        accountsStruct: 'Transfer',
+        accounts: [account('from', { writable: true, signer: true }), account('to', { writable: true })],
+        args: [{ name: 'lamports', rustType: 'u64' }],
+      },
+      {
+        name: 'create_account',
+        accountsStruct: 'CreateAccount',
+        accounts: [account('from', { writable: true, signer: true }), account('to', { writable: true, signer: true })],
+        args: [{ name: 'lamports', rustType: 'u64' }, { name: 'space', rustType: 'u64' }, { name: 'owner', rustType: 'Pubkey' }],
+        renderArgs: values => [values.lamports, values.space, `&${values.owner}`],
+      },
+      {
+        name: 'assign',
+        accountsStruct: 'Assign',
+        accounts: [account('account_to_assign', { writable: true, signer: true })],
+        args: [{ name: 'owner', rustType: 'Pubkey' }],
+      },
+      {
+        name: 'allocate',
+        accountsStruct: 'Allocate',
+        accounts: [account('account_to_allocate', { writable: true, signer: true })],
+        args: [{ name: 'space', rustType: 'u64' }],
+      },
+    ],
+  },
+  token: {
+    kind: 'token',
+    label: 'SPL Token',
+    address: KNOWN_ADDRESSES.Token,
+    cpiModule: 'anchor_spl::token',
+    accountsModule: 'anchor_spl::token',
+    programField: 'token_program',
+    programType: 'anchor_spl::token::Token',
+    splFeatures: [],
+    instructions: [
+      {
+        name: 'transfer',
+        accountsStruct: 'Transfer',
+        accounts: [account('from', { writable: true }), account('to', { writable: true }), account('authority', { signer: true })],
+        args: [{ name: 'amount', rustType: 'u64' }],
+      },
+      ...TOKEN_INSTRUCTIONS,
+    ],
+  },
+  token2022: {
+    kind: 'token2022',
+    label: 'Token-2022',
+    address: KNOWN_ADDRESSES.Token2022,
+    cpiModule: 'anchor_spl::token_2022',
+    accountsModule: 'anchor_spl::token_2022',
+    programField: 'token_2022_program',
+    programType: 'anchor_spl::token_2022::Token2022',
+    splFeatures: [],
+    instructions: TOKEN_INSTRUCTIONS,
+  },
+  associatedToken: {
+    kind: 'associatedToken',
+    label: 'Associated Token',
+    address: KNOWN_ADDRESSES.AssociatedToken,
+    cpiModule: 'anchor_spl::associated_token',
+    accountsModule: 'anchor_spl::associated_token',
+    programField: 'associated_token_program',
+    programType: 'anchor_spl::associated_token::AssociatedToken',
+    splFeatures: [],
+    instructions: ['create', 'create_idempotent'].map(name => ({
+      name,
+      accountsStruct: 'Create',
+      accounts: [
+        account('payer', { writable: true, signer: true }),
+        account('associated_token', {
+          writable: true,
+          derive: {
+            seeds: [{ kind: 'account', name: 'authority' }, { kind: 'address', address: KNOWN_ADDRESSES.Token }, { kind: 'account', name: 'mint' }],
+            program: KNOWN_ADDRESSES.AssociatedToken,
+          },
+        }),
+        account('authority'),
+        account('mint'),
+        account('system_program', { builtIn: 'system_program' }),
+        account('token_program', { builtIn: 'token_program' }),
+      ],
+      args: [],
+    })),
+  },
+  metadata: {
+    kind: 'metadata',
+    label: 'Metaplex Token Metadata',
+    address: KNOWN_ADDRESSES.Metadata,
+    cpiModule: 'anchor_spl::metadata',
+    accountsModule: 'anchor_spl::metadata',
+    programField: 'token_metadata_program',
+    programType: 'anchor_spl::metadata::Metadata',
+    splFeatures: ['metadata'],
+    clone: true,
+    instructions: [
+      {
+        name: 'create_metadata_accounts_v3',
+        accountsStruct: 'CreateMetadataAccountsV3',
+        accounts: [
+          account('metadata', { writable: true, derive: { seeds: METADATA_SEEDS, program: KNOWN_ADDRESSES.Metadata } }),
+          account('mint'),
+          account('mint_authority', { signer: true }),
+          account('payer', { writable: true, signer: true }),
+          account('update_authority', { signer: true }),
+          account('system_program', { builtIn: 'system_program' }),
+          account('rent', { builtIn: 'rent' }),
+        ],
+        args: [
+          { name: 'name', rustType: 'String' },
+          { name: 'symbol', rustType: 'String' },
+          { name: 'uri', rustType: 'String' },
+          { name: 'seller_fee_basis_points', rustType: 'u16' },
+        ],
+        renderArgs: values => [
+          `anchor_spl::metadata::mpl_token_metadata::types::DataV2 {
+    name: ${values.name},
+    symbol: ${values.symbol},
+    uri: ${values.uri},
+    seller_fee_basis_points: ${values.seller_fee_basis_points},
+    creators: None,
+    collection: None,
+    uses: None,
+}`,
+          'true',
+          'true',
+          'None',
+        ],
+      },
+      {
+        name: 'create_master_edition_v3',
+        accountsStruct: 'CreateMasterEditionV3',
+        accounts: [
+          account('edition', {
+            writable: true,
+            derive: { seeds: [...METADATA_SEEDS, { kind: 'literal', value: 'edition' }], program: KNOWN_ADDRESSES.Metadata },
+          }),
+          account('mint', { writable: true }),
+          account('update_authority', { signer: true }),
+          account('mint_authority', { signer: true }),
+          account('payer', { writable: true, signer: true }),
+          account('metadata', { writable: true, derive: { seeds: METADATA_SEEDS, program: KNOWN_ADDRESSES.Metadata } }),
+          account('token_program', { builtIn: 'token_program' }),
+          account('system_program', { builtIn: 'system_program' }),
+          account('rent', { builtIn: 'rent' }),
+        ],
+        args: [{ name: 'max_supply', rustType: 'Option<u64>' }],
+      },
+    ],
+  },
+};
+
+const BUILT_IN_ADDRESSES: Record<string, BuiltInAccount> = {
+  [KNOWN_ADDRESSES.System]: 'system_program',
+  [KNOWN_ADDRESSES.Token]: 'token_program',
+  [KNOWN_ADDRESSES.Rent]: 'rent',
+};
+
+// Rust type `declare_program!` generates for an IDL type
+const idlRustType = (type: IdlType, programName: string): string => {
+  if (typeof type === 'string') {
+    if (type === 'pubkey') return 'Pubkey';
+    if (type === 'string') return 'String';
+    if (type === 'bytes') return 'Vec<u8>';
+    return type;
+  }
+  if ('vec' in type) return `Vec<${idlRustType(type.vec, programName)}>`;
+  if ('option' in type) return `Option<${idlRustType(type.option, programName)}>`;
+  if ('coption' in type) return `Option<${idlRustType(type.coption, programName)}>`;
+  if ('array' in type) return `[${idlRustType(type.array[0], programName)}; ${type.array[1]}]`;
+  if ('defined' in type) return `crate::${programName}::types::${type.defined.name}`;
+  return 'unknown';
+};
+
+// Interface of an Anchor program from its IDL, called through the module `declare_program!` generates.
+// Instructions with nested account groups are left out, their accounts structs cannot be filled field by field
+export const idlProgramInterface = (idl: Idl): CpiProgramInterface => {
+  const name = idl.metadata.name;
+  return {
+    kind: 'idl',
+    label: name,
+    address: idl.address,
+    cpiModule: `crate::${name}::cpi`,
+    accountsModule: `crate::${name}::cpi::accounts`,
+    programField: `${name}_program`,
+    programType: `crate::${name}::program::${toPascalCase(name)}`,
+    clone: true,
+    declaredProgram: name,
+    instructions: idl.instructions
+      .filter(instruction => instruction.accounts.every(item => !('accounts' in item)))
+      .map(instruction => ({
+        name: instruction.name,
+        accountsStruct: toPascalCase(instruction.name),
+        accounts: instruction.accounts.flatMap(item => 'accounts' in item ? [] : [{
+          name: item.name,
+          writable: item.writable,
+          signer: item.signer,
+          ...(item.address && BUILT_IN_ADDRESSES[item.address] ? { builtIn: BUILT_IN_ADDRESSES[item.address] } : {}),
+          ...(item.address && !BUILT_IN_ADDRESSES[item.address] ? { address: item.address } : {}),
+        }]),
+        args: instruction.args.map(arg => ({ name: arg.name, rustType: idlRustType(arg.type, name) })),
+      })),
+  };
+};
+
+// Problems that keep an uploaded file from being used as a CPI target
+export const validateProgramIdl = (idl: unknown): string[] => {
+  const candidate = idl as Partial<Idl> | undefined;
+  if (!candidate || typeof candidate !== 'object') return ['IDL is not a JSON object'];
+  if (!candidate.metadata?.spec) return ['IDL predates Anchor 0.30; regenerate it with a current anchor build'];
+  if (!candidate.address) return ['IDL has no program address'];
+  if (!/^[a-z][a-z0-9_]*$/.test(candidate.metadata.name || '')) return ['IDL program name must be snake_case'];
+  if (!Array.isArray(candidate.instructions) || candidate.instructions.length === 0) return ['IDL has no instructions'];
+  return [];
+};
+
+export const getCpiProgram = (kind: CpiProgramKind, idl?: Idl): CpiProgramInterface | undefined => {
+  if (kind !== 'idl') return CPI_PROGRAMS[kind];
+  return idl && validateProgramIdl(idl).length === 0 ? idlProgramInterface(idl) : undefined;
+};
@@ -0,0 +1,215 @@
+import { CanvasNode, InstructionArg } from '@/types/editor';
+import { toSnakeCase } from './naming';
+
+// What a node's custom code block can use. The block is spliced into the handler after argument
+// checks, account initialization and template logic, and before CPI calls, counter updates and
+// event emits. `ctx`, the arguments by name, `ErrorCode` and the program's account types are in scope
+export interface CustomCodeScope {
+  accounts: string[];
+  args: string[];
+  // Bindings of the template logic that runs before the block in the same scope
+  locals: string[];
+}
+
+export const customCodeScope = (accountFields: string, args: InstructionArg[], templateBody = ''): CustomCodeScope => ({
+  accounts: Array.from(new Set(Array.from(accountFields.matchAll(/pub (\w+):/g)).map(match => match[1]))),
+  // Handler parameters are snake_case, as `renderArgParameters` declares them
+  args: args.map(arg => toSnakeCase(arg.name)),
+  locals: Array.from(boundNames(scanCode(templateBody).masked)),
+});
+
+export const hasCustomCode = (node: CanvasNode): boolean => !!node.code?.trim();
+
+// Program-level pieces that generated code already provides, with what to do instead
+const MODULE_LEVEL_ITEMS: Array<{ pattern: RegExp; message: string }> = [
+  { pattern: /^\s*declare_id!/, message: '`declare_id!` is generated from the program settings' },
+  { pattern: /^\s*#\[program\]/, message: '`#[program]` is generated; the block is the body of this handler' },
+  { pattern: /^\s*#\[derive\([^)]*\bAccounts\b/, message: 'accounts structs are generated from the connected accounts' },
+  { pattern: /^\s*#\[account\b/, message: 'account types are generated from account nodes' },
+  { pattern: /^\s*(pub\s+)?mod\s/, message: 'modules cannot be declared inside a handler' },
+  { pattern: /^\s*(pub\s+)?fn\s+\w+\s*(<[^>]*>)?\s*\(\s*ctx\s*:/, message: 'the handler signature is generated; write only its body' },
+];
+
+const CLOSING: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Lowercase words that are not variables: keywords, primitive types, `ctx` and the `_` pattern
+const RUST_WORDS = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false', 'fn',
+  'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'static',
+  'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while',
+  'bool', 'char', 'str', 'u8', 'u16', 'u32', 'u64', 'u128', 'usize', 'i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'f32', 'f64',
+  'ctx', '_',
+]);
+
+// A lowercase name used as a value: not a field, method, path segment, call, macro or `name: ...` label
+const VALUE_NAME = /(?<![\w.'])(?<!::)([a-z_][a-z0-9_]*)\b(?!\s*[(!:])/g;
+
+const ATTRIBUTE = /#!?\[[^\]]*\]/g;
+
+// Names the code binds: `let` and `for` patterns, closure parameters and match arm patterns. Loose on
+// purpose, so a name bound anywhere counts as bound everywhere
+const boundNames = (masked: string): Set<string> => {
+  const patterns = [
+    ...Array.from(masked.matchAll(/\blet\s+([^=;]*)[=;]/g)),
+    ...Array.from(masked.matchAll(/\bfor\s+([\s\S]*?)\s+in\b/g)),
+    ...Array.from(masked.matchAll(/\|([^|]*)\|/g)),
+    ...Array.from(masked.matchAll(/^([^\n]*?)=>/gm)),
+  ].map(match => match[1]);
+  return new Set(patterns.flatMap(pattern => pattern.match(/\b[a-z_][a-z0-9_]*\b/g) || []));
+};
+
+interface ScannedCode {
+  // Source with comments and literal contents blanked out, so checks only see code
+  masked: string;
+  // Bracket depth at the start of each line
+  lineDepths: number[];
+  problems: string[];
+}
+
+// Walks the snippet like the Rust lexer would for comments, strings, chars and brackets
+const scanCode = (code: string): ScannedCode => {
+  const problems: string[] = [];
+  const masked: string[] = [];
+  const lineDepths = [0];
+  const stack: Array<{ bracket: string; line: number }> = [];
+  let line = 1;
+  let i = 0;
+
+  const blank = (end: number) => {
+    for (; i < end; i++) {
+      if (code[i] === '\n') {
+        masked.push('\n');
+        line++;
+        lineDepths.push(stack.length);
+      } else {
+        masked.push(' ');
+      }
+    }
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+    const rest = code.slice(i);
+    const startLine = line;
+
+    if (rest.startsWith('//')) {
+      const end = code.indexOf('\n', i);
+      blank(end === -1 ? code.length : end);
+    } else if (rest.startsWith('/*')) {
+      let depth = 0;
+      let end = i;
+      while (end < code.length) {
+        if (code.startsWith('/*', end)) {
+          depth++;
+          end += 2;
+        } else if (code.startsWith('*/', end)) {
+          depth--;
+          end += 2;
+          if (depth === 0) break;
+        } else {
+          end++;
+        }
+      }
+      if (depth > 0) problems.push(`line ${startLine}: block comment is never closed`);
+      blank(end);
+    } else if (/^b?r#*"/.test(rest) && !/\w/.test(code[i - 1] || '')) {
+      const hashes = rest.match(/^b?r(#*)"/)![1];
+      const open = rest.indexOf('"') + 1;
+      const close = code.indexOf(`"${hashes}`, i + open);
+      if (close === -1) problems.push(`line ${startLine}: raw string is never closed`);
+      masked.push('"');
+      i++;
+      blank(close === -1 ? code.length : close + 1 + hashes.length);
+    } else if (char === '"' || (rest.startsWith('b"') && !/\w/.test(code[i - 1] || ''))) {
+      let end = i + (char === '"' ? 1 : 2);
+      while (end < code.length && code[end] !== '"') end += code[end] === '\\' ? 2 : 1;
+      if (end >= code.length) problems.push(`line ${startLine}: string is never closed`);
+      masked.push('"');
+      i++;
+      blank(Math.min(end + 1, code.length));
+    } else if (char === '\'') {
+      // A char literal, or else a lifetime such as 'info
+      const literal = rest.match(/^'(\\(u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^'\\\n])'/);
+      if (literal) {
+        masked.push('\'');
+        i++;
+        blank(i + literal[0].length - 1);
+      } else {
+        masked.push(char);
+        i++;
+      }
+    } else {
+      if ('([{'.includes(char)) {
+        stack.push({ bracket: char, line });
+      } else if (CLOSING[char]) {
+        const open = stack.pop();
+        if (!open) {
+          problems.push(`line ${line}: \`${char}\` has no matching opening bracket`);
+        } else if (open.bracket !== CLOSING[char]) {
+          problems.push(`line ${line}: \`${char}\` closes the \`${open.bracket}\` opened on line ${open.line}`);
+        }
+      }
+      if (char === '\n') {
+        line++;
+        lineDepths.push(stack.length);
+      }
+      masked.push(char);
+      i++;
+    }
+  }
+
+  stack.forEach(open => problems.push(`line ${open.line}: \`${open.bracket}\` is never closed`));
+  return { masked: masked.join(''), lineDepths, problems };
+};
+
+// Syntax problems and uses of things the handler does not have, as "line N: ..." messages
+export const validateCustomCode = (code: string, scope: CustomCodeScope): string[] => {
+  if (!code.trim()) return [];
+
+  const { masked, lineDepths, problems } = scanCode(code);
+  // Bracket problems make the checks below unreliable
+  if (problems.length > 0) return problems;
+
+  const lines = masked.split('\n');
+  lines.forEach((text, index) => {
+    if (lineDepths[index] !== 0) return;
+    const item = MODULE_LEVEL_ITEMS.find(({ pattern }) => pattern.test(text));
+    if (item) problems.push(`line ${index + 1}: ${item.message}`);
+  });
+
+  lines.forEach((text, index) => {
+    Array.from(text.matchAll(/\bctx\.accounts\.(\w+)/g)).forEach(match => {
+      if (!scope.accounts.includes(match[1])) {
+        problems.push(`line ${index + 1}: ctx.accounts.${match[1]} is not an account of this instruction`);
+      }
+    });
+  });
+
+  // Arguments are in scope by name; any other variable must be bound by the block or the template
+  const known = new Set([...scope.args, ...scope.locals, ...boundNames(masked)]);
+  lines.forEach((text, index) => {
+    Array.from(text.replace(ATTRIBUTE, '').matchAll(VALUE_NAME)).forEach(match => {
+      if (!RUST_WORDS.has(match[1]) && !known.has(match[1])) {
+        problems.push(`line ${index + 1}: \`${match[1]}\` is not an argument of this instruction or a local binding`);
+      }
+    });
+  });
+
+  // The handler returns Ok(()) after the block, so it cannot end in a value
+  const last = masked.trimEnd().slice(-1);
+  if (last && last !== ';' && last !== '}') {
+    problems.push(`line ${masked.trimEnd().split('\n').length}: the block must end with a statement (\`;\` or \`}\`)`);
+  }
+
+  return Array.from(new Set(problems));
+};
+
+// Indented for the handler body, with the snippet's own common indentation removed
+export const renderCustomCode = (code: string): string => {
+  const lines = code.replace(/\t/g, '    ').split('\n');
+  const first = lines.findIndex(line => line.trim());
+  const last = lines.length - 1 - [...lines].reverse().findIndex(line => line.trim());
+  const body = lines.slice(first, last + 1);
+  const indent = Math.min(...body.filter(line => line.trim()).map(line => line.match(/^ */)![0].length));
+  return body.map(line => line.trim() ? `    ${line.slice(indent).trimEnd()}` : '').join('\n');
+};
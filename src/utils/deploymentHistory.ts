@@ -0,0 +1,77 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { CanvasNode, Connection } from '@/types/editor';
+import { DeploymentGraph } from '@/types/deployment';
+import { WorkspaceFile } from './workspaceExport';
+
+type GraphNode = DeploymentGraph['nodes'][number];
+
+export interface NodeChange {
+  before: GraphNode;
+  after: GraphNode;
+  // Node properties whose values differ, e.g. `name`, `args` or `code`
+  properties: string[];
+}
+
+export interface GraphDiff {
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  changedNodes: NodeChange[];
+  addedConnections: Connection[];
+  removedConnections: Connection[];
+}
+
+// Properties that only place or style the node on the canvas, not the program it generates
+const LAYOUT_PROPERTIES = ['id', 'x', 'y', 'width', 'height', 'color'];
+
+export const snapshotGraph = (nodes: CanvasNode[], connections: Connection[]): DeploymentGraph => ({
+  nodes: nodes.map(({ icon: _icon, ...node }) => node),
+  connections: connections.map(connection => ({ ...connection })),
+});
+
+// sha256 of every file's path and content in path order, so the same workspace always hashes alike
+export const sourceHash = (files: WorkspaceFile[]): string =>
+  bytesToHex(sha256(new TextEncoder().encode(
+    [...files]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(file => `${file.path}\n${file.content}`)
+      .join('\0')
+  )));
+
+// Connections are compared by the ports they join, since reconnecting the same ports creates a new id
+const connectionKey = (connection: Connection): string =>
+  `${connection.sourceNodeId}:${connection.sourcePortId}->${connection.targetNodeId}:${connection.targetPortId}`;
+
+const changedProperties = (before: GraphNode, after: GraphNode): string[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => !LAYOUT_PROPERTIES.includes(key))
+    .filter(key =>
+      JSON.stringify(before[key as keyof GraphNode]) !== JSON.stringify(after[key as keyof GraphNode])
+    );
+
+// What changed in the program's graph from one release to a later one
+export const diffGraphs = (from: DeploymentGraph, to: DeploymentGraph): GraphDiff => {
+  const fromNodes = new Map(from.nodes.map(node => [node.id, node]));
+  const toNodes = new Map(to.nodes.map(node => [node.id, node]));
+  const fromConnections = new Set(from.connections.map(connectionKey));
+  const toConnections = new Set(to.connections.map(connectionKey));
+
+  return {
+    addedNodes: to.nodes.filter(node => !fromNodes.has(node.id)),
+    removedNodes: from.nodes.filter(node => !toNodes.has(node.id)),
+    changedNodes: to.nodes.flatMap(after => {
+      const before = fromNodes.get(after.id);
+      const properties = before ? changedProperties(before, after) : [];
+      return before && properties.length > 0 ? [{ before, after, properties }] : [];
+    }),
+    addedConnections: to.connections.filter(connection => !fromConnections.has(connectionKey(connection))),
+    removedConnections: from.connections.filter(connection => !toConnections.has(connectionKey(connection))),
+  };
+};
+
+// "Deposit → Vault", naming nodes from whichever release still has them
+export const describeConnection = (connection: Connection, ...graphs: DeploymentGraph[]): string => {
+  const name = (id: string) =>
+    graphs.flatMap(graph => graph.nodes).find(node => node.id === id)?.name || 'Removed node';
+  return `${name(connection.sourceNodeId)} → ${name(connection.targetNodeId)}`;
+};
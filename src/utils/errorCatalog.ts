@@ -0,0 +1,107 @@
+import { CanvasNode } from '@/types/editor';
+import { ProgramErrorDefinition } from '@/types/project';
+import { getInstructionArgs } from './instructionArgs';
+import { toSnakeCase } from './naming';
+
+// Anchor reserves codes below this for its own errors
+export const ERROR_CODE_OFFSET = 6000;
+
+const ERROR_NAME = /^[A-Z][A-Za-z0-9]*$/;
+
+// Errors the generated code returns on its own, emitted even when the catalog lacks them
+export const BUILT_IN_ERROR_MESSAGES: Record<string, string> = {
+  Unauthorized: 'Unauthorized access',
+  InvalidProgramFlow: 'Invalid program flow',
+};
+
+export interface ProgramError {
+  name: string;
+  msg: string;
+  code: number;
+  // Explicit enum discriminant, present when the catalog pins the offset
+  offset?: number;
+}
+
+// Catalog entries in order, then any built-in error the code needs but the catalog does not define.
+// Codes follow Rust's discriminant rules: pinned offsets reset the count, the rest continue from there.
+export const resolveProgramErrors = (catalog: ProgramErrorDefinition[], required: string[] = []): ProgramError[] => {
+  const definitions = [
+    ...catalog.map(error => ({ name: error.name, msg: error.message, offset: error.offset })),
+    ...Array.from(new Set(required))
+      .filter(name => !catalog.some(error => error.name === name))
+      .map(name => ({ name, msg: BUILT_IN_ERROR_MESSAGES[name] || name, offset: undefined })),
+  ];
+
+  let next = 0;
+  return definitions.map(definition => {
+    const discriminant = definition.offset ?? next;
+    next = discriminant + 1;
+    return {
+      name: definition.name,
+      msg: definition.msg,
+      code: ERROR_CODE_OFFSET + discriminant,
+      ...(definition.offset !== undefined ? { offset: definition.offset } : {}),
+    };
+  });
+};
+
+export const renderErrorEnum = (errors: ProgramError[]): string => `#[error_code]
+pub enum ErrorCode {
+${errors.map(error => `    #[msg(${JSON.stringify(error.msg)})]
+    ${error.name}${error.offset !== undefined ? ` = ${error.offset}` : ''},`).join('\n')}
+}`;
+
+// Catalog errors named by custom constraints and argument checks, in first-use order
+export const collectErrorReferences = (instructionNodes: CanvasNode[]): string[] =>
+  Array.from(new Set(instructionNodes.flatMap(node => [
+    ...Object.values(node.accountConstraints || {}).flatMap(constraints =>
+      (constraints.custom || []).map(custom => custom.error)
+    ),
+    ...getInstructionArgs(node).flatMap(arg => arg.error ? [arg.error] : []),
+  ])));
+
+export const validateErrorCatalog = (catalog: ProgramErrorDefinition[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  catalog.forEach((error, index) => {
+    const label = error.name || `error ${index + 1}`;
+    if (!ERROR_NAME.test(error.name)) {
+      errors.push(`${label}: name must be a PascalCase identifier`);
+    } else if (seen.has(error.name)) {
+      errors.push(`${label}: defined more than once`);
+    }
+    seen.add(error.name);
+
+    if (!error.message.trim()) errors.push(`${label}: message is empty`);
+    if (error.offset !== undefined && (!Number.isInteger(error.offset) || error.offset < 0)) {
+      errors.push(`${label}: offset must be a non-negative integer`);
+    }
+  });
+
+  // Pinned offsets can collide with codes assigned to the errors before them
+  const codes = new Map<number, string>();
+  resolveProgramErrors(catalog).forEach(error => {
+    const previous = codes.get(error.code);
+    if (previous && previous !== error.name) {
+      errors.push(`${error.name}: code ${error.code} is already used by ${previous}`);
+    }
+    codes.set(error.code, error.name);
+  });
+
+  return errors;
+};
+
+// Every error a constraint or argument check refers to must exist in the catalog
+export const validateErrorReferences = (instructionNodes: CanvasNode[], catalog: ProgramErrorDefinition[]): string[] =>
+  instructionNodes.flatMap(node => {
+    const missing = (name: string) => !catalog.some(error => error.name === name);
+    const constraintErrors = Object.values(node.accountConstraints || {})
+      .flatMap(constraints => (constraints.custom || []).map(custom => custom.error))
+      .filter(missing)
+      .map(name => `${node.name}: constraint error ${name} is not defined in the error catalog`);
+    const argErrors = getInstructionArgs(node)
+      .filter(arg => arg.error && missing(arg.error))
+      .map(arg => `${node.name}: args.${toSnakeCase(arg.name)} error ${arg.error} is not defined in the error catalog`);
+    return [...constraintErrors, ...argErrors];
+  });
@@ -0,0 +1,242 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { AnchorError, AnchorProvider, BN, Program } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { IdlInstructionAccount, IdlInstructionAccountItem, IdlType, IdlTypeDef } from './idl';
+import { toCamelCase, toSnakeCase } from './naming';
+import { PUBLIC_ENDPOINTS } from './networks';
+import { runtimeTestValueFor } from './instructionArgs';
+import { getModuleEmitter, TestFixture } from './moduleEmitters';
+import { connectedAccountNodes, isPda, testArgsFor } from './pdaSeeds';
+import { getAccountConstraints } from './accountConstraints';
+import { instructionModuleName } from './codeGen';
+import { isInstructionNode } from './nodeKinds';
+import { CanvasNode, Connection as NodeConnection, InstructionArg } from '@/types/editor';
+import { RpcEndpoint } from '@/types/project';
+
+// Outcome of running one instruction, as reported by the runtime that executed it
+export interface ExecutionResult {
+  success: boolean;
+  signature?: string;
+  error?: string;
+  computeUnits?: number;
+  logs: string[];
+  // Not sent, because it needs state the engine cannot create; `error` says which
+  skipped?: boolean;
+}
+
+// What the graph adds to an instruction's IDL entry for running it
+export interface InstructionTestInputs {
+  // The node's arguments, whose defaults and bounds give values the program's checks accept
+  args: InstructionArg[];
+  // Creates the accounts the template expects to exist, as its generated test does
+  fixture?: TestFixture;
+  // Connected accounts the instruction reads but does not create; a fresh address holds no such state
+  existingAccounts: string[];
+}
+
+// Where test transactions run: a local validator over RPC, or an in-process runtime with the same contract
+export interface ExecutionEngine {
+  // Why the program's instructions cannot run, or null when they can
+  prepare(idl: Idl): Promise<string | null>;
+  execute(idl: Idl, instruction: string, inputs?: InstructionTestInputs): Promise<ExecutionResult>;
+}
+
+// Test inputs of the graph's instructions, by IDL instruction name
+export const instructionTestInputs = (nodes: CanvasNode[], connections: NodeConnection[]): Record<string, InstructionTestInputs> =>
+  Object.fromEntries(nodes.filter(isInstructionNode).map(node => [instructionModuleName(node), {
+    args: testArgsFor(node, nodes, connections),
+    fixture: getModuleEmitter(node)?.testFixture,
+    existingAccounts: connectedAccountNodes(node, nodes, connections)
+      .filter(account => !isPda(account) && !getAccountConstraints(node, account.id).init)
+      .map(account => account.name),
+  }]));
+
+// Signers every generated instruction pays and authorizes with; other signers are fresh keypairs
+export const WALLET_SIGNERS = ['authority', 'payer'];
+
+const SCALAR_TEST_VALUES: Record<string, unknown> = {
+  bool: false,
+  u8: 1, i8: 1, u16: 1, i16: 1, u32: 1, i32: 1, f32: 1, f64: 1,
+  string: 'test',
+};
+
+export const WIDE_INTEGERS = ['u64', 'i64', 'u128', 'i128', 'u256', 'i256'];
+
+export const flattenAccounts = (items: IdlInstructionAccountItem[]): IdlInstructionAccount[] =>
+  items.flatMap(item => 'accounts' in item ? flattenAccounts(item.accounts) : [item]);
+
+// A value of the type that encodes, so the instruction reaches the program's own checks
+const testValue = (type: IdlType, types: IdlTypeDef[], payer: PublicKey): unknown => {
+  if (typeof type === 'string') {
+    if (WIDE_INTEGERS.includes(type)) return new BN(1);
+    if (type === 'pubkey') return payer;
+    if (type === 'bytes') return new Uint8Array(0);
+    return SCALAR_TEST_VALUES[type];
+  }
+  if ('vec' in type) return [];
+  if ('option' in type || 'coption' in type) return null;
+  if ('array' in type) {
+    const [items, length] = type.array;
+    return typeof length === 'number' ? Array.from({ length }, () => testValue(items, types, payer)) : [];
+  }
+  if ('defined' in type) {
+    const def = types.find(t => t.name === type.defined.name);
+    if (def?.type.kind === 'struct') {
+      const fields = def.type.fields || [];
+      return fields.every(field => typeof field === 'object' && 'name' in field)
+        ? Object.fromEntries(fields.map(field => [toCamelCase(field.name), testValue(field.type, types, payer)]))
+        : fields.map(field => testValue(field as IdlType, types, payer));
+    }
+    if (def?.type.kind === 'enum' && def.type.variants.length > 0) {
+      return { [toCamelCase(def.type.variants[0].name)]: {} };
+    }
+  }
+  return undefined;
+};
+
+// Failure reason from the program's logs, falling back to the runtime's error value
+export const executionError = (logs: string[], err: unknown): string =>
+  AnchorError.parse(logs)?.error.errorMessage ||
+  logs.filter(line => line.startsWith('Program log: Error') || line.includes(' failed: ')).pop() ||
+  JSON.stringify(err);
+
+// Sends each instruction to an RPC node, usually `solana-test-validator`, and reads the result back
+// from the confirmed transaction so logs and compute units are the ones the runtime recorded
+export class RpcExecutionEngine implements ExecutionEngine {
+  private connection: Connection;
+  private payer = Keypair.generate();
+  private funded = false;
+
+  private endpoint: string;
+
+  constructor(endpoint: RpcEndpoint = { http: PUBLIC_ENDPOINTS.localnet }) {
+    this.endpoint = endpoint.http;
+    this.connection = new Connection(endpoint.http, { commitment: 'confirmed', wsEndpoint: endpoint.ws || undefined });
+  }
+
+  async prepare(idl: Idl): Promise<string | null> {
+    try {
+      await this.connection.getVersion();
+    } catch {
+      return `No validator at ${this.endpoint}. Start one with \`solana-test-validator\` or set VITE_LOCAL_RPC_URL.`;
+    }
+
+    const program = await this.connection.getAccountInfo(new PublicKey(idl.address));
+    if (!program?.executable) {
+      return `Program ${idl.address} is not deployed on ${this.endpoint}. Run \`anchor deploy\` from the exported workspace.`;
+    }
+
+    if (!this.funded) {
+      try {
+        const signature = await this.connection.requestAirdrop(this.payer.publicKey, 10 * LAMPORTS_PER_SOL);
+        await this.connection.confirmTransaction(signature, 'confirmed');
+        this.funded = true;
+      } catch (error) {
+        return `Could not fund the test wallet on ${this.endpoint}: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    return null;
+  }
+
+  async execute(idl: Idl, instruction: string, inputs?: InstructionTestInputs): Promise<ExecutionResult> {
+    const definition = idl.instructions.find(ix => ix.name === instruction);
+    if (!definition) {
+      return { success: false, error: `${instruction} is not an instruction of ${idl.metadata.name}`, logs: [] };
+    }
+
+    // Accounts created by another instruction get new addresses here, so the call could only fail
+    if (inputs && inputs.existingAccounts.length > 0) {
+      const needed = inputs.existingAccounts.length === 1
+        ? `an existing ${inputs.existingAccounts[0]} account`
+        : `existing ${inputs.existingAccounts.join(', ')} accounts`;
+      return {
+        success: false,
+        skipped: true,
+        error: `Not run: needs ${needed}, which the Test tab cannot create. ` +
+          'It only runs instructions that create or derive their accounts; run `anchor test` from the exported workspace for the rest.',
+        logs: [],
+      };
+    }
+
+    const payer = this.payer;
+    const provider = new AnchorProvider(this.connection, {
+      publicKey: payer.publicKey,
+      signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
+        if (tx instanceof Transaction) tx.partialSign(payer);
+        return tx;
+      },
+      signAllTransactions: async <T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> => {
+        txs.forEach(tx => {
+          if (tx instanceof Transaction) tx.partialSign(payer);
+        });
+        return txs;
+      },
+    }, { commitment: 'confirmed' });
+
+    let fixture: Record<string, PublicKey> = {};
+    if (inputs?.fixture) {
+      try {
+        fixture = await inputs.fixture(this.connection, payer);
+      } catch (error) {
+        return {
+          success: false,
+          error: `Could not create the accounts ${instruction} expects: ${error instanceof Error ? error.message : String(error)}`,
+          logs: [],
+        };
+      }
+    }
+
+    let signature: string;
+    try {
+      // Anchor fills PDAs, fixed addresses and wallet signers from the IDL; the template's prerequisites
+      // come from its fixture and the rest get new addresses
+      const accounts: Record<string, PublicKey> = { ...fixture };
+      const signers: Keypair[] = [];
+      flattenAccounts(definition.accounts)
+        .filter(account => !account.address && !account.pda && !WALLET_SIGNERS.includes(account.name))
+        .filter(account => !fixture[toCamelCase(account.name)])
+        .forEach(account => {
+          const keypair = Keypair.generate();
+          accounts[toCamelCase(account.name)] = keypair.publicKey;
+          if (account.signer) signers.push(keypair);
+        });
+
+      // The node's own defaults pass its bound checks; arguments it does not describe get any valid encoding
+      const args = definition.args.map(arg => {
+        const nodeArg = inputs?.args.find(other => toSnakeCase(other.name) === arg.name);
+        return nodeArg ? runtimeTestValueFor(nodeArg, payer.publicKey) : testValue(arg.type, idl.types || [], payer.publicKey);
+      });
+      const program = new Program(idl, provider);
+      const transaction = await program.methods[toCamelCase(instruction)](...args)
+        .accountsPartial(accounts)
+        .transaction();
+
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      transaction.feePayer = payer.publicKey;
+      transaction.recentBlockhash = blockhash;
+      transaction.sign(payer, ...signers);
+
+      // Skip preflight so failing transactions land too and keep their logs and compute units
+      signature = await this.connection.sendRawTransaction(transaction.serialize(), { skipPreflight: true });
+      await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error), logs: [] };
+    }
+
+    const confirmed = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    const logs = confirmed?.meta?.logMessages || [];
+    const err = confirmed?.meta?.err;
+
+    return {
+      success: !err,
+      signature,
+      error: err ? executionError(logs, err) : undefined,
+      computeUnits: confirmed?.meta?.computeUnitsConsumed,
+      logs,
+    };
+  }
+}
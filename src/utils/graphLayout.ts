@@ -0,0 +1,57 @@
+import { CanvasNode, Connection } from '@/types/editor';
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+
+// Layered left-to-right layout: each node sits one column right of its furthest predecessor, and a column
+// is ordered by the average row of the nodes feeding it so edges cross as little as a single pass allows
+export const layoutGraph = (
+  nodes: CanvasNode[],
+  connections: Connection[],
+  origin: { x: number; y: number } = { x: 100, y: 100 }
+): CanvasNode[] => {
+  const ids = new Set(nodes.map(node => node.id));
+  const edges = connections.filter(conn => ids.has(conn.sourceNodeId) && ids.has(conn.targetNodeId));
+  const predecessors = (id: string) => edges.filter(conn => conn.targetNodeId === id).map(conn => conn.sourceNodeId);
+
+  const layers = new Map<string, number>();
+  const layerOf = (id: string, path: Set<string>): number => {
+    if (layers.has(id)) return layers.get(id)!;
+    // Cycles are cut where they are entered
+    const layer = Math.max(-1, ...predecessors(id).filter(p => !path.has(p)).map(p => layerOf(p, new Set([...path, id])))) + 1;
+    layers.set(id, layer);
+    return layer;
+  };
+  nodes.forEach(node => layerOf(node.id, new Set()));
+
+  const columns: CanvasNode[][] = [];
+  nodes.forEach(node => {
+    const layer = layers.get(node.id)!;
+    columns[layer] = [...(columns[layer] || []), node];
+  });
+
+  const rows = new Map<string, number>();
+  const positioned = new Map<string, CanvasNode>();
+  let x = origin.x;
+
+  columns.forEach(column => {
+    const ordered = column
+      .map((node, index) => {
+        const rowsBefore = predecessors(node.id).map(id => rows.get(id)).filter((row): row is number => row !== undefined);
+        const rank = rowsBefore.length > 0 ? rowsBefore.reduce((sum, row) => sum + row, 0) / rowsBefore.length : index;
+        return { node, rank };
+      })
+      .sort((a, b) => a.rank - b.rank)
+      .map(({ node }) => node);
+
+    let y = origin.y;
+    ordered.forEach((node, index) => {
+      rows.set(node.id, index);
+      positioned.set(node.id, { ...node, x, y });
+      y += node.height + ROW_GAP;
+    });
+    x += Math.max(...column.map(node => node.width)) + COLUMN_GAP;
+  });
+
+  return nodes.map(node => positioned.get(node.id)!);
+};
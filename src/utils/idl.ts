@@ -0,0 +1,322 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { PublicKey } from '@solana/web3.js';
+import type { Idl } from '@coral-xyz/anchor';
+import { AccountField, CanvasNode, FieldType, InstructionArg } from '@/types/editor';
+import { ProjectSettings } from '@/types/project';
+import { collectNamedTypes, getAccountFields, isScalarKind } from './accountSchema';
+import { ProgramError } from './errorCatalog';
+import { eventStructName, getEventFields } from './programEvents';
+import { toSnakeCase, toTypeName } from './naming';
+
+// Anchor's package root only exports `Idl`, so the member types are derived from it
+export type IdlInstruction = Idl['instructions'][number];
+export type IdlInstructionAccountItem = IdlInstruction['accounts'][number];
+export type IdlInstructionAccount = Exclude<IdlInstructionAccountItem, { accounts: unknown }>;
+export type IdlPda = NonNullable<IdlInstructionAccount['pda']>;
+export type IdlSeed = IdlPda['seeds'][number];
+export type IdlField = IdlInstruction['args'][number];
+export type IdlType = IdlField['type'];
+export type IdlTypeDef = NonNullable<Idl['types']>[number];
+
+export const IDL_SPEC = '0.1.0';
+
+// Addresses of the programs and sysvars a generated accounts struct can name by type
+export const KNOWN_ADDRESSES: Record<string, string> = {
+  System: '11111111111111111111111111111111',
+  Token: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  Token2022: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+  AssociatedToken: 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+  Metadata: 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s',
+  Rent: 'SysvarRent111111111111111111111111111111111',
+  Clock: 'SysvarC1ock11111111111111111111111111111111',
+};
+
+export interface IdlInstructionSource {
+  name: string;
+  args: InstructionArg[];
+  // Field declarations of the instruction's `#[derive(Accounts)]` struct
+  accounts: string;
+  // Extra items emitted into the instruction file, e.g. template `#[account]` structs
+  definitions?: string;
+}
+
+export interface IdlSource {
+  settings: ProjectSettings;
+  instructions: IdlInstructionSource[];
+  // Account nodes whose struct lives in lib.rs
+  stateAccounts: CanvasNode[];
+  // Event nodes, each emitted as an `#[event]` struct in lib.rs
+  events: CanvasNode[];
+  errors: ProgramError[];
+}
+
+// First 8 bytes of sha256("<namespace>:<name>"), as Anchor derives them
+export const discriminator = (namespace: 'global' | 'account' | 'event', name: string): number[] =>
+  Array.from(sha256(new TextEncoder().encode(`${namespace}:${name}`)).slice(0, 8));
+
+export const idlType = (type: FieldType): IdlType => {
+  switch (type.kind) {
+    case 'string':
+      return 'string';
+    case 'vec':
+      return type.items.kind === 'u8' ? 'bytes' : { vec: idlType(type.items) };
+    case 'struct':
+    case 'enum':
+      return { defined: { name: toTypeName(type.name) } };
+    default:
+      return type.kind;
+  }
+};
+
+const idlFields = (fields: AccountField[]): IdlField[] =>
+  fields.map(field => ({ name: toSnakeCase(field.name), type: idlType(field.type) }));
+
+const idlTypeDef = (type: FieldType): IdlTypeDef | undefined => {
+  if (type.kind === 'struct') {
+    return { name: toTypeName(type.name), type: { kind: 'struct', fields: idlFields(type.fields) } };
+  }
+  if (type.kind === 'enum') {
+    return {
+      name: toTypeName(type.name),
+      type: {
+        kind: 'enum',
+        variants: type.variants.map(variant => variant.fields && variant.fields.length > 0
+          ? { name: toTypeName(variant.name), fields: idlFields(variant.fields) }
+          : { name: toTypeName(variant.name) }),
+      },
+    };
+  }
+  return undefined;
+};
+
+// Split on commas that are not nested inside brackets, parentheses or strings
+const splitTopLevel = (source: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of source) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && '([{'.includes(char)) depth++;
+    if (!quoted && ')]}'.includes(char)) depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Rust type as written in a generated struct, e.g. `Vec<Pubkey>`
+const parseRustType = (source: string): IdlType => {
+  const type = source.trim();
+  const generic = type.match(/^(Vec|Option)<(.+)>$/);
+  if (generic) {
+    if (generic[1] === 'Vec') return generic[2].trim() === 'u8' ? 'bytes' : { vec: parseRustType(generic[2]) };
+    return { option: parseRustType(generic[2]) };
+  }
+  const array = type.match(/^\[(.+);\s*(\d+)\]$/);
+  if (array) return { array: [parseRustType(array[1]), Number(array[2])] };
+  if (type === 'Pubkey') return 'pubkey';
+  if (type === 'String') return 'string';
+  if (isScalarKind(type) || type === 'f32' || type === 'f64') return type as IdlType;
+  return { defined: { name: type } };
+};
+
+// `#[account]` structs declared in Rust source, e.g. a template's state account
+const parseAccountStructs = (source: string): IdlTypeDef[] =>
+  Array.from(source.matchAll(/#\[account\][\s\S]*?pub struct (\w+) \{([\s\S]*?)\n\}/g)).map(match => ({
+    name: match[1],
+    type: {
+      kind: 'struct',
+      fields: Array.from(match[2].matchAll(/^\s*pub (\w+): (.+),$/gm))
+        .map(field => ({ name: field[1], type: parseRustType(field[2]) })),
+    },
+  }));
+
+const seedBytes = (value: string): number[] => Array.from(new TextEncoder().encode(value));
+
+const parseSeed = (source: string, argNames: Set<string>): IdlSeed | undefined => {
+  const literal = source.match(/^b"(.*)"$/);
+  if (literal) return { kind: 'const', value: seedBytes(literal[1]) };
+
+  const key = source.match(/^(\w+)\.key\(\)(\.as_ref\(\))?$/);
+  if (key) return { kind: 'account', path: key[1] };
+
+  const value = source.match(/^(\w+)\.(as_bytes\(\)|as_ref\(\)|to_le_bytes\(\)\.as_ref\(\))$/) ||
+    source.match(/^&\[(\w+) as u8\]$/);
+  if (value && argNames.has(value[1])) return { kind: 'arg', path: value[1] };
+
+  return undefined;
+};
+
+const constantAccountSeed = (address: string): IdlSeed =>
+  ({ kind: 'const', value: Array.from(new PublicKey(address).toBytes()) });
+
+// Seeds the client can derive on its own; undefined when any seed is an arbitrary expression
+const parsePda = (constraints: string[], argNames: Set<string>): IdlPda | undefined => {
+  const find = (prefix: string) => constraints.find(c => c.startsWith(prefix))?.slice(prefix.length).trim();
+
+  // Associated token accounts are PDAs of the associated token program
+  const ataMint = find('associated_token::mint =');
+  const ataAuthority = find('associated_token::authority =');
+  if (ataMint && ataAuthority) {
+    return {
+      seeds: [
+        { kind: 'account', path: ataAuthority },
+        constantAccountSeed(KNOWN_ADDRESSES.Token),
+        { kind: 'account', path: ataMint },
+      ],
+      program: constantAccountSeed(KNOWN_ADDRESSES.AssociatedToken),
+    };
+  }
+
+  const seeds = find('seeds =');
+  if (!seeds || !seeds.startsWith('[') || !seeds.endsWith(']')) return undefined;
+  const parsed = splitTopLevel(seeds.slice(1, -1)).map(seed => parseSeed(seed, argNames));
+  if (parsed.some(seed => !seed)) return undefined;
+
+  const programSource = find('seeds::program =');
+  const program = programSource ? parseSeed(programSource, argNames) : undefined;
+  if (programSource && !program) return undefined;
+
+  return { seeds: parsed as IdlSeed[], ...(program ? { program } : {}) };
+};
+
+const ACCOUNTS_FIELD = /(?:#\[account\(([\s\S]*?)\)\]\n\s*)?pub (\w+): (.+),$/gm;
+
+// Read the IDL view of each account back from the rendered `#[derive(Accounts)]` fields,
+// so the IDL cannot drift from the Rust that is actually compiled
+export const parseInstructionAccounts = (accounts: string, args: InstructionArg[]): IdlInstructionAccount[] => {
+  const argNames = new Set(args.map(arg => toSnakeCase(arg.name)));
+
+  return Array.from(accounts.matchAll(ACCOUNTS_FIELD)).map(match => {
+    const constraints = match[1] ? splitTopLevel(match[1]) : [];
+    const name = match[2];
+    const declaration = match[3].trim();
+    const optional = declaration.startsWith('Option<');
+    // Program types may be paths, e.g. `anchor_spl::metadata::Metadata`
+    const wrapper = declaration.match(/^(?:Option<)?(?:Box<)?(\w+)<'info(?:,\s*(?:\w+::)*(\w+))?>/);
+    const kind = wrapper?.[1];
+    const inner = wrapper?.[2];
+
+    const explicitAddress = constraints
+      .find(c => c.startsWith('address ='))
+      ?.match(/pubkey!\("(\w+)"\)/)?.[1];
+    const address = explicitAddress ||
+      ((kind === 'Program' || kind === 'Sysvar') && inner ? KNOWN_ADDRESSES[inner] : undefined);
+    const relations = constraints
+      .filter(c => c.startsWith('has_one ='))
+      .map(c => c.slice('has_one ='.length).trim());
+    const pda = parsePda(constraints, argNames);
+
+    const account: IdlInstructionAccount = { name };
+    if (constraints.some(c => c === 'mut' || c === 'init' || c === 'init_if_needed')) account.writable = true;
+    // Accounts created at a fresh keypair address must sign their own creation
+    const initialized = constraints.some(c => c === 'init' || c === 'init_if_needed');
+    if (kind === 'Signer' || (initialized && !constraints.some(c => c.startsWith('seeds =') || c.startsWith('associated_token::')))) {
+      account.signer = true;
+    }
+    if (optional) account.optional = true;
+    if (address) account.address = address;
+    if (pda) account.pda = pda;
+    if (relations.length > 0) account.relations = relations;
+    return account;
+  });
+};
+
+// Anchor IDL (spec 0.1.0) for the program, computed from the graph instead of `anchor build`
+export const generateIdl = ({ settings, instructions, stateAccounts, events, errors }: IdlSource): Idl => {
+  const stateTypes: IdlTypeDef[] = stateAccounts.map(node => ({
+    name: toTypeName(node.name),
+    type: { kind: 'struct', fields: idlFields(getAccountFields(node)) },
+  }));
+  const templateTypes = instructions.flatMap(instruction => parseAccountStructs(instruction.definitions || ''));
+  const accountTypes = [...stateTypes, ...templateTypes];
+  const eventTypes: IdlTypeDef[] = events.map(node => ({
+    name: eventStructName(node),
+    type: { kind: 'struct', fields: idlFields(getEventFields(node)) },
+  }));
+
+  const namedTypes = [...instructions.map(instruction => instruction.args), ...events.map(getEventFields)].reduce(
+    (found, fields) => collectNamedTypes(fields, found),
+    stateAccounts.reduce((found, node) => collectNamedTypes(getAccountFields(node), found), collectNamedTypes([]))
+  );
+
+  return {
+    address: settings.programIds.localnet,
+    metadata: {
+      name: settings.programName,
+      version: '0.1.0',
+      spec: IDL_SPEC,
+      description: 'Created with VestraForge',
+    },
+    instructions: instructions.map(instruction => ({
+      name: instruction.name,
+      discriminator: discriminator('global', instruction.name),
+      accounts: parseInstructionAccounts(instruction.accounts, instruction.args),
+      args: idlFields(instruction.args),
+    })),
+    accounts: accountTypes.map(type => ({ name: type.name, discriminator: discriminator('account', type.name) })),
+    ...(eventTypes.length > 0
+      ? { events: eventTypes.map(type => ({ name: type.name, discriminator: discriminator('event', type.name) })) }
+      : {}),
+    errors: errors.map(({ code, name, msg }) => ({ code, name, msg })),
+    types: [
+      ...accountTypes,
+      ...eventTypes,
+      ...Array.from(namedTypes.values()).map(idlTypeDef).filter((type): type is IdlTypeDef => !!type),
+    ],
+  };
+};
+
+// Same result as the `camelcase` package Anchor uses for identifiers it converts
+const anchorCamelCase = (name: string): string =>
+  name.split('.').map(part => {
+    const words = part.split(/[_\-\s]+/).filter(Boolean);
+    return words.map((word, index) => index === 0
+      ? word.charAt(0).toLowerCase() + word.slice(1)
+      : word.charAt(0).toUpperCase() + word.slice(1)
+    ).join('');
+  }).join('.');
+
+const CAMEL_CASE_KEYS = new Set(['name', 'path', 'account', 'relations', 'generic']);
+
+// The IDL as Anchor's TS client sees it, i.e. the shape of target/types/<program>.ts
+export const camelCaseIdl = (idl: Idl): Idl => {
+  const convert = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(convert);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      key,
+      CAMEL_CASE_KEYS.has(key)
+        ? Array.isArray(entry) ? entry.map(anchorCamelCase) : anchorCamelCase(entry as string)
+        : convert(entry),
+    ]));
+  };
+  return convert(idl) as Idl;
+};
+
+// Problems only visible once the whole program is laid out, e.g. two nodes mapping to one Rust name
+export const validateIdl = (idl: Idl): string[] => {
+  const errors: string[] = [];
+  const duplicates = (names: string[]) => names.filter((name, index) => names.indexOf(name) !== index);
+
+  duplicates(idl.instructions.map(ix => ix.name)).forEach(name => {
+    errors.push(`Instruction name ${name} is used by more than one node`);
+  });
+  duplicates((idl.types || []).map(type => type.name)).forEach(name => {
+    errors.push(`Type name ${name} is defined more than once`);
+  });
+  idl.instructions.forEach(ix => {
+    duplicates(ix.accounts.map(account => account.name)).forEach(name => {
+      errors.push(`${ix.name}: account ${name} appears more than once in the accounts struct`);
+    });
+  });
+
+  return Array.from(new Set(errors));
+};
@@ -0,0 +1,206 @@
+import type { Idl } from '@coral-xyz/anchor';
+import { AccountField, CanvasNode, Connection, FieldType, InstructionArg, Port, SeedComponent } from '@/types/editor';
+import { isScalarKind } from './accountSchema';
+import { EVENT_NODE_TYPE } from './programEvents';
+import { IdlField, IdlInstructionAccount, IdlInstructionAccountItem, IdlSeed, IdlType, IdlTypeDef } from './idl';
+import { AUTHORITY_SEED, MAX_SEED_LENGTH } from './pdaSeeds';
+import { layoutGraph } from './graphLayout';
+
+// The IDL does not record length limits; these match the defaults the editor gives new fields
+const DEFAULT_STRING_LENGTH = 64;
+const DEFAULT_VEC_LENGTH = 8;
+
+export interface ImportedGraph {
+  nodes: CanvasNode[];
+  connections: Connection[];
+  // Parts of the IDL the graph cannot represent, left out of the import
+  warnings: string[];
+}
+
+const port = (name: string, type: string): Port => ({ id: crypto.randomUUID(), name, type });
+
+// `create_vault` becomes "Create Vault", which the generators turn back into `create_vault` and `CreateVault`
+const titleCase = (name: string): string =>
+  name.split('_').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// Instruction account names are snake_case, account types PascalCase: `user_vault` uses `UserVault`
+const matchKey = (name: string): string => name.replace(/_/g, '').toLowerCase();
+
+const flattenAccounts = (items: IdlInstructionAccountItem[]): IdlInstructionAccount[] =>
+  items.flatMap(item => 'accounts' in item ? flattenAccounts(item.accounts) : [item]);
+
+const PRINTABLE_ASCII = /^[\x20-\x7e]+$/;
+
+export const importIdl = (idl: Idl, origin?: { x: number; y: number }): ImportedGraph => {
+  const warnings: string[] = [];
+  const typeDefs = new Map((idl.types || []).map(def => [def.name, def]));
+
+  const fieldType = (type: IdlType, context: string): FieldType | undefined => {
+    if (typeof type === 'string') {
+      if (type === 'string') return { kind: 'string', maxLength: DEFAULT_STRING_LENGTH };
+      if (type === 'bytes') return { kind: 'vec', maxLength: DEFAULT_STRING_LENGTH, items: { kind: 'u8' } };
+      if (isScalarKind(type)) return { kind: type };
+    } else if ('vec' in type) {
+      const items = fieldType(type.vec, context);
+      return items ? { kind: 'vec', maxLength: DEFAULT_VEC_LENGTH, items } : undefined;
+    } else if ('defined' in type) {
+      const def = typeDefs.get(type.defined.name);
+      if (def) return namedType(def, context);
+    }
+    warnings.push(`${context}: ${JSON.stringify(type)} is not supported`);
+    return undefined;
+  };
+
+  const fields = (source: IdlField[], context: string): AccountField[] =>
+    source.flatMap(field => {
+      const type = fieldType(field.type, `${context}.${field.name}`);
+      return type ? [{ id: crypto.randomUUID(), name: field.name, type }] : [];
+    });
+
+  const namedType = (def: IdlTypeDef, context: string): FieldType | undefined => {
+    if (def.type.kind === 'struct') {
+      return { kind: 'struct', name: def.name, fields: fields((def.type.fields || []) as IdlField[], def.name) };
+    }
+    if (def.type.kind === 'enum') {
+      return {
+        kind: 'enum',
+        name: def.name,
+        variants: def.type.variants.map(variant => {
+          const variantFields = variant.fields || [];
+          if (variantFields.length === 0) return { name: variant.name };
+          const named = variantFields.every(field => typeof field === 'object' && 'name' in field);
+          if (!named) warnings.push(`${def.name}::${variant.name}: tuple variants are imported without fields`);
+          return named ? { name: variant.name, fields: fields(variantFields as IdlField[], `${def.name}::${variant.name}`) } : { name: variant.name };
+        }),
+      };
+    }
+    warnings.push(`${context}: type alias ${def.name} is not supported`);
+    return undefined;
+  };
+
+  // Program state, one node per `#[account]` type
+  const accountNodes: CanvasNode[] = (idl.accounts || []).map(account => {
+    const def = typeDefs.get(account.name);
+    const type = def ? namedType(def, account.name) : undefined;
+    return {
+      id: crypto.randomUUID(),
+      type: 'account',
+      name: account.name,
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 120,
+      color: 'from-green-500 to-green-600',
+      inputs: [],
+      outputs: [port('account', 'accounts')],
+      fields: type?.kind === 'struct' ? type.fields : [],
+    };
+  });
+  const accountFor = (name: string) => accountNodes.find(node => matchKey(node.name) === matchKey(name));
+
+  const connections: Connection[] = [];
+
+  // Seeds other than printable literals, accounts the graph has and arguments are left to the user
+  const importSeeds = (seeds: IdlSeed[], accounts: IdlInstructionAccount[], context: string): SeedComponent[] | undefined => {
+    const imported = seeds.map((seed): SeedComponent | undefined => {
+      const id = crypto.randomUUID();
+      if (seed.kind === 'const') {
+        const value = String.fromCharCode(...seed.value);
+        return PRINTABLE_ASCII.test(value) ? { id, kind: 'literal', value } : undefined;
+      }
+      if (seed.kind === 'arg') return { id, kind: 'arg', name: seed.path };
+      const account = accountFor(seed.path);
+      if (account) return { id, kind: 'account', account: account.id };
+      const signer = accounts.find(a => a.name === seed.path)?.signer;
+      return signer ? { id, kind: 'account', account: AUTHORITY_SEED } : undefined;
+    });
+    if (imported.some(seed => !seed)) {
+      warnings.push(`${context}: seeds use values the editor cannot express`);
+      return undefined;
+    }
+    return imported as SeedComponent[];
+  };
+
+  const instructionNodes: CanvasNode[] = idl.instructions.map(instruction => {
+    const accounts = flattenAccounts(instruction.accounts);
+    const args: InstructionArg[] = instruction.args.flatMap(arg => {
+      const type = fieldType(arg.type, `${instruction.name}(${arg.name})`);
+      return type ? [{ id: crypto.randomUUID(), name: arg.name, type }] : [];
+    });
+    const accountPorts = accounts.map(account => port(account.name, 'accounts'));
+    const node: CanvasNode = {
+      id: crypto.randomUUID(),
+      type: 'instruction',
+      name: titleCase(instruction.name),
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 120,
+      color: 'from-blue-500 to-blue-600',
+      inputs: [...accountPorts, ...args.map(arg => port(arg.name, 'data'))],
+      outputs: [port('output', 'data')],
+      description: (instruction.docs || []).join(' ') || undefined,
+      args,
+    };
+
+    accounts.forEach((account, index) => {
+      const source = accountFor(account.name);
+      if (!source) return;
+      connections.push({
+        id: crypto.randomUUID(),
+        sourceNodeId: source.id,
+        targetNodeId: node.id,
+        sourcePortId: source.outputs[0].id,
+        targetPortId: accountPorts[index].id,
+      });
+
+      // The first instruction that derives the account defines its seeds
+      if (account.pda && !source.seeds) {
+        const context = `${instruction.name}.${account.name}`;
+        if (account.pda.program) {
+          warnings.push(`${context}: PDAs of other programs are not supported`);
+        } else {
+          source.seeds = importSeeds(account.pda.seeds, accounts, context);
+        }
+      }
+    });
+
+    return node;
+  });
+
+  // String arguments that derive a PDA must fit in one seed
+  instructionNodes.forEach(node => {
+    const seedArgs = new Set(connections
+      .filter(conn => conn.targetNodeId === node.id)
+      .flatMap(conn => accountNodes.find(account => account.id === conn.sourceNodeId)?.seeds || [])
+      .flatMap(seed => seed.kind === 'arg' ? [seed.name] : []));
+    node.args = node.args?.map(arg => seedArgs.has(arg.name) && arg.type.kind === 'string'
+      ? { ...arg, type: { ...arg.type, maxLength: Math.min(arg.type.maxLength, MAX_SEED_LENGTH) } }
+      : arg);
+  });
+
+  // Events are not tied to instructions in the IDL; they are imported unconnected
+  const eventNodes: CanvasNode[] = (idl.events || []).map(event => {
+    const def = typeDefs.get(event.name);
+    const type = def ? namedType(def, event.name) : undefined;
+    return {
+      id: crypto.randomUUID(),
+      type: EVENT_NODE_TYPE,
+      name: event.name,
+      x: 0,
+      y: 0,
+      width: 200,
+      height: 120,
+      color: 'from-amber-500 to-orange-500',
+      inputs: [port('emit', 'event')],
+      outputs: [],
+      fields: type?.kind === 'struct' ? type.fields : [],
+    };
+  });
+
+  return {
+    nodes: layoutGraph([...accountNodes, ...instructionNodes, ...eventNodes], connections, origin),
+    connections,
+    warnings: Array.from(new Set(warnings)),
+  };
+};
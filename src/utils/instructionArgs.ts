@@ -0,0 +1,204 @@
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { ArgValue, CanvasNode, FieldType, InstructionArg } from '@/types/editor';
+import { ModuleTemplate } from '@/types/modules';
+import { isIntegerType, rustType, validateFieldList } from './accountSchema';
+import { toCamelCase, toSnakeCase } from './naming';
+
+type TemplateParameter = ModuleTemplate['documentation']['parameters'][number];
+
+// Integer kinds that anchor's TypeScript client expects as BN instances
+const BN_KINDS = new Set<string>(['u64', 'u128', 'i64', 'i128']);
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  u8: [0, 255],
+  u16: [0, 65535],
+  u32: [0, 4294967295],
+  u64: [0, Number.MAX_SAFE_INTEGER],
+  u128: [0, Number.MAX_SAFE_INTEGER],
+  i8: [-128, 127],
+  i16: [-32768, 32767],
+  i32: [-2147483648, 2147483647],
+  i64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+  i128: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+};
+
+const BASE58_PUBKEY = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export const getInstructionArgs = (node: CanvasNode): InstructionArg[] => node.args || [];
+
+// `amount: u64, memo: String`
+export const renderArgParameters = (args: InstructionArg[]): string =>
+  args.map(arg => `${toSnakeCase(arg.name)}: ${rustType(arg.type)}`).join(', ');
+
+// Anchor only exposes arguments to account constraints (seeds, space, ...) through this attribute
+export const renderInstructionAttribute = (args: InstructionArg[]): string =>
+  args.length > 0 ? `\n#[instruction(${renderArgParameters(args)})]` : '';
+
+export const renderArgChecks = (args: InstructionArg[]): string =>
+  args.flatMap(arg => {
+    const name = toSnakeCase(arg.name);
+    const error = arg.error ? `, ErrorCode::${arg.error}` : '';
+    const checks: string[] = [];
+
+    if (isIntegerType(arg.type)) {
+      // A lower bound at the type's minimum can never fail and only trips rustc's unused_comparisons lint
+      if (arg.min !== undefined && arg.min > INTEGER_RANGES[arg.type.kind][0]) {
+        checks.push(`require_gte!(${name}, ${arg.min}${error});`);
+      }
+      if (arg.max !== undefined) checks.push(`require_gte!(${arg.max}, ${name}${error});`);
+    } else if (arg.type.kind === 'string' || arg.type.kind === 'vec') {
+      checks.push(`require_gte!(${arg.type.maxLength}, ${name}.len()${error});`);
+    }
+
+    return checks.map(check => `    ${check}`);
+  }).join('\n');
+
+// TypeScript literal for a value of the given type, as passed to `program.methods.x(...)`
+export const tsValueLiteral = (type: FieldType, value?: ArgValue): string => {
+  switch (type.kind) {
+    case 'bool':
+      return String(value ?? false);
+    case 'pubkey':
+      return value ? `new anchor.web3.PublicKey("${value}")` : 'provider.wallet.publicKey';
+    case 'string':
+      return JSON.stringify(value ?? '');
+    case 'vec':
+      return '[]';
+    case 'struct':
+      return `{ ${type.fields.map(field => `${toCamelCase(field.name)}: ${tsValueLiteral(field.type)}`).join(', ')} }`;
+    case 'enum': {
+      const variant = type.variants[0];
+      const fields = (variant?.fields || []).map(field => `${toCamelCase(field.name)}: ${tsValueLiteral(field.type)}`);
+      return `{ ${toCamelCase(variant?.name || 'none')}: { ${fields.join(', ')} } }`;
+    }
+    default:
+      return BN_KINDS.has(type.kind) ? `new anchor.BN(${value ?? 0})` : String(value ?? 0);
+  }
+};
+
+export const testValueFor = (arg: InstructionArg): string =>
+  tsValueLiteral(arg.type, arg.defaultValue ?? arg.min);
+
+// The value `tsValueLiteral` writes, built for sending from the app with `wallet` as the provider's
+export const runtimeValue = (type: FieldType, wallet: PublicKey, value?: ArgValue): unknown => {
+  switch (type.kind) {
+    case 'bool':
+      return value ?? false;
+    case 'pubkey':
+      return value ? new PublicKey(String(value)) : wallet;
+    case 'string':
+      return String(value ?? '');
+    case 'vec':
+      return [];
+    case 'struct':
+      return Object.fromEntries(type.fields.map(field => [toCamelCase(field.name), runtimeValue(field.type, wallet)]));
+    case 'enum': {
+      const variant = type.variants[0];
+      const fields = (variant?.fields || []).map(field => [toCamelCase(field.name), runtimeValue(field.type, wallet)]);
+      return { [toCamelCase(variant?.name || 'none')]: Object.fromEntries(fields) };
+    }
+    default:
+      return BN_KINDS.has(type.kind) ? new BN(String(value ?? 0)) : Number(value ?? 0);
+  }
+};
+
+export const runtimeTestValueFor = (arg: InstructionArg, wallet: PublicKey): unknown =>
+  runtimeValue(arg.type, wallet, arg.defaultValue ?? arg.min);
+
+// A value `renderArgChecks` rejects, for negative tests; undefined when no check can fail
+export const violatingValueFor = (arg: InstructionArg): string | undefined => {
+  if (isIntegerType(arg.type)) {
+    const [lowest, highest] = INTEGER_RANGES[arg.type.kind];
+    if (arg.max !== undefined && arg.max < highest) return tsValueLiteral(arg.type, arg.max + 1);
+    if (arg.min !== undefined && arg.min > lowest) return tsValueLiteral(arg.type, arg.min - 1);
+    return undefined;
+  }
+  // Longer strings would overflow the transaction before the check runs
+  if (arg.type.kind === 'string' && arg.type.maxLength < 256) {
+    return JSON.stringify('x'.repeat(arg.type.maxLength + 1));
+  }
+  return undefined;
+};
+
+const fieldTypeForParameter = (parameter: TemplateParameter): FieldType | null => {
+  switch (parameter.type) {
+    case 'number':
+      return { kind: 'u64' };
+    case 'boolean':
+      return { kind: 'bool' };
+    case 'string':
+      return { kind: 'string', maxLength: 64 };
+    case 'string[]':
+      return { kind: 'vec', maxLength: 8, items: { kind: 'string', maxLength: 32 } };
+    case 'PublicKey':
+      return { kind: 'pubkey' };
+    default:
+      return null;
+  }
+};
+
+// Seed instruction arguments from documented parameters, a template's or an AI-generated module's
+export const argsFromParameters = (parameters: TemplateParameter[]): InstructionArg[] =>
+  parameters.flatMap(parameter => {
+    const type = fieldTypeForParameter(parameter);
+    if (!type) return [];
+
+    const defaultValue = typeof parameter.defaultValue === 'number' && !Number.isInteger(parameter.defaultValue)
+      ? undefined
+      : parameter.defaultValue as ArgValue | undefined;
+
+    return [{
+      id: crypto.randomUUID(),
+      name: toSnakeCase(parameter.name.replace(/([a-z0-9])([A-Z])/g, '$1 $2')),
+      type,
+      description: parameter.description,
+      defaultValue,
+    }];
+  });
+
+export const argsFromTemplate = (template: ModuleTemplate): InstructionArg[] =>
+  argsFromParameters(template.documentation?.parameters || []);
+
+export const validateInstructionArgs = (args: InstructionArg[]): string[] => {
+  const errors = validateFieldList(args, 'args');
+
+  args.forEach(arg => {
+    const name = toSnakeCase(arg.name);
+    const { type, min, max, defaultValue } = arg;
+
+    if (!isIntegerType(type)) {
+      if (min !== undefined || max !== undefined) {
+        errors.push(`args.${name}: bounds only apply to integer arguments`);
+      }
+    } else {
+      const [lowest, highest] = INTEGER_RANGES[type.kind];
+      [min, max].forEach(bound => {
+        if (bound !== undefined && (!Number.isInteger(bound) || bound < lowest || bound > highest)) {
+          errors.push(`args.${name}: bound ${bound} does not fit in ${type.kind}`);
+        }
+      });
+      if (min !== undefined && max !== undefined && min > max) {
+        errors.push(`args.${name}: min is greater than max`);
+      }
+    }
+
+    if (defaultValue === undefined) return;
+
+    if (isIntegerType(type)) {
+      if (typeof defaultValue !== 'number' || !Number.isInteger(defaultValue)) {
+        errors.push(`args.${name}: default must be an integer`);
+      } else if ((min !== undefined && defaultValue < min) || (max !== undefined && defaultValue > max)) {
+        errors.push(`args.${name}: default ${defaultValue} is outside the allowed range`);
+      }
+    } else if (type.kind === 'bool' && typeof defaultValue !== 'boolean') {
+      errors.push(`args.${name}: default must be true or false`);
+    } else if (type.kind === 'string' && String(defaultValue).length > type.maxLength) {
+      errors.push(`args.${name}: default is longer than ${type.maxLength} characters`);
+    } else if (type.kind === 'pubkey' && !BASE58_PUBKEY.test(String(defaultValue))) {
+      errors.push(`args.${name}: default is not a valid public key`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,541 @@
+import type { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { CanvasNode, InstructionArg } from '@/types/editor';
+import { ModuleTemplate } from '@/types/modules';
+import { argsFromTemplate } from './instructionArgs';
+import { toSnakeCase } from './naming';
+import { createFundedTokenAccount } from './splToken';
+
+export const TOKEN_METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+export interface EmitterContext {
+  node: CanvasNode;
+  structName: string;
+  args: InstructionArg[];
+}
+
+export interface TemplateTestSetup {
+  imports?: string[];
+  // Statements run inside the test before the instruction is sent
+  setup: string[];
+  accounts: Record<string, string>;
+  signers?: string[];
+}
+
+export interface TemplateEmission {
+  imports: string[];
+  // Field declarations for the `#[derive(Accounts)]` struct, see `renderAccountField`
+  accounts: string;
+  body: string;
+  // Extra items (account state, helper types) placed after the accounts struct
+  definitions?: string;
+  test?: TemplateTestSetup;
+}
+
+// Creates on chain what a template's test setup creates, returning the addresses by client account name
+export type TestFixture = (connection: Connection, payer: Keypair) => Promise<Record<string, PublicKey>>;
+
+export interface CargoRequirements {
+  anchorLangFeatures: string[];
+  // Present when the program depends on anchor-spl, listing the features it needs
+  anchorSplFeatures?: string[];
+}
+
+export interface ModuleEmitter {
+  templateId: string;
+  defaultArgs: () => InstructionArg[];
+  cargo: CargoRequirements;
+  // Programs the local validator must clone from mainnet for the generated tests
+  clonePrograms?: string[];
+  // `ErrorCode` variants the emitted body returns
+  errors?: string[];
+  emit: (context: EmitterContext) => TemplateEmission;
+  // For running the instruction from the app; keep it in step with the emission's `test.setup`
+  testFixture?: TestFixture;
+}
+
+export const renderAccountField = (declaration: string, constraints: string[] = [], check?: string): string => {
+  const doc = check ? `\n    /// CHECK: ${check}` : '';
+  const attribute = constraints.length === 0
+    ? ''
+    : constraints.length <= 2
+      ? `\n    #[account(${constraints.join(', ')})]`
+      : `\n    #[account(\n${constraints.map(constraint => `        ${constraint},`).join('\n')}\n    )]`;
+  return `${doc}${attribute}\n    pub ${declaration},`;
+};
+
+const findArg = (args: InstructionArg[], name: string) =>
+  args.find(arg => toSnakeCase(arg.name) === name);
+
+// Use the handler argument when the node still declares it, otherwise a constant
+const argOr = (args: InstructionArg[], name: string, fallback: string): string =>
+  findArg(args, name) ? name : fallback;
+
+const maxLengthOf = (args: InstructionArg[], name: string, fallback: number): number => {
+  const type = findArg(args, name)?.type;
+  return type?.kind === 'string' ? type.maxLength : fallback;
+};
+
+const testArgValue = (args: InstructionArg[], name: string, fallback: string): string => {
+  const value = findArg(args, name)?.defaultValue;
+  return value === undefined ? fallback : JSON.stringify(String(value));
+};
+
+const mintToCpi = (amount: string) => `    token::mint_to(
+        CpiContext::new(
+            ctx.accounts.token_program.to_account_info(),
+            MintTo {
+                mint: ctx.accounts.mint.to_account_info(),
+                to: ctx.accounts.token_account.to_account_info(),
+                authority: ctx.accounts.authority.to_account_info(),
+            },
+        ),
+        ${amount},
+    )?;`;
+
+const transferCpi = (from: string, to: string, amount: string) => `    token::transfer(
+        CpiContext::new(
+            ctx.accounts.token_program.to_account_info(),
+            Transfer {
+                from: ctx.accounts.${from}.to_account_info(),
+                to: ctx.accounts.${to}.to_account_info(),
+                authority: ctx.accounts.authority.to_account_info(),
+            },
+        ),
+        ${amount},
+    )?;`;
+
+const SPL_TEST_IMPORT = 'import { createAssociatedTokenAccount, createMint, mintTo } from "@solana/spl-token";';
+const TEST_PAYER = '(provider.wallet as anchor.Wallet).payer';
+
+const associatedTokenAccount = (): string => renderAccountField(
+  'token_account: Account<\'info, TokenAccount>',
+  ['init_if_needed', 'payer = authority', 'associated_token::mint = mint', 'associated_token::authority = authority']
+);
+
+const splTokenMint: ModuleEmitter = {
+  templateId: 'spl-token-mint',
+  defaultArgs: () => [
+    { id: crypto.randomUUID(), name: 'decimals', type: { kind: 'u8' }, defaultValue: 9, min: 0, max: 9, description: 'Number of decimal places for the token' },
+    { id: crypto.randomUUID(), name: 'amount', type: { kind: 'u64' }, defaultValue: 1000000000, min: 1, description: 'Amount of base units to mint' },
+  ],
+  cargo: { anchorLangFeatures: ['init-if-needed'], anchorSplFeatures: [] },
+  emit: ({ args }) => ({
+    imports: [
+      'use anchor_spl::associated_token::AssociatedToken;',
+      'use anchor_spl::token::{self, Mint, MintTo, Token, TokenAccount};',
+    ],
+    accounts: [
+      renderAccountField('mint: Account<\'info, Mint>', [
+        'init',
+        'payer = authority',
+        `mint::decimals = ${argOr(args, 'decimals', '9')}`,
+        'mint::authority = authority',
+      ]),
+      associatedTokenAccount(),
+      renderAccountField('token_program: Program<\'info, Token>'),
+      renderAccountField('associated_token_program: Program<\'info, AssociatedToken>'),
+    ].join(''),
+    body: `${mintToCpi(argOr(args, 'amount', '1'))}
+    msg!("Minted {} base units to {}", ${argOr(args, 'amount', '1')}, ctx.accounts.token_account.key());`,
+    test: {
+      setup: ['const mint = anchor.web3.Keypair.generate();'],
+      accounts: {
+        mint: 'mint.publicKey',
+        tokenAccount: 'anchor.utils.token.associatedAddress({ mint: mint.publicKey, owner: provider.wallet.publicKey })',
+      },
+      signers: ['mint'],
+    },
+  }),
+};
+
+const nftMint: ModuleEmitter = {
+  templateId: 'nft-mint',
+  defaultArgs: () => [
+    { id: crypto.randomUUID(), name: 'name', type: { kind: 'string', maxLength: 32 }, defaultValue: 'My NFT', description: 'Name of the NFT' },
+    { id: crypto.randomUUID(), name: 'symbol', type: { kind: 'string', maxLength: 10 }, defaultValue: 'MYNFT', description: 'Symbol for the NFT collection' },
+    { id: crypto.randomUUID(), name: 'uri', type: { kind: 'string', maxLength: 200 }, defaultValue: 'https://example.com/metadata.json', description: 'URI pointing to NFT metadata JSON' },
+  ],
+  cargo: { anchorLangFeatures: ['init-if-needed'], anchorSplFeatures: ['metadata'] },
+  clonePrograms: [TOKEN_METADATA_PROGRAM_ID],
+  emit: ({ node, args }) => {
+    const metadataSeeds = 'b"metadata", token_metadata_program.key().as_ref(), mint.key().as_ref()';
+    const stringArg = (name: string, fallback: string) =>
+      findArg(args, name) ? name : `String::from("${fallback}")`;
+
+    return {
+      imports: [
+        'use anchor_spl::associated_token::AssociatedToken;',
+        'use anchor_spl::metadata::mpl_token_metadata::types::DataV2;',
+        'use anchor_spl::metadata::{\n    create_master_edition_v3, create_metadata_accounts_v3, CreateMasterEditionV3,\n    CreateMetadataAccountsV3, Metadata,\n};',
+        'use anchor_spl::token::{self, Mint, MintTo, Token, TokenAccount};',
+      ],
+      accounts: [
+        renderAccountField('mint: Account<\'info, Mint>', [
+          'init',
+          'payer = authority',
+          'mint::decimals = 0',
+          'mint::authority = authority',
+          'mint::freeze_authority = authority',
+        ]),
+        associatedTokenAccount(),
+        renderAccountField('metadata: UncheckedAccount<\'info>', [
+          'mut',
+          `seeds = [${metadataSeeds}]`,
+          'bump',
+          'seeds::program = token_metadata_program.key()',
+        ], 'initialized by the token metadata program'),
+        renderAccountField('master_edition: UncheckedAccount<\'info>', [
+          'mut',
+          `seeds = [${metadataSeeds}, b"edition"]`,
+          'bump',
+          'seeds::program = token_metadata_program.key()',
+        ], 'initialized by the token metadata program'),
+        renderAccountField('token_program: Program<\'info, Token>'),
+        renderAccountField('associated_token_program: Program<\'info, AssociatedToken>'),
+        renderAccountField('token_metadata_program: Program<\'info, Metadata>'),
+        renderAccountField('rent: Sysvar<\'info, Rent>'),
+      ].join(''),
+      body: `${mintToCpi('1')}
+
+    create_metadata_accounts_v3(
+        CpiContext::new(
+            ctx.accounts.token_metadata_program.to_account_info(),
+            CreateMetadataAccountsV3 {
+                metadata: ctx.accounts.metadata.to_account_info(),
+                mint: ctx.accounts.mint.to_account_info(),
+                mint_authority: ctx.accounts.authority.to_account_info(),
+                payer: ctx.accounts.authority.to_account_info(),
+                update_authority: ctx.accounts.authority.to_account_info(),
+                system_program: ctx.accounts.system_program.to_account_info(),
+                rent: ctx.accounts.rent.to_account_info(),
+            },
+        ),
+        DataV2 {
+            name: ${stringArg('name', node.name)},
+            symbol: ${stringArg('symbol', 'NFT')},
+            uri: ${stringArg('uri', '')},
+            seller_fee_basis_points: 0,
+            creators: None,
+            collection: None,
+            uses: None,
+        },
+        true,
+        true,
+        None,
+    )?;
+
+    create_master_edition_v3(
+        CpiContext::new(
+            ctx.accounts.token_metadata_program.to_account_info(),
+            CreateMasterEditionV3 {
+                edition: ctx.accounts.master_edition.to_account_info(),
+                mint: ctx.accounts.mint.to_account_info(),
+                update_authority: ctx.accounts.authority.to_account_info(),
+                mint_authority: ctx.accounts.authority.to_account_info(),
+                payer: ctx.accounts.authority.to_account_info(),
+                metadata: ctx.accounts.metadata.to_account_info(),
+                token_program: ctx.accounts.token_program.to_account_info(),
+                system_program: ctx.accounts.system_program.to_account_info(),
+                rent: ctx.accounts.rent.to_account_info(),
+            },
+        ),
+        Some(0),
+    )?;
+    msg!("Minted NFT {}", ctx.accounts.mint.key());`,
+      test: {
+        setup: [
+          'const mint = anchor.web3.Keypair.generate();',
+          `const tokenMetadataProgram = new anchor.web3.PublicKey("${TOKEN_METADATA_PROGRAM_ID}");`,
+          'const [metadata] = anchor.web3.PublicKey.findProgramAddressSync(\n        [Buffer.from("metadata"), tokenMetadataProgram.toBuffer(), mint.publicKey.toBuffer()],\n        tokenMetadataProgram\n      );',
+          'const [masterEdition] = anchor.web3.PublicKey.findProgramAddressSync(\n        [Buffer.from("metadata"), tokenMetadataProgram.toBuffer(), mint.publicKey.toBuffer(), Buffer.from("edition")],\n        tokenMetadataProgram\n      );',
+        ],
+        accounts: {
+          mint: 'mint.publicKey',
+          tokenAccount: 'anchor.utils.token.associatedAddress({ mint: mint.publicKey, owner: provider.wallet.publicKey })',
+          metadata: 'metadata',
+          masterEdition: 'masterEdition',
+          tokenMetadataProgram: 'tokenMetadataProgram',
+        },
+        signers: ['mint'],
+      },
+    };
+  },
+};
+
+const pdaAccount: ModuleEmitter = {
+  templateId: 'pda-account',
+  defaultArgs: () => [
+    { id: crypto.randomUUID(), name: 'seed', type: { kind: 'string', maxLength: 32 }, defaultValue: 'vault', description: 'Seed string used for PDA derivation' },
+  ],
+  cargo: { anchorLangFeatures: [] },
+  emit: ({ node, structName, args }) => {
+    const stateName = `${structName}State`;
+    const hasSeedArg = Boolean(findArg(args, 'seed'));
+    const fixedSeed = toSnakeCase(node.name);
+
+    return {
+      imports: [],
+      accounts: renderAccountField(`pda_account: Account<'info, ${stateName}>`, [
+        'init',
+        'payer = authority',
+        `space = 8 + ${stateName}::INIT_SPACE`,
+        `seeds = [${hasSeedArg ? 'seed.as_bytes()' : `b"${fixedSeed}"`}, authority.key().as_ref()]`,
+        'bump',
+      ]),
+      body: `    let pda_account = &mut ctx.accounts.pda_account;
+    pda_account.authority = ctx.accounts.authority.key();
+    pda_account.seed = ${hasSeedArg ? 'seed' : `String::from("${fixedSeed}")`};
+    pda_account.bump = ctx.bumps.pda_account;
+    msg!("Initialized PDA {}", pda_account.key());`,
+      definitions: `#[account]
+#[derive(InitSpace)]
+pub struct ${stateName} {
+    pub authority: Pubkey,
+    #[max_len(${maxLengthOf(args, 'seed', Math.max(fixedSeed.length, 1))})]
+    pub seed: String,
+    pub bump: u8,
+}`,
+      test: {
+        setup: [
+          `const [pdaAccount] = anchor.web3.PublicKey.findProgramAddressSync(\n        [Buffer.from(${testArgValue(args, 'seed', hasSeedArg ? '""' : JSON.stringify(fixedSeed))}), provider.wallet.publicKey.toBuffer()],\n        program.programId\n      );`,
+        ],
+        accounts: { pdaAccount: 'pdaAccount' },
+      },
+    };
+  },
+};
+
+const governanceProposal: ModuleEmitter = {
+  templateId: 'governance-proposal',
+  defaultArgs: () => [
+    { id: crypto.randomUUID(), name: 'title', type: { kind: 'string', maxLength: 64 }, defaultValue: 'New proposal', description: 'Title of the proposal' },
+    { id: crypto.randomUUID(), name: 'description', type: { kind: 'string', maxLength: 256 }, defaultValue: '', description: 'Detailed description of the proposal' },
+    { id: crypto.randomUUID(), name: 'voting_period', type: { kind: 'i64' }, defaultValue: 604800, min: 3600, description: 'Duration of voting period in seconds' },
+  ],
+  cargo: { anchorLangFeatures: [], anchorSplFeatures: [] },
+  errors: ['Unauthorized', 'InvalidProgramFlow'],
+  emit: ({ structName, args }) => {
+    const stateName = `${structName}State`;
+
+    return {
+      imports: ['use anchor_spl::token::{Mint, TokenAccount};'],
+      accounts: [
+        renderAccountField(`proposal: Account<'info, ${stateName}>`, [
+          'init',
+          'payer = authority',
+          `space = 8 + ${stateName}::INIT_SPACE`,
+        ]),
+        renderAccountField('governance_mint: Account<\'info, Mint>'),
+        renderAccountField('proposer_token_account: Account<\'info, TokenAccount>', [
+          'constraint = proposer_token_account.mint == governance_mint.key()',
+          'constraint = proposer_token_account.owner == authority.key()',
+        ]),
+      ].join(''),
+      body: `    // Only governance token holders may open proposals
+    require!(ctx.accounts.proposer_token_account.amount > 0, ErrorCode::Unauthorized);
+
+    let proposal = &mut ctx.accounts.proposal;
+    proposal.proposer = ctx.accounts.authority.key();
+    proposal.governance_mint = ctx.accounts.governance_mint.key();
+    proposal.title = ${argOr(args, 'title', 'String::new()')};
+    proposal.description = ${argOr(args, 'description', 'String::new()')};
+    proposal.voting_ends_at = Clock::get()?
+        .unix_timestamp
+        .checked_add(${argOr(args, 'voting_period', '604_800')})
+        .ok_or(ErrorCode::InvalidProgramFlow)?;
+    proposal.yes_votes = 0;
+    proposal.no_votes = 0;
+    proposal.executed = false;
+    msg!("Proposal {} open until {}", proposal.key(), proposal.voting_ends_at);`,
+      definitions: `#[account]
+#[derive(InitSpace)]
+pub struct ${stateName} {
+    pub proposer: Pubkey,
+    pub governance_mint: Pubkey,
+    #[max_len(${maxLengthOf(args, 'title', 64)})]
+    pub title: String,
+    #[max_len(${maxLengthOf(args, 'description', 256)})]
+    pub description: String,
+    pub voting_ends_at: i64,
+    pub yes_votes: u64,
+    pub no_votes: u64,
+    pub executed: bool,
+}`,
+      test: {
+        imports: [SPL_TEST_IMPORT],
+        setup: [
+          'const proposal = anchor.web3.Keypair.generate();',
+          `const governanceMint = await createMint(provider.connection, ${TEST_PAYER}, provider.wallet.publicKey, null, 0);`,
+          `const proposerTokenAccount = await createAssociatedTokenAccount(provider.connection, ${TEST_PAYER}, governanceMint, provider.wallet.publicKey);`,
+          `await mintTo(provider.connection, ${TEST_PAYER}, governanceMint, proposerTokenAccount, provider.wallet.publicKey, 1);`,
+        ],
+        accounts: {
+          proposal: 'proposal.publicKey',
+          governanceMint: 'governanceMint',
+          proposerTokenAccount: 'proposerTokenAccount',
+        },
+        signers: ['proposal'],
+      },
+    };
+  },
+  testFixture: async (connection, payer) => {
+    const { mint, tokenAccount } = await createFundedTokenAccount(connection, payer, 0, 1);
+    return { governanceMint: mint, proposerTokenAccount: tokenAccount };
+  },
+};
+
+const liquidityPool: ModuleEmitter = {
+  templateId: 'liquidity-pool',
+  defaultArgs: () => [
+    { id: crypto.randomUUID(), name: 'fee_basis_points', type: { kind: 'u16' }, defaultValue: 30, min: 0, max: 10000, description: 'Trading fee in basis points (30 = 0.3%)' },
+    { id: crypto.randomUUID(), name: 'initial_amount_a', type: { kind: 'u64' }, defaultValue: 1000, min: 1, description: 'Initial deposit of token A' },
+    { id: crypto.randomUUID(), name: 'initial_amount_b', type: { kind: 'u64' }, defaultValue: 1000, min: 1, description: 'Initial deposit of token B' },
+  ],
+  cargo: { anchorLangFeatures: [], anchorSplFeatures: [] },
+  emit: ({ structName, args }) => {
+    const stateName = `${structName}State`;
+    const vault = (side: 'a' | 'b') => renderAccountField(`vault_${side}: Account<'info, TokenAccount>`, [
+      'init',
+      'payer = authority',
+      `token::mint = token_${side}_mint`,
+      'token::authority = pool',
+      `seeds = [b"vault_${side}", pool.key().as_ref()]`,
+      'bump',
+    ]);
+    const userToken = (side: 'a' | 'b') => renderAccountField(`user_token_${side}: Account<'info, TokenAccount>`, [
+      'mut',
+      `constraint = user_token_${side}.mint == token_${side}_mint.key()`,
+      `constraint = user_token_${side}.owner == authority.key()`,
+    ]);
+    const pdaSetup = (name: string, seeds: string[]) =>
+      `const [${name}] = anchor.web3.PublicKey.findProgramAddressSync([${seeds.join(', ')}], program.programId);`;
+
+    return {
+      imports: ['use anchor_spl::token::{self, Mint, Token, TokenAccount, Transfer};'],
+      accounts: [
+        renderAccountField('token_a_mint: Account<\'info, Mint>'),
+        renderAccountField('token_b_mint: Account<\'info, Mint>', ['constraint = token_a_mint.key() != token_b_mint.key()']),
+        renderAccountField(`pool: Account<'info, ${stateName}>`, [
+          'init',
+          'payer = authority',
+          `space = 8 + ${stateName}::INIT_SPACE`,
+          'seeds = [b"pool", token_a_mint.key().as_ref(), token_b_mint.key().as_ref()]',
+          'bump',
+        ]),
+        vault('a'),
+        vault('b'),
+        renderAccountField('lp_mint: Account<\'info, Mint>', [
+          'init',
+          'payer = authority',
+          'mint::decimals = 6',
+          'mint::authority = pool',
+          'seeds = [b"lp_mint", pool.key().as_ref()]',
+          'bump',
+        ]),
+        userToken('a'),
+        userToken('b'),
+        renderAccountField('token_program: Program<\'info, Token>'),
+      ].join(''),
+      body: `    let pool = &mut ctx.accounts.pool;
+    pool.token_a_mint = ctx.accounts.token_a_mint.key();
+    pool.token_b_mint = ctx.accounts.token_b_mint.key();
+    pool.vault_a = ctx.accounts.vault_a.key();
+    pool.vault_b = ctx.accounts.vault_b.key();
+    pool.lp_mint = ctx.accounts.lp_mint.key();
+    pool.fee_basis_points = ${argOr(args, 'fee_basis_points', '30')};
+    pool.bump = ctx.bumps.pool;
+
+    // Seed the pool with the initial liquidity
+${transferCpi('user_token_a', 'vault_a', argOr(args, 'initial_amount_a', '0'))}
+${transferCpi('user_token_b', 'vault_b', argOr(args, 'initial_amount_b', '0'))}
+    msg!("Created pool {}", ctx.accounts.pool.key());`,
+      definitions: `#[account]
+#[derive(InitSpace)]
+pub struct ${stateName} {
+    pub token_a_mint: Pubkey,
+    pub token_b_mint: Pubkey,
+    pub vault_a: Pubkey,
+    pub vault_b: Pubkey,
+    pub lp_mint: Pubkey,
+    pub fee_basis_points: u16,
+    pub bump: u8,
+}`,
+      test: {
+        imports: [SPL_TEST_IMPORT],
+        setup: [
+          `const tokenAMint = await createMint(provider.connection, ${TEST_PAYER}, provider.wallet.publicKey, null, 6);`,
+          `const tokenBMint = await createMint(provider.connection, ${TEST_PAYER}, provider.wallet.publicKey, null, 6);`,
+          `const userTokenA = await createAssociatedTokenAccount(provider.connection, ${TEST_PAYER}, tokenAMint, provider.wallet.publicKey);`,
+          `const userTokenB = await createAssociatedTokenAccount(provider.connection, ${TEST_PAYER}, tokenBMint, provider.wallet.publicKey);`,
+          `await mintTo(provider.connection, ${TEST_PAYER}, tokenAMint, userTokenA, provider.wallet.publicKey, 1_000_000);`,
+          `await mintTo(provider.connection, ${TEST_PAYER}, tokenBMint, userTokenB, provider.wallet.publicKey, 1_000_000);`,
+          pdaSetup('pool', ['Buffer.from("pool")', 'tokenAMint.toBuffer()', 'tokenBMint.toBuffer()']),
+          pdaSetup('vaultA', ['Buffer.from("vault_a")', 'pool.toBuffer()']),
+          pdaSetup('vaultB', ['Buffer.from("vault_b")', 'pool.toBuffer()']),
+          pdaSetup('lpMint', ['Buffer.from("lp_mint")', 'pool.toBuffer()']),
+        ],
+        accounts: {
+          tokenAMint: 'tokenAMint',
+          tokenBMint: 'tokenBMint',
+          pool: 'pool',
+          vaultA: 'vaultA',
+          vaultB: 'vaultB',
+          lpMint: 'lpMint',
+          userTokenA: 'userTokenA',
+          userTokenB: 'userTokenB',
+        },
+      },
+    };
+  },
+  testFixture: async (connection, payer) => {
+    const tokenA = await createFundedTokenAccount(connection, payer, 6, 1_000_000);
+    const tokenB = await createFundedTokenAccount(connection, payer, 6, 1_000_000);
+    return {
+      tokenAMint: tokenA.mint,
+      tokenBMint: tokenB.mint,
+      userTokenA: tokenA.tokenAccount,
+      userTokenB: tokenB.tokenAccount,
+    };
+  },
+};
+
+export const moduleEmitters: Record<string, ModuleEmitter> = {
+  [splTokenMint.templateId]: splTokenMint,
+  [nftMint.templateId]: nftMint,
+  [pdaAccount.templateId]: pdaAccount,
+  [governanceProposal.templateId]: governanceProposal,
+  [liquidityPool.templateId]: liquidityPool,
+};
+
+export const getModuleEmitter = (node: CanvasNode): ModuleEmitter | undefined =>
+  node.templateId ? moduleEmitters[node.templateId] : undefined;
+
+// Arguments for a node created from a template: the emitter's typed defaults when it has one
+export const defaultArgsForTemplate = (template: ModuleTemplate): InstructionArg[] =>
+  moduleEmitters[template.id]?.defaultArgs() ?? argsFromTemplate(template);
+
+export const collectCargoRequirements = (nodes: CanvasNode[]): CargoRequirements => {
+  const anchorLangFeatures = new Set<string>();
+  let anchorSplFeatures: Set<string> | undefined;
+
+  nodes.forEach(node => {
+    const emitter = getModuleEmitter(node);
+    if (!emitter) return;
+    emitter.cargo.anchorLangFeatures.forEach(feature => anchorLangFeatures.add(feature));
+    if (emitter.cargo.anchorSplFeatures) {
+      anchorSplFeatures = anchorSplFeatures || new Set<string>();
+      emitter.cargo.anchorSplFeatures.forEach(feature => anchorSplFeatures!.add(feature));
+    }
+  });
+
+  return {
+    anchorLangFeatures: Array.from(anchorLangFeatures).sort(),
+    anchorSplFeatures: anchorSplFeatures ? Array.from(anchorSplFeatures).sort() : undefined,
+  };
+};
+
+export const collectClonePrograms = (nodes: CanvasNode[]): string[] =>
+  Array.from(new Set(nodes.flatMap(node => getModuleEmitter(node)?.clonePrograms || [])));
+
+export const collectTemplateErrors = (nodes: CanvasNode[]): string[] =>
+  Array.from(new Set(nodes.flatMap(node => getModuleEmitter(node)?.errors || [])));
@@ -0,0 +1,17 @@
+// Identifier helpers shared by the code generators. They mirror the
+// conventions the generated Rust already uses: snake_case for modules,
+// functions and fields, and the node name without whitespace for types.
+
+export const toSnakeCase = (name: string): string =>
+  name.trim().toLowerCase().replace(/\s+/g, '_');
+
+export const toTypeName = (name: string): string =>
+  name.trim().replace(/\s+/g, '');
+
+export const toCamelCase = (name: string): string =>
+  toSnakeCase(name).replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+export const toPascalCase = (name: string): string => {
+  const camel = toCamelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+};
@@ -0,0 +1,72 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import { Network, ProgramCluster, ProjectSettings, RpcEndpoint } from '@/types/project';
+
+export const NETWORKS: Network[] = ['localnet', 'devnet', 'testnet', 'mainnet', 'custom'];
+
+export const NETWORK_LABELS: Record<Network, string> = {
+  localnet: 'Localnet',
+  devnet: 'Devnet',
+  testnet: 'Testnet',
+  mainnet: 'Mainnet',
+  custom: 'Custom RPC',
+};
+
+// Public endpoints; localnet is `solana-test-validator`'s default unless VITE_LOCAL_RPC_URL points elsewhere
+export const PUBLIC_ENDPOINTS: Record<ProgramCluster, string> = {
+  localnet: import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8899',
+  devnet: 'https://api.devnet.solana.com',
+  testnet: 'https://api.testnet.solana.com',
+  mainnet: 'https://api.mainnet-beta.solana.com',
+};
+
+// Cluster whose program ID and explorer a network uses
+export const networkCluster = (network: Network, settings?: ProjectSettings): ProgramCluster =>
+  network === 'custom' ? settings?.customRpc?.cluster || 'localnet' : network;
+
+export const resolveEndpoint = (network: Network, settings?: ProjectSettings): RpcEndpoint => {
+  if (network === 'custom') {
+    if (!settings?.customRpc) throw new Error('No custom RPC endpoint is configured for this project');
+    return settings.customRpc;
+  }
+  return settings?.rpcOverrides[network] || { http: PUBLIC_ENDPOINTS[network] };
+};
+
+export const createConnection = (
+  network: Network,
+  settings?: ProjectSettings,
+  commitment: Commitment = 'confirmed'
+): Connection => {
+  const endpoint = resolveEndpoint(network, settings);
+  return new Connection(endpoint.http, { commitment, wsEndpoint: endpoint.ws || undefined });
+};
+
+// Solana Explorer link; local validators are opened through the explorer's custom cluster option
+export const explorerUrl = (kind: 'tx' | 'address', value: string, network: Network, settings?: ProjectSettings): string => {
+  const cluster = networkCluster(network, settings);
+  const query = cluster === 'mainnet'
+    ? ''
+    : cluster === 'localnet'
+      ? `?cluster=custom&customUrl=${encodeURIComponent(resolveEndpoint(network, settings).http)}`
+      : `?cluster=${cluster}`;
+  return `https://explorer.solana.com/${kind}/${value}${query}`;
+};
+
+const isUrl = (value: string, protocols: string[]): boolean => {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const validateEndpoint = (endpoint: RpcEndpoint, label: string): string[] => [
+  ...(isUrl(endpoint.http, ['http:', 'https:']) ? [] : [`${label} RPC URL must be an http(s) URL`]),
+  ...(!endpoint.ws || isUrl(endpoint.ws, ['ws:', 'wss:']) ? [] : [`${label} websocket URL must be a ws(s) URL`]),
+];
+
+export const validateRpcSettings = (settings: ProjectSettings): string[] => [
+  ...Object.entries(settings.rpcOverrides).flatMap(([cluster, endpoint]) =>
+    endpoint ? validateEndpoint(endpoint, NETWORK_LABELS[cluster as ProgramCluster]) : []
+  ),
+  ...(settings.customRpc ? validateEndpoint(settings.customRpc, NETWORK_LABELS.custom) : []),
+];
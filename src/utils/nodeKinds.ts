@@ -0,0 +1,7 @@
+import { CanvasNode } from '@/types/editor';
+import { isCpiNode } from './cpiCalls';
+import { isEventNode } from './programEvents';
+
+// Nodes that become handlers of the program; accounts, events and CPI targets are wired into them
+export const isInstructionNode = (node: CanvasNode): boolean =>
+  node.type !== 'account' && !isEventNode(node) && !isCpiNode(node);
@@ -0,0 +1,231 @@
+import { CanvasNode, Connection, FieldType, InstructionArg, SeedComponent } from '@/types/editor';
+import { fieldSpace, isIntegerType } from './accountSchema';
+import { testValueFor } from './instructionArgs';
+import { toCamelCase, toSnakeCase, toTypeName } from './naming';
+
+// Limits enforced by `Pubkey::find_program_address`
+export const MAX_SEEDS = 16;
+export const MAX_SEED_LENGTH = 32;
+
+export const AUTHORITY_SEED = 'authority';
+
+// Names the accounts of one instruction context, on-chain and in the generated tests
+export interface SeedScope {
+  args: InstructionArg[];
+  // Field name in the `#[derive(Accounts)]` struct, undefined when the account is not part of it
+  accountField: (accountId: string) => string | undefined;
+}
+
+export const getSeeds = (node: CanvasNode): SeedComponent[] => node.seeds || [];
+
+export const isPda = (node: CanvasNode): boolean => getSeeds(node).length > 0;
+
+export const accountFieldName = (node: CanvasNode): string => toTypeName(node.name).toLowerCase();
+
+// Account nodes wired into an instruction, in connection order
+export const connectedAccountNodes = (node: CanvasNode, nodes: CanvasNode[], connections: Connection[]): CanvasNode[] =>
+  connections
+    .filter(conn => conn.targetNodeId === node.id)
+    .map(conn => nodes.find(n => n.id === conn.sourceNodeId))
+    .filter((n): n is CanvasNode => n?.type === 'account');
+
+export const seedScopeFor = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): SeedScope => {
+  const accounts = connectedAccountNodes(instruction, nodes, connections);
+  return {
+    args: instruction.args || [],
+    accountField: (accountId: string) => {
+      if (accountId === AUTHORITY_SEED) return AUTHORITY_SEED;
+      const account = accounts.find(n => n.id === accountId);
+      return account ? accountFieldName(account) : undefined;
+    },
+  };
+};
+
+const findArg = (args: InstructionArg[], name: string) =>
+  args.find(arg => toSnakeCase(arg.name) === name);
+
+const isSeedableType = (type: FieldType): boolean =>
+  type.kind === 'string' || type.kind === 'pubkey' || type.kind === 'bool' || isIntegerType(type);
+
+const renderSeed = (seed: SeedComponent, scope: SeedScope): string => {
+  switch (seed.kind) {
+    case 'literal':
+      return `b${JSON.stringify(seed.value)}`;
+    case 'arg': {
+      const arg = findArg(scope.args, seed.name);
+      if (arg?.type.kind === 'string') return `${seed.name}.as_bytes()`;
+      if (arg?.type.kind === 'pubkey') return `${seed.name}.as_ref()`;
+      if (arg?.type.kind === 'bool') return `&[${seed.name} as u8]`;
+      return `${seed.name}.to_le_bytes().as_ref()`;
+    }
+    case 'account':
+      return `${scope.accountField(seed.account)}.key().as_ref()`;
+  }
+};
+
+// `[b"vault", authority.key().as_ref()]`
+export const renderSeeds = (seeds: SeedComponent[], scope: SeedScope): string =>
+  `[${seeds.map(seed => renderSeed(seed, scope)).join(', ')}]`;
+
+// Seeds a PDA signs a CPI with, e.g. `&[b"vault", authority_key.as_ref(), &[ctx.bumps.vault]]`, and the
+// `let` bindings that keep the account keys it borrows alive for the call
+export const renderSignerSeeds = (account: CanvasNode, scope: SeedScope): { bindings: string[]; seeds: string } => {
+  const bindings: string[] = [];
+  const seeds = getSeeds(account).map(seed => {
+    switch (seed.kind) {
+      case 'literal':
+        return `b${JSON.stringify(seed.value)}`;
+      case 'arg': {
+        const arg = findArg(scope.args, seed.name);
+        if (arg?.type.kind === 'string') return `${seed.name}.as_bytes()`;
+        if (arg?.type.kind === 'pubkey') return `${seed.name}.as_ref()`;
+        if (arg?.type.kind === 'bool') return `&[${seed.name} as u8]`;
+        return `&${seed.name}.to_le_bytes()`;
+      }
+      case 'account': {
+        const field = scope.accountField(seed.account);
+        bindings.push(`let ${field}_key = ctx.accounts.${field}.key();`);
+        return `${field}_key.as_ref()`;
+      }
+    }
+  });
+  return { bindings, seeds: `&[${[...seeds, `&[ctx.bumps.${accountFieldName(account)}]`].join(', ')}]` };
+};
+
+// Buffers passed to `findProgramAddressSync`; `accountKey` gives the test expression for an account's public key
+export const renderClientSeeds = (
+  seeds: SeedComponent[],
+  scope: SeedScope,
+  accountKey: (accountId: string) => string
+): string[] =>
+  seeds.map(seed => {
+    switch (seed.kind) {
+      case 'literal':
+        return `Buffer.from(${JSON.stringify(seed.value)})`;
+      case 'arg': {
+        const arg = findArg(scope.args, seed.name);
+        if (!arg) return 'Buffer.alloc(0)';
+        const value = testValueFor(arg);
+        if (arg.type.kind === 'string') return `Buffer.from(${value})`;
+        if (arg.type.kind === 'pubkey') return `${value}.toBuffer()`;
+        if (arg.type.kind === 'bool') return `Buffer.from([${value} ? 1 : 0])`;
+        const bn = value.startsWith('new anchor.BN(') ? value : `new anchor.BN(${value})`;
+        return `${bn}.toArrayLike(Buffer, "le", ${fieldSpace(arg.type)})`;
+      }
+      case 'account':
+        return `${accountKey(seed.account)}.toBuffer()`;
+    }
+  });
+
+export const describeSeed = (seed: SeedComponent, nodes: CanvasNode[]): string => {
+  switch (seed.kind) {
+    case 'literal':
+      return `"${seed.value}"`;
+    case 'arg':
+      return `arg ${seed.name}`;
+    case 'account':
+      return seed.account === AUTHORITY_SEED
+        ? 'authority key'
+        : `${nodes.find(n => n.id === seed.account)?.name || 'missing account'} key`;
+  }
+};
+
+const PRINTABLE_ASCII = /^[\x20-\x7e]+$/;
+
+// Check one instruction's view of a PDA: every seed must resolve and fit
+export const validateSeeds = (seeds: SeedComponent[], scope: SeedScope, selfId?: string): string[] => {
+  const errors: string[] = [];
+
+  if (seeds.length > MAX_SEEDS) {
+    errors.push(`A PDA can have at most ${MAX_SEEDS} seeds`);
+  }
+
+  seeds.forEach((seed, index) => {
+    const label = `seed ${index + 1}`;
+    if (seed.kind === 'literal') {
+      if (!seed.value) {
+        errors.push(`${label}: literal is empty`);
+      } else if (!PRINTABLE_ASCII.test(seed.value)) {
+        errors.push(`${label}: literals must be printable ASCII`);
+      } else if (seed.value.length > MAX_SEED_LENGTH) {
+        errors.push(`${label}: literal is longer than ${MAX_SEED_LENGTH} bytes`);
+      }
+    } else if (seed.kind === 'arg') {
+      const arg = findArg(scope.args, seed.name);
+      if (!arg) {
+        errors.push(`${label}: instruction has no argument "${seed.name}"`);
+      } else if (!isSeedableType(arg.type)) {
+        errors.push(`${label}: ${arg.type.kind} arguments cannot be used as seeds`);
+      } else if (arg.type.kind === 'string' && arg.type.maxLength > MAX_SEED_LENGTH) {
+        errors.push(`${label}: ${seed.name} can be up to ${arg.type.maxLength} bytes, above the ${MAX_SEED_LENGTH} byte seed limit`);
+      }
+    } else if (seed.account === selfId) {
+      errors.push(`${label}: a PDA cannot be derived from its own key`);
+    } else if (!scope.accountField(seed.account)) {
+      errors.push(`${label}: referenced account is not connected to the instruction`);
+    }
+  });
+
+  return errors;
+};
+
+// Instructions an account is wired into, in connection order
+const accountInstructions = (account: CanvasNode, nodes: CanvasNode[], connections: Connection[]): CanvasNode[] =>
+  connections
+    .filter(conn => conn.sourceNodeId === account.id)
+    .map(conn => nodes.find(n => n.id === conn.targetNodeId))
+    .filter((n): n is CanvasNode => !!n && n.type !== 'account' && n.type !== 'start');
+
+// Validate a PDA account against every instruction it is connected to
+export const validatePdaUsage = (account: CanvasNode, nodes: CanvasNode[], connections: Connection[]): string[] => {
+  const seeds = getSeeds(account);
+  if (seeds.length === 0) return [];
+
+  const instructions = accountInstructions(account, nodes, connections);
+
+  if (instructions.length === 0) {
+    return validateSeeds(seeds.filter(seed => seed.kind === 'literal'), { args: [], accountField: () => undefined });
+  }
+
+  const errors = instructions.flatMap(instruction =>
+    validateSeeds(seeds, seedScopeFor(instruction, nodes, connections), account.id)
+      .map(error => `${instruction.name}: ${error}`)
+  );
+
+  // PDAs whose seeds reference each other can never be derived
+  const visit = (id: string, path: string[]): boolean => {
+    if (path.includes(id)) return true;
+    const node = nodes.find(n => n.id === id);
+    return !!node && getSeeds(node).some(seed =>
+      seed.kind === 'account' && seed.account !== AUTHORITY_SEED && visit(seed.account, [...path, id])
+    );
+  };
+  if (visit(account.id, [])) {
+    errors.push(`Seeds of ${account.name} depend on its own address`);
+  }
+
+  return Array.from(new Set(errors));
+};
+
+// Argument whose test value an arg seed of `account` takes in every test: the creating instruction's,
+// else the first connected one's
+const seedSourceArg = (account: CanvasNode, name: string, nodes: CanvasNode[], connections: Connection[]) => {
+  const instructions = accountInstructions(account, nodes, connections);
+  const creators = instructions.filter(instruction => instruction.accountConstraints?.[account.id]?.init);
+  return [...creators, ...instructions].map(instruction => findArg(instruction.args || [], name)).find(arg => !!arg);
+};
+
+// An instruction's arguments as the tests pass them. Arg seeds share one value across the instructions
+// using the PDA, so a test after the one that created it derives the same address
+export const testArgsFor = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): InstructionArg[] => {
+  const pdas = connectedAccountNodes(instruction, nodes, connections).filter(isPda);
+  return (instruction.args || []).map(arg => {
+    const name = toSnakeCase(arg.name);
+    const account = pdas.find(pda => getSeeds(pda).some(seed => seed.kind === 'arg' && seed.name === name));
+    const source = account && seedSourceArg(account, name, nodes, connections);
+    return source ? { ...arg, defaultValue: source.defaultValue, min: source.min } : arg;
+  });
+};
+
+// Test variable holding an account's public key
+export const clientAccountVariable = (account: CanvasNode): string => toCamelCase(accountFieldName(account));
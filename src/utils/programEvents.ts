@@ -0,0 +1,108 @@
+import { AccountField, CanvasNode, Connection, InstructionArg } from '@/types/editor';
+import { rustType, validateFieldList } from './accountSchema';
+import { getInstructionArgs } from './instructionArgs';
+import { accountFieldName, connectedAccountNodes } from './pdaSeeds';
+import { toSnakeCase, toTypeName } from './naming';
+
+export const EVENT_NODE_TYPE = 'event';
+
+// Where an `emit!` call takes each payload field from, matched by field name
+export type EventFieldSource =
+  | { kind: 'arg'; arg: InstructionArg }
+  // Key of a connected account, or of the signing authority when `account` is undefined
+  | { kind: 'account'; account?: CanvasNode }
+  | { kind: 'clock' }
+  | { kind: 'default' };
+
+export const isEventNode = (node: CanvasNode): boolean => node.type === EVENT_NODE_TYPE;
+
+export const getEventFields = (node: CanvasNode): AccountField[] => node.fields || [];
+
+export const eventStructName = (node: CanvasNode): string => toTypeName(node.name);
+
+// Name Anchor's TypeScript client uses for the event, e.g. `program.addEventListener("vaultCreated", ...)`
+export const eventListenerName = (node: CanvasNode): string => {
+  const name = eventStructName(node);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+};
+
+// Event nodes an instruction is wired into, in connection order
+export const connectedEventNodes = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): CanvasNode[] =>
+  connections
+    .filter(conn => conn.sourceNodeId === instruction.id)
+    .map(conn => nodes.find(n => n.id === conn.targetNodeId))
+    .filter((n): n is CanvasNode => !!n && isEventNode(n));
+
+// Arguments of the same name first, then account keys, then the cluster clock for timestamps
+export const eventFieldSource = (
+  field: AccountField,
+  instruction: CanvasNode,
+  nodes: CanvasNode[],
+  connections: Connection[]
+): EventFieldSource => {
+  const name = toSnakeCase(field.name);
+  const arg = getInstructionArgs(instruction).find(a => toSnakeCase(a.name) === name);
+  if (arg) return { kind: 'arg', arg };
+
+  if (field.type.kind === 'pubkey') {
+    if (name === 'authority') return { kind: 'account' };
+    const account = connectedAccountNodes(instruction, nodes, connections).find(a => accountFieldName(a) === name);
+    if (account) return { kind: 'account', account };
+  }
+
+  if (field.type.kind === 'i64' && (name === 'timestamp' || name.endsWith('_at'))) return { kind: 'clock' };
+  return { kind: 'default' };
+};
+
+export const renderEventStruct = (node: CanvasNode): string => `#[event]
+pub struct ${eventStructName(node)} {
+${getEventFields(node).map(field => `    pub ${toSnakeCase(field.name)}: ${rustType(field.type)},`).join('\n')}
+}`;
+
+const rustValue = (field: AccountField, source: EventFieldSource): string => {
+  switch (source.kind) {
+    case 'arg': {
+      const name = toSnakeCase(source.arg.name);
+      return ['string', 'vec', 'struct', 'enum'].includes(field.type.kind) ? `${name}.clone()` : name;
+    }
+    case 'account':
+      return `ctx.accounts.${source.account ? accountFieldName(source.account) : 'authority'}.key()`;
+    case 'clock':
+      return 'Clock::get()?.unix_timestamp';
+    case 'default':
+      return 'Default::default()';
+  }
+};
+
+// `emit!` calls for every event the instruction is connected to, run once the handler's logic has succeeded
+export const renderEventEmits = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): string[] =>
+  connectedEventNodes(instruction, nodes, connections).map(event => {
+    const fields = getEventFields(event).map(field => {
+      const name = toSnakeCase(field.name);
+      const value = rustValue(field, eventFieldSource(field, instruction, nodes, connections));
+      return `        ${value === name ? name : `${name}: ${value}`},`;
+    });
+    return `    emit!(${eventStructName(event)} {\n${fields.join('\n')}\n    });`;
+  });
+
+export const validateEventNode = (event: CanvasNode): string[] => {
+  const fields = getEventFields(event);
+  if (fields.length === 0) return ['an event needs at least one field'];
+  return validateFieldList(fields, 'event');
+};
+
+// Payload fields taken from arguments must match their type; the rest need a Default value
+export const validateEventEmits = (instruction: CanvasNode, nodes: CanvasNode[], connections: Connection[]): string[] =>
+  connectedEventNodes(instruction, nodes, connections).flatMap(event =>
+    getEventFields(event).flatMap(field => {
+      const name = toSnakeCase(field.name);
+      const source = eventFieldSource(field, instruction, nodes, connections);
+      if (source.kind === 'arg' && rustType(source.arg.type) !== rustType(field.type)) {
+        return [`${instruction.name}: ${event.name}.${name} is ${rustType(field.type)} but args.${name} is ${rustType(source.arg.type)}`];
+      }
+      if (source.kind === 'default' && (field.type.kind === 'struct' || field.type.kind === 'enum')) {
+        return [`${instruction.name}: ${event.name}.${name} needs an argument of the same name to take its value from`];
+      }
+      return [];
+    })
+  );
@@ -0,0 +1,422 @@
+import { Buffer } from 'buffer';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+export const BPF_LOADER_UPGRADEABLE_ID = new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111');
+
+// Sizes of the loader's account headers: enum tag, then the variant's fields
+export const BUFFER_METADATA_SIZE = 37;
+export const PROGRAM_ACCOUNT_SIZE = 36;
+export const PROGRAMDATA_METADATA_SIZE = 45;
+
+// Program bytes per `Write` transaction, leaving room for signatures, account keys and the priority
+// fee instructions in 1232 bytes
+export const WRITE_CHUNK_SIZE = 900;
+
+// `Buffer` tag followed by `Some(authority)`
+const BUFFER_PREFIX = [1, 0, 0, 0, 1];
+
+// Write transactions signed per wallet prompt, small enough to land before the blockhash expires
+const WRITE_BATCH_SIZE = 40;
+
+// Compute units a loader transaction requests when it pays a priority fee, so the fee is this times
+// the price. Loader and system instructions are builtins costing a few thousand units each
+export const LOADER_COMPUTE_UNIT_LIMIT = 50_000;
+
+// `UpgradeableLoaderInstruction` tags, encoded as u32 LE
+const LOADER_INSTRUCTION = {
+  initializeBuffer: 0,
+  write: 1,
+  deployWithMaxDataLen: 2,
+  upgrade: 3,
+  setAuthority: 4,
+  close: 5,
+  extendProgram: 6,
+};
+
+// Signs with the connected wallet; same shape as the wallet adapter's signer methods
+export interface LoaderWallet {
+  publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
+}
+
+export interface UploadProgress {
+  stage: 'buffer' | 'write' | 'deploy';
+  // Program bytes in the buffer so far
+  written: number;
+  total: number;
+}
+
+export type LoaderAccount =
+  | { kind: 'buffer'; authority: PublicKey | null; data: Uint8Array }
+  | { kind: 'program'; programData: PublicKey }
+  | { kind: 'programData'; slot: number; authority: PublicKey | null; data: Uint8Array };
+
+export interface BufferAccount {
+  address: PublicKey;
+  lamports: number;
+}
+
+const tagged = (tag: number, size = 4): Buffer => {
+  const data = Buffer.alloc(size);
+  data.writeUInt32LE(tag, 0);
+  return data;
+};
+
+const optionalKey = (data: Uint8Array, offset: number): PublicKey | null =>
+  data[offset] === 1 ? new PublicKey(data.slice(offset + 1, offset + 33)) : null;
+
+export const programDataAddress = (programId: PublicKey): PublicKey =>
+  PublicKey.findProgramAddressSync([programId.toBuffer()], BPF_LOADER_UPGRADEABLE_ID)[0];
+
+export const initializeBufferInstruction = (buffer: PublicKey, authority: PublicKey): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: buffer, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: false, isWritable: false },
+    ],
+    data: tagged(LOADER_INSTRUCTION.initializeBuffer),
+  });
+
+// `Write { offset: u32, bytes: Vec<u8> }`, the vector prefixed with its u64 length
+export const writeInstruction = (buffer: PublicKey, authority: PublicKey, offset: number, bytes: Uint8Array): TransactionInstruction => {
+  const data = tagged(LOADER_INSTRUCTION.write, 16 + bytes.length);
+  data.writeUInt32LE(offset, 4);
+  data.writeBigUInt64LE(BigInt(bytes.length), 8);
+  data.set(bytes, 16);
+  return new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: buffer, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+};
+
+export const deployWithMaxDataLenInstruction = ({ payer, program, buffer, authority, maxDataLen }: {
+  payer: PublicKey;
+  program: PublicKey;
+  buffer: PublicKey;
+  authority: PublicKey;
+  maxDataLen: number;
+}): TransactionInstruction => {
+  const data = tagged(LOADER_INSTRUCTION.deployWithMaxDataLen, 12);
+  data.writeBigUInt64LE(BigInt(maxDataLen), 4);
+  return new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: programDataAddress(program), isSigner: false, isWritable: true },
+      { pubkey: program, isSigner: false, isWritable: true },
+      { pubkey: buffer, isSigner: false, isWritable: true },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+};
+
+// Replaces the program's code with the buffer's; the buffer's lamports go to `spill`
+export const upgradeInstruction = ({ program, buffer, authority, spill }: {
+  program: PublicKey;
+  buffer: PublicKey;
+  authority: PublicKey;
+  spill: PublicKey;
+}): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: programDataAddress(program), isSigner: false, isWritable: true },
+      { pubkey: program, isSigner: false, isWritable: true },
+      { pubkey: buffer, isSigner: false, isWritable: true },
+      { pubkey: spill, isSigner: false, isWritable: true },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data: tagged(LOADER_INSTRUCTION.upgrade),
+  });
+
+// Without `newAuthority` the buffer or program becomes immutable
+export const setAuthorityInstruction = ({ account, authority, newAuthority }: {
+  account: PublicKey;
+  authority: PublicKey;
+  newAuthority?: PublicKey;
+}): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+      ...(newAuthority ? [{ pubkey: newAuthority, isSigner: false, isWritable: false }] : []),
+    ],
+    data: tagged(LOADER_INSTRUCTION.setAuthority),
+  });
+
+// Closes a buffer, or a program's data account when `program` is given, sending its lamports to `recipient`
+export const closeInstruction = ({ account, recipient, authority, program }: {
+  account: PublicKey;
+  recipient: PublicKey;
+  authority: PublicKey;
+  program?: PublicKey;
+}): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: recipient, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+      ...(program ? [{ pubkey: program, isSigner: false, isWritable: true }] : []),
+    ],
+    data: tagged(LOADER_INSTRUCTION.close),
+  });
+
+// Grows a program's data account by `additionalBytes`, paid for by `payer`
+export const extendProgramInstruction = ({ program, payer, additionalBytes }: {
+  program: PublicKey;
+  payer: PublicKey;
+  additionalBytes: number;
+}): TransactionInstruction => {
+  const data = tagged(LOADER_INSTRUCTION.extendProgram, 8);
+  data.writeUInt32LE(additionalBytes, 4);
+  return new TransactionInstruction({
+    programId: BPF_LOADER_UPGRADEABLE_ID,
+    keys: [
+      { pubkey: programDataAddress(program), isSigner: false, isWritable: true },
+      { pubkey: program, isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: payer, isSigner: true, isWritable: true },
+    ],
+    data,
+  });
+};
+
+export const parseLoaderAccount = (data: Uint8Array): LoaderAccount | null => {
+  if (data.length < 4) return null;
+  const tag = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true);
+  if (tag === 1 && data.length >= BUFFER_METADATA_SIZE) {
+    return { kind: 'buffer', authority: optionalKey(data, 4), data: data.slice(BUFFER_METADATA_SIZE) };
+  }
+  if (tag === 2 && data.length >= PROGRAM_ACCOUNT_SIZE) {
+    return { kind: 'program', programData: new PublicKey(data.slice(4, 36)) };
+  }
+  if (tag === 3 && data.length >= PROGRAMDATA_METADATA_SIZE) {
+    const slot = Number(new DataView(data.buffer, data.byteOffset, data.byteLength).getBigUint64(4, true));
+    return { kind: 'programData', slot, authority: optionalKey(data, 12), data: data.slice(PROGRAMDATA_METADATA_SIZE) };
+  }
+  return null;
+};
+
+export const writeTransactionCount = (programLength: number): number => Math.ceil(programLength / WRITE_CHUNK_SIZE);
+
+// Priority fee instructions for a price in micro-lamports per compute unit; none without a price
+const computeBudgetInstructions = (computeUnitPrice: number): TransactionInstruction[] =>
+  computeUnitPrice > 0
+    ? [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: LOADER_COMPUTE_UNIT_LIMIT }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: computeUnitPrice }),
+    ]
+    : [];
+
+// Fee payer, recent blockhash and every signature, wallet last so it signs the final message
+const signAndSend = async (
+  connection: Connection,
+  wallet: LoaderWallet,
+  instructions: TransactionInstruction[],
+  signers: Keypair[] = [],
+  computeUnitPrice = 0
+): Promise<string> => {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({ feePayer: wallet.publicKey, blockhash, lastValidBlockHeight })
+    .add(...computeBudgetInstructions(computeUnitPrice), ...instructions);
+  if (signers.length > 0) transaction.partialSign(...signers);
+  const signed = await wallet.signTransaction(transaction);
+  const signature = await connection.sendRawTransaction(signed.serialize());
+  const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  if (value.err) throw new Error(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`);
+  return signature;
+};
+
+// Buffers the wallet can write to or close; `programLength` narrows them to ones sized for that program
+export const findBuffers = async (
+  connection: Connection,
+  authority: PublicKey,
+  programLength?: number
+): Promise<BufferAccount[]> => {
+  const accounts = await connection.getProgramAccounts(BPF_LOADER_UPGRADEABLE_ID, {
+    commitment: 'confirmed',
+    dataSlice: { offset: 0, length: 5 },
+    filters: [
+      { memcmp: { offset: 5, bytes: authority.toBase58() } },
+      ...(programLength !== undefined ? [{ dataSize: BUFFER_METADATA_SIZE + programLength }] : []),
+    ],
+  });
+  return accounts
+    .filter(({ account }) => BUFFER_PREFIX.every((byte, index) => account.data[index] === byte))
+    .map(({ pubkey, account }) => ({ address: pubkey, lamports: account.lamports }));
+};
+
+// Puts the program into a buffer, reusing a buffer of the same size left by an interrupted upload
+// and writing only the chunks that differ from what it already holds
+export const uploadToBuffer = async (
+  connection: Connection,
+  wallet: LoaderWallet,
+  program: Uint8Array,
+  onProgress?: (progress: UploadProgress) => void,
+  computeUnitPrice = 0
+): Promise<PublicKey> => {
+  const total = program.length;
+  onProgress?.({ stage: 'buffer', written: 0, total });
+
+  let buffer: PublicKey | undefined;
+  let existing: Uint8Array | undefined;
+  for (const candidate of await findBuffers(connection, wallet.publicKey, program.length)) {
+    const info = await connection.getAccountInfo(candidate.address, 'confirmed');
+    const state = info ? parseLoaderAccount(info.data) : null;
+    if (state?.kind === 'buffer' && state.authority?.equals(wallet.publicKey)) {
+      buffer = candidate.address;
+      existing = state.data;
+      break;
+    }
+  }
+
+  if (!buffer) {
+    const keypair = Keypair.generate();
+    const space = BUFFER_METADATA_SIZE + program.length;
+    await signAndSend(connection, wallet, [
+      SystemProgram.createAccount({
+        fromPubkey: wallet.publicKey,
+        newAccountPubkey: keypair.publicKey,
+        lamports: await connection.getMinimumBalanceForRentExemption(space),
+        space,
+        programId: BPF_LOADER_UPGRADEABLE_ID,
+      }),
+      initializeBufferInstruction(keypair.publicKey, wallet.publicKey),
+    ], [keypair], computeUnitPrice);
+    buffer = keypair.publicKey;
+  }
+
+  const offsets: number[] = [];
+  let written = 0;
+  for (let offset = 0; offset < program.length; offset += WRITE_CHUNK_SIZE) {
+    const chunk = program.subarray(offset, offset + WRITE_CHUNK_SIZE);
+    const stored = existing?.subarray(offset, offset + WRITE_CHUNK_SIZE);
+    if (stored && stored.every((byte, index) => byte === chunk[index])) {
+      written += chunk.length;
+    } else {
+      offsets.push(offset);
+    }
+  }
+  onProgress?.({ stage: 'write', written, total });
+
+  for (let start = 0; start < offsets.length; start += WRITE_BATCH_SIZE) {
+    const batch = offsets.slice(start, start + WRITE_BATCH_SIZE);
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    const signed = await wallet.signAllTransactions(batch.map(offset =>
+      new Transaction({ feePayer: wallet.publicKey, blockhash, lastValidBlockHeight }).add(
+        ...computeBudgetInstructions(computeUnitPrice),
+        writeInstruction(buffer!, wallet.publicKey, offset, program.subarray(offset, offset + WRITE_CHUNK_SIZE))
+      )
+    ));
+
+    await Promise.all(signed.map(async (transaction, index) => {
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+      if (value.err) throw new Error(`Write at offset ${batch[index]} failed: ${JSON.stringify(value.err)}`);
+      written += Math.min(WRITE_CHUNK_SIZE, program.length - batch[index]);
+      onProgress?.({ stage: 'write', written, total });
+    }));
+  }
+
+  return buffer;
+};
+
+// Creates the program account and moves the buffer into its program data account. The program
+// keypair must be the one behind the program's `declare_id!`
+export const deployFromBuffer = async (
+  connection: Connection,
+  wallet: LoaderWallet,
+  programKeypair: Keypair,
+  buffer: PublicKey,
+  programLength: number,
+  computeUnitPrice = 0
+): Promise<string> =>
+  signAndSend(connection, wallet, [
+    SystemProgram.createAccount({
+      fromPubkey: wallet.publicKey,
+      newAccountPubkey: programKeypair.publicKey,
+      lamports: await connection.getMinimumBalanceForRentExemption(PROGRAM_ACCOUNT_SIZE),
+      space: PROGRAM_ACCOUNT_SIZE,
+      programId: BPF_LOADER_UPGRADEABLE_ID,
+    }),
+    // Room for later upgrades to grow, as `solana program deploy` leaves by default
+    deployWithMaxDataLenInstruction({
+      payer: wallet.publicKey,
+      program: programKeypair.publicKey,
+      buffer,
+      authority: wallet.publicKey,
+      maxDataLen: programLength * 2,
+    }),
+  ], [programKeypair], computeUnitPrice);
+
+// Returns a stranded buffer's rent to the wallet
+export const closeBuffer = async (connection: Connection, wallet: LoaderWallet, buffer: PublicKey): Promise<string> =>
+  signAndSend(connection, wallet, [
+    closeInstruction({ account: buffer, recipient: wallet.publicKey, authority: wallet.publicKey }),
+  ]);
+
+// Replaces a deployed program's code with the buffer's, first growing its data account when the
+// new binary no longer fits. The wallet must be the program's upgrade authority
+export const upgradeFromBuffer = async (
+  connection: Connection,
+  wallet: LoaderWallet,
+  program: PublicKey,
+  buffer: PublicKey,
+  programLength: number,
+  computeUnitPrice = 0
+): Promise<string> => {
+  const programData = await connection.getAccountInfo(programDataAddress(program), 'confirmed');
+  if (!programData) throw new Error(`${program.toString()} has no program data account`);
+
+  const capacity = programData.data.length - PROGRAMDATA_METADATA_SIZE;
+  if (programLength > capacity) {
+    await signAndSend(connection, wallet, [
+      extendProgramInstruction({ program, payer: wallet.publicKey, additionalBytes: programLength - capacity }),
+    ], [], computeUnitPrice);
+  }
+
+  return signAndSend(connection, wallet, [
+    upgradeInstruction({ program, buffer, authority: wallet.publicKey, spill: wallet.publicKey }),
+  ], [], computeUnitPrice);
+};
+
+// Hands the program's upgrade authority to `newAuthority`, or makes the program immutable when it is null.
+// Either cannot be undone from this wallet
+export const setProgramAuthority = async (
+  connection: Connection,
+  wallet: LoaderWallet,
+  program: PublicKey,
+  newAuthority: PublicKey | null
+): Promise<string> =>
+  signAndSend(connection, wallet, [
+    setAuthorityInstruction({
+      account: programDataAddress(program),
+      authority: wallet.publicKey,
+      newAuthority: newAuthority || undefined,
+    }),
+  ]);
@@ -0,0 +1,191 @@
+import { Buffer } from 'buffer';
+import { AccountInfo, Connection, Context, Logs, PublicKey } from '@solana/web3.js';
+import { BN, BorshCoder, EventParser } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { Network } from '@/types/project';
+import { executionError } from './executionEngine';
+import { toPascalCase, toTypeName } from './naming';
+
+// Decoded values are kept as JSON so activity can be stored: integers as strings, keys as base58
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export interface DecodedInstruction {
+  name: string;
+  // Null when the instruction was only named by the program's logs
+  args: Record<string, JsonValue> | null;
+}
+
+export interface DecodedEvent {
+  name: string;
+  data: Record<string, JsonValue>;
+}
+
+export type ProgramActivity =
+  | {
+      kind: 'transaction';
+      id: string;
+      network: Network;
+      slot: number;
+      timestamp: string;
+      signature: string;
+      success: boolean;
+      error?: string;
+      instructions: DecodedInstruction[];
+      events: DecodedEvent[];
+      logs: string[];
+    }
+  | {
+      kind: 'account';
+      id: string;
+      network: Network;
+      slot: number;
+      timestamp: string;
+      address: string;
+      // Account node the address was watched as
+      account: string;
+      lamports: number;
+      // Null when the data does not decode as the node's account type
+      data: Record<string, JsonValue> | null;
+    };
+
+export interface WatchedAccount {
+  address: PublicKey;
+  // Account node name; its type decodes the data
+  name: string;
+}
+
+export const toJsonValue = (value: unknown): JsonValue => {
+  if (value === null || value === undefined) return null;
+  if (BN.isBN(value)) return (value as BN).toString();
+  if (value instanceof PublicKey) return value.toBase58();
+  if (value instanceof Uint8Array) return Array.from(value);
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]));
+  }
+  return value as JsonValue;
+};
+
+// Events the program emitted, as Anchor logs them; logs cut short by a failure can end mid-event
+export const decodeEvents = (parser: EventParser, logs: string[]): DecodedEvent[] => {
+  const events: DecodedEvent[] = [];
+  try {
+    for (const event of parser.parseLogs(logs)) {
+      events.push({ name: event.name, data: toJsonValue(event.data) as Record<string, JsonValue> });
+    }
+  } catch {
+    // Keep the events decoded before the truncated one
+  }
+  return events;
+};
+
+// Handlers log `Instruction: <Name>` before running, which names instructions that cannot be decoded
+const loggedInstructions = (logs: string[]): DecodedInstruction[] =>
+  logs
+    .map(line => line.match(/^Program log: Instruction: (\w+)$/)?.[1])
+    .filter((name): name is string => !!name)
+    .map(name => ({ name, args: null }));
+
+// Streams a program's transactions and its watched accounts over the RPC websocket, decoding both with the IDL
+export class ProgramMonitor {
+  private programId: PublicKey;
+  private coder: BorshCoder;
+  private parser: EventParser;
+  private subscriptions: { logs?: number; accounts: number[] } = { accounts: [] };
+
+  constructor(
+    private connection: Connection,
+    idl: Idl,
+    private network: Network,
+    private onActivity: (activity: ProgramActivity) => void
+  ) {
+    this.programId = new PublicKey(idl.address);
+    this.coder = new BorshCoder(idl);
+    this.parser = new EventParser(this.programId, this.coder);
+  }
+
+  start(accounts: WatchedAccount[] = []) {
+    this.subscriptions.logs = this.connection.onLogs(
+      this.programId,
+      (logs, context) => this.handleLogs(logs, context),
+      'confirmed'
+    );
+    this.subscriptions.accounts = accounts.map(account =>
+      this.connection.onAccountChange(
+        account.address,
+        (info, context) => this.handleAccountChange(account, info, context),
+        'confirmed'
+      )
+    );
+  }
+
+  async stop() {
+    const { logs, accounts } = this.subscriptions;
+    this.subscriptions = { accounts: [] };
+    await Promise.all([
+      ...(logs !== undefined ? [this.connection.removeOnLogsListener(logs)] : []),
+      ...accounts.map(id => this.connection.removeAccountChangeListener(id)),
+    ]);
+  }
+
+  private async handleLogs({ signature, err, logs }: Logs, { slot }: Context) {
+    const events = decodeEvents(this.parser, logs);
+    this.onActivity({
+      kind: 'transaction',
+      id: signature,
+      network: this.network,
+      slot,
+      timestamp: new Date().toISOString(),
+      signature,
+      success: !err,
+      error: err ? executionError(logs, err) : undefined,
+      instructions: await this.decodeInstructions(signature).catch(() => null) || loggedInstructions(logs),
+      events,
+      logs,
+    });
+  }
+
+  // Top-level instructions addressed to the program; CPIs into it are only named by the logs
+  private async decodeInstructions(signature: string): Promise<DecodedInstruction[] | null> {
+    const transaction = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!transaction) return null;
+
+    const message = transaction.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: transaction.meta?.loadedAddresses });
+    const decoded = message.compiledInstructions
+      .filter(instruction => keys.get(instruction.programIdIndex)?.equals(this.programId))
+      .map(instruction => this.coder.instruction.decode(Buffer.from(instruction.data)))
+      .filter((instruction): instruction is NonNullable<typeof instruction> => !!instruction)
+      // Named as Anchor logs it, `CreateVault` for `create_vault`, so both sources agree
+      .map(instruction => ({
+        name: toPascalCase(instruction.name),
+        args: toJsonValue(instruction.data) as Record<string, JsonValue>,
+      }));
+    return decoded.length > 0 ? decoded : null;
+  }
+
+  private handleAccountChange(account: WatchedAccount, info: AccountInfo<Buffer>, { slot }: Context) {
+    let data: Record<string, JsonValue> | null = null;
+    try {
+      data = toJsonValue(this.coder.accounts.decode(toTypeName(account.name), info.data)) as Record<string, JsonValue>;
+    } catch {
+      // Closed, not yet initialized, or not of the node's type
+    }
+
+    this.onActivity({
+      kind: 'account',
+      id: `${account.address.toBase58()}:${slot}`,
+      network: this.network,
+      slot,
+      timestamp: new Date().toISOString(),
+      address: account.address.toBase58(),
+      account: account.name,
+      lamports: info.lamports,
+      data,
+    });
+  }
+}
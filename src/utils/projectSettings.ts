@@ -0,0 +1,76 @@
+import { ProgramCluster, ProjectSettings } from '@/types/project';
+import { toCamelCase, toPascalCase } from './naming';
+import { validateRpcSettings } from './networks';
+import { MAX_COMPUTE_UNIT_LIMIT } from './computeProfile';
+
+export const PROGRAM_CLUSTERS: ProgramCluster[] = ['localnet', 'devnet', 'testnet', 'mainnet'];
+
+// Address Anchor uses for freshly initialized workspaces
+export const DEFAULT_PROGRAM_ID = 'Fg6PaFpoGXkYsidMpWTK6W2BeZ7FEfcYkg476zPFsLnS';
+
+const PROGRAM_NAME = /^[a-z][a-z0-9_]*$/;
+const CRATE_NAME = /^[a-z][a-z0-9_-]*$/;
+const BASE58_PUBKEY = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// `My Token Program` -> `my_token_program`
+export const programNameFrom = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'my_program';
+
+export const defaultProjectSettings = (projectName?: string): ProjectSettings => {
+  const programName = programNameFrom(projectName || 'my_program');
+  return {
+    programName,
+    crateName: programName.replace(/_/g, '-'),
+    programIds: { localnet: DEFAULT_PROGRAM_ID, devnet: DEFAULT_PROGRAM_ID, testnet: DEFAULT_PROGRAM_ID, mainnet: DEFAULT_PROGRAM_ID },
+    errors: [],
+    rpcOverrides: {},
+    computeUnitLimits: {},
+  };
+};
+
+// Fill in whatever a stored `project_data.settings` object is missing
+export const normalizeProjectSettings = (stored: Partial<ProjectSettings> | undefined, projectName?: string): ProjectSettings => {
+  const defaults = defaultProjectSettings(projectName);
+  return {
+    programName: stored?.programName || defaults.programName,
+    crateName: stored?.crateName || defaults.crateName,
+    programIds: { ...defaults.programIds, ...stored?.programIds },
+    errors: stored?.errors || defaults.errors,
+    rpcOverrides: stored?.rpcOverrides || defaults.rpcOverrides,
+    customRpc: stored?.customRpc,
+    computeUnitLimits: stored?.computeUnitLimits || defaults.computeUnitLimits,
+  };
+};
+
+// Type exported from `target/types/<program>.ts`
+export const programTypeName = (settings: ProjectSettings): string => toPascalCase(settings.programName);
+
+// Key of the program on `anchor.workspace`
+export const workspaceAccessor = (settings: ProjectSettings): string => toCamelCase(settings.programName);
+
+export const hasClusterSpecificIds = (settings: ProjectSettings): boolean =>
+  new Set(PROGRAM_CLUSTERS.map(cluster => settings.programIds[cluster])).size > 1;
+
+export const validateProjectSettings = (settings: ProjectSettings): string[] => {
+  const errors: string[] = [];
+
+  if (!PROGRAM_NAME.test(settings.programName)) {
+    errors.push('Program name must be snake_case, starting with a letter');
+  }
+  if (!CRATE_NAME.test(settings.crateName)) {
+    errors.push('Crate name may only contain lowercase letters, digits, "-" and "_"');
+  }
+  PROGRAM_CLUSTERS.forEach(cluster => {
+    if (!BASE58_PUBKEY.test(settings.programIds[cluster])) {
+      errors.push(`${cluster} program ID is not a valid public key`);
+    }
+  });
+  errors.push(...validateRpcSettings(settings));
+  Object.entries(settings.computeUnitLimits).forEach(([instruction, units]) => {
+    if (!Number.isInteger(units) || units <= 0 || units > MAX_COMPUTE_UNIT_LIMIT) {
+      errors.push(`${instruction} compute unit limit must be a whole number up to ${MAX_COMPUTE_UNIT_LIMIT.toLocaleString()}`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,92 @@
+import { Buffer } from 'buffer';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  sendAndConfirmTransaction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { utils } from '@coral-xyz/anchor';
+
+const { TOKEN_PROGRAM_ID, ASSOCIATED_PROGRAM_ID } = utils.token;
+
+// Size of a token program `Mint` account
+export const MINT_SIZE = 82;
+
+const TOKEN_INSTRUCTION = {
+  mintTo: 7,
+  initializeMint2: 20,
+};
+
+// `InitializeMint2 { decimals, mint_authority, freeze_authority: None }`
+export const initializeMint2Instruction = (mint: PublicKey, decimals: number, authority: PublicKey): TransactionInstruction => {
+  const data = Buffer.alloc(67);
+  data.writeUInt8(TOKEN_INSTRUCTION.initializeMint2, 0);
+  data.writeUInt8(decimals, 1);
+  data.set(authority.toBuffer(), 2);
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data,
+  });
+};
+
+// `MintTo { amount: u64 }`
+export const mintToInstruction = (mint: PublicKey, destination: PublicKey, authority: PublicKey, amount: number): TransactionInstruction => {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(TOKEN_INSTRUCTION.mintTo, 0);
+  data.writeBigUInt64LE(BigInt(amount), 1);
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+};
+
+// The associated token program's `Create`, which takes no data
+export const createAssociatedTokenAccountInstruction = (payer: PublicKey, mint: PublicKey, owner: PublicKey): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: ASSOCIATED_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: utils.token.associatedAddress({ mint, owner }), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.alloc(0),
+  });
+
+// A new mint under the payer's authority and the payer's associated account of it holding `amount`,
+// what `createMint`, `createAssociatedTokenAccount` and `mintTo` from @solana/spl-token set up
+export const createFundedTokenAccount = async (
+  connection: Connection,
+  payer: Keypair,
+  decimals: number,
+  amount: number
+): Promise<{ mint: PublicKey; tokenAccount: PublicKey }> => {
+  const mint = Keypair.generate();
+  const owner = payer.publicKey;
+  const tokenAccount = utils.token.associatedAddress({ mint: mint.publicKey, owner });
+  const transaction = new Transaction().add(
+    SystemProgram.createAccount({
+      fromPubkey: owner,
+      newAccountPubkey: mint.publicKey,
+      lamports: await connection.getMinimumBalanceForRentExemption(MINT_SIZE),
+      space: MINT_SIZE,
+      programId: TOKEN_PROGRAM_ID,
+    }),
+    initializeMint2Instruction(mint.publicKey, decimals, owner),
+    createAssociatedTokenAccountInstruction(owner, mint.publicKey, owner),
+    mintToInstruction(mint.publicKey, tokenAccount, owner, amount)
+  );
+  await sendAndConfirmTransaction(connection, transaction, [payer, mint], { commitment: 'confirmed' });
+  return { mint: mint.publicKey, tokenAccount };
+};
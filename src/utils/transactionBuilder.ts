@@ -0,0 +1,244 @@
+import { Buffer } from 'buffer';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SendTransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { AnchorProvider, BN, BorshCoder, EventParser, Program } from '@coral-xyz/anchor';
+import type { Idl } from '@coral-xyz/anchor';
+import { IdlInstruction, IdlType, IdlTypeDef } from './idl';
+import { executionError, flattenAccounts, WALLET_SIGNERS, WIDE_INTEGERS } from './executionEngine';
+import { DecodedEvent, decodeEvents } from './programMonitor';
+import { inspectAccount, InspectedAccount } from './accountInspector';
+import { LoaderWallet } from './programLoader';
+import { toCamelCase } from './naming';
+
+export interface PlaygroundAccount {
+  name: string;
+  signer: boolean;
+  writable: boolean;
+  // Anchor fills it in: a fixed address, a PDA derived from the args and other accounts, or the wallet
+  resolvable: boolean;
+}
+
+// An instruction ready to simulate or send, with the keypairs generated for new signer accounts
+export interface PreparedInstruction {
+  instruction: TransactionInstruction;
+  signers: Keypair[];
+  accounts: Record<string, PublicKey>;
+}
+
+export interface PlaygroundResult {
+  success: boolean;
+  signature?: string;
+  error?: string;
+  computeUnits?: number;
+  logs: string[];
+  events: DecodedEvent[];
+  // Program accounts the transaction writes, decoded after it landed
+  accounts: InspectedAccount[];
+}
+
+const SMALL_NUMBERS = ['u8', 'i8', 'u16', 'i16', 'u32', 'i32', 'f32', 'f64'];
+
+export const instructionAccounts = (definition: IdlInstruction): PlaygroundAccount[] =>
+  flattenAccounts(definition.accounts).map(account => ({
+    name: account.name,
+    signer: !!account.signer,
+    writable: !!account.writable,
+    resolvable: !!account.address || !!account.pda || WALLET_SIGNERS.includes(account.name),
+  }));
+
+const typeName = (type: IdlType): string => {
+  if (typeof type === 'string') return type;
+  if ('vec' in type) return `${typeName(type.vec)}[]`;
+  if ('array' in type) return `[${typeName(type.array[0])}; ${type.array[1]}]`;
+  if ('option' in type) return `${typeName(type.option)}?`;
+  if ('coption' in type) return `${typeName(type.coption)}?`;
+  if ('defined' in type) return type.defined.name;
+  return 'value';
+};
+
+// Placeholder describing what an argument input expects
+export const describeIdlType = (type: IdlType): string => {
+  if (typeof type === 'string') return type === 'bytes' ? 'bytes as hex' : type;
+  if ('option' in type) return `${describeIdlType(type.option)}, or empty`;
+  if ('coption' in type) return `${describeIdlType(type.coption)}, or empty`;
+  return `${typeName(type)} as JSON`;
+};
+
+// A JSON value in the shape Anchor encodes for the type: BN for wide integers, PublicKey for keys
+const fromJson = (type: IdlType, value: unknown, types: IdlTypeDef[]): unknown => {
+  if (typeof type === 'string') {
+    if (WIDE_INTEGERS.includes(type)) return new BN(String(value));
+    if (SMALL_NUMBERS.includes(type)) return Number(value);
+    if (type === 'pubkey') return new PublicKey(String(value));
+    if (type === 'bytes') return Buffer.from(value as number[]);
+    return value;
+  }
+  if ('vec' in type) return (value as unknown[]).map(item => fromJson(type.vec, item, types));
+  if ('array' in type) return (value as unknown[]).map(item => fromJson(type.array[0], item, types));
+  if ('option' in type) return value === null ? null : fromJson(type.option, value, types);
+  if ('coption' in type) return value === null ? null : fromJson(type.coption, value, types);
+  if ('defined' in type) {
+    const def = types.find(t => t.name === type.defined.name);
+    if (def?.type.kind === 'struct') {
+      const fields = (def.type.fields || []) as { name: string; type: IdlType }[];
+      const input = value as Record<string, unknown>;
+      return Object.fromEntries(fields.map(field =>
+        [toCamelCase(field.name), fromJson(field.type, input[field.name] ?? input[toCamelCase(field.name)], types)]
+      ));
+    }
+    if (def?.type.kind === 'enum') {
+      // A variant name, or `{ "Variant": { ...fields } }`
+      const [variant, input] = typeof value === 'string' ? [value, {}] : Object.entries(value as object)[0];
+      const fields = (def.type.variants.find(v => v.name === variant)?.fields || []) as ({ name: string; type: IdlType } | IdlType)[];
+      const named = fields.filter((field): field is { name: string; type: IdlType } => typeof field === 'object' && 'name' in field);
+      if (named.length > 0) {
+        const values = input as Record<string, unknown>;
+        return { [toCamelCase(variant)]: Object.fromEntries(named.map(field =>
+          [toCamelCase(field.name), fromJson(field.type, values[field.name] ?? values[toCamelCase(field.name)], types)]
+        )) };
+      }
+      // Tuple variants take a JSON array
+      return { [toCamelCase(variant)]: Object.fromEntries((input as unknown[] || []).map((item, index) =>
+        [index, fromJson(fields[index] as IdlType, item, types)]
+      )) };
+    }
+  }
+  return value;
+};
+
+// Form input for one argument; composite types are entered as JSON
+export const parseArgInput = (type: IdlType, input: string, types: IdlTypeDef[]): unknown => {
+  const text = input.trim();
+  if (typeof type === 'string') {
+    if (type === 'string') return input;
+    if (type === 'bool') return text === 'true';
+    if (type === 'bytes') return Buffer.from(text.replace(/^0x/, ''), 'hex');
+    if (SMALL_NUMBERS.includes(type) && !Number.isFinite(Number(text))) throw new Error(`"${input}" is not a number`);
+    if (type === 'pubkey' || WIDE_INTEGERS.includes(type) || SMALL_NUMBERS.includes(type)) return fromJson(type, text, types);
+  }
+  if (typeof type !== 'string' && ('option' in type || 'coption' in type) && !text) return null;
+  return fromJson(type, JSON.parse(text), types);
+};
+
+// Builds, simulates and sends calls to a deployed program from the connected wallet
+export class TransactionPlayground {
+  private program: Program;
+  private parser: EventParser;
+
+  constructor(private connection: Connection, private idl: Idl, private wallet: LoaderWallet) {
+    this.program = new Program(idl, new AnchorProvider(connection, wallet, { commitment: 'confirmed' }));
+    this.parser = new EventParser(new PublicKey(idl.address), new BorshCoder(idl));
+  }
+
+  private methodFor(instruction: string, args: unknown[]) {
+    const method = this.program.methods[toCamelCase(instruction)];
+    if (!method) throw new Error(`${instruction} is not an instruction of ${this.idl.metadata.name}`);
+    return method(...args);
+  }
+
+  // Every account address, letting Anchor fill those it can; empty signer accounts get new keypairs
+  async prepare(instruction: string, args: unknown[], provided: Record<string, PublicKey>): Promise<PreparedInstruction> {
+    const definition = this.idl.instructions.find(ix => ix.name === instruction);
+    if (!definition) throw new Error(`${instruction} is not an instruction of ${this.idl.metadata.name}`);
+
+    const accounts: Record<string, PublicKey> = {};
+    const signers: Keypair[] = [];
+    instructionAccounts(definition).forEach(account => {
+      const key = toCamelCase(account.name);
+      if (provided[account.name]) {
+        accounts[key] = provided[account.name];
+      } else if (!account.resolvable && account.signer) {
+        const keypair = Keypair.generate();
+        accounts[key] = keypair.publicKey;
+        signers.push(keypair);
+      }
+    });
+
+    const builder = this.methodFor(instruction, args).accountsPartial(accounts);
+    return {
+      instruction: await builder.instruction(),
+      signers,
+      accounts: await builder.pubkeys() as Record<string, PublicKey>,
+    };
+  }
+
+  private async message(prepared: PreparedInstruction) {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: this.wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [prepared.instruction],
+    }).compileToV0Message();
+    return { message, blockhash, lastValidBlockHeight };
+  }
+
+  // Runs the transaction without signing it, so nothing is charged
+  async simulate(prepared: PreparedInstruction): Promise<PlaygroundResult> {
+    const { message } = await this.message(prepared);
+    const { value } = await this.connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+    const logs = value.logs || [];
+    return {
+      success: !value.err,
+      error: value.err ? executionError(logs, value.err) : undefined,
+      computeUnits: value.unitsConsumed,
+      logs,
+      events: decodeEvents(this.parser, logs),
+      accounts: [],
+    };
+  }
+
+  async send(prepared: PreparedInstruction): Promise<PlaygroundResult> {
+    const { message, blockhash, lastValidBlockHeight } = await this.message(prepared);
+    const transaction = new VersionedTransaction(message);
+    if (prepared.signers.length > 0) transaction.sign(prepared.signers);
+
+    let signature: string;
+    try {
+      const signed = await this.wallet.signTransaction(transaction);
+      signature = await this.connection.sendRawTransaction(signed.serialize());
+      await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    } catch (error) {
+      // Preflight failures carry the simulated logs
+      const logs = error instanceof SendTransactionError ? error.logs || [] : [];
+      return {
+        success: false,
+        error: logs.length > 0 ? executionError(logs, error) : error instanceof Error ? error.message : String(error),
+        logs,
+        events: [],
+        accounts: [],
+      };
+    }
+
+    const confirmed = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    const logs = confirmed?.meta?.logMessages || [];
+    const err = confirmed?.meta?.err;
+
+    const writable = prepared.instruction.keys.filter(key => key.isWritable).map(key => key.pubkey);
+    const accounts = err ? [] : (await Promise.all(writable.map(address => inspectAccount(this.connection, this.idl, address))))
+      .filter((account): account is InspectedAccount => !!account?.type);
+
+    return {
+      success: !err,
+      signature,
+      error: err ? executionError(logs, err) : undefined,
+      computeUnits: confirmed?.meta?.computeUnitsConsumed,
+      logs,
+      events: decodeEvents(this.parser, logs),
+      accounts,
+    };
+  }
+}
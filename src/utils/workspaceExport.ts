@@ -0,0 +1,134 @@
+import JSZip from 'jszip';
+import { ProjectSettings } from '@/types/project';
+import { GeneratedCode } from './codeGen';
+
+export interface WorkspaceFile {
+  path: string;
+  content: string;
+}
+
+const ANCHOR_VERSION = '0.31.1';
+
+const WORKSPACE_CARGO_TOML = `[workspace]
+members = [
+    "programs/*"
+]
+resolver = "2"
+
+[profile.release]
+overflow-checks = true
+lto = "fat"
+codegen-units = 1
+
+[profile.release.build-override]
+opt-level = 3
+incremental = false
+codegen-units = 1
+`;
+
+const XARGO_TOML = `[target.bpfel-unknown-unknown.dependencies.std]
+features = []
+`;
+
+const DEPLOY_SCRIPT = `// Migrations are an early feature. Currently, they're nothing more than this
+// single deploy script that's invoked from the CLI, injecting a provider
+// configured from the workspace's Anchor.toml.
+
+import * as anchor from "@coral-xyz/anchor";
+
+module.exports = async function (provider: anchor.AnchorProvider) {
+  // Configure client to use the provider.
+  anchor.setProvider(provider);
+
+  // Add your deploy script here.
+};
+`;
+
+const TSCONFIG = {
+  compilerOptions: {
+    types: ['mocha', 'chai'],
+    typeRoots: ['./node_modules/@types'],
+    lib: ['es2015'],
+    module: 'commonjs',
+    target: 'es6',
+    esModuleInterop: true,
+  },
+};
+
+const GITIGNORE = `.anchor
+.DS_Store
+target
+**/*.rs.bk
+node_modules
+test-ledger
+.yarn
+`;
+
+const PRETTIERIGNORE = `.anchor
+.DS_Store
+target
+node_modules
+dist
+build
+test-ledger
+`;
+
+const toJson = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+// Tests only pull in the SPL helpers when a token template uses them
+const packageJson = (tests: string) => toJson({
+  license: 'ISC',
+  scripts: {
+    'lint:fix': 'prettier */*.js "*/**/*{.js,.ts}" -w',
+    lint: 'prettier */*.js "*/**/*{.js,.ts}" --check',
+  },
+  dependencies: {
+    '@coral-xyz/anchor': `^${ANCHOR_VERSION}`,
+    ...(tests.includes('@solana/spl-token') ? { '@solana/spl-token': '^0.4.9' } : {}),
+  },
+  devDependencies: {
+    '@types/bn.js': '^5.1.0',
+    '@types/chai': '^4.3.0',
+    '@types/mocha': '^9.0.0',
+    chai: '^4.3.4',
+    mocha: '^9.0.3',
+    prettier: '^2.6.2',
+    'ts-mocha': '^10.0.0',
+    typescript: '^5.7.3',
+  },
+});
+
+// Same layout `anchor init` creates, so the workspace builds and tests without moving files
+export const buildWorkspaceFiles = (code: GeneratedCode, settings: ProjectSettings): WorkspaceFile[] => {
+  const programDir = `programs/${settings.crateName}`;
+
+  return [
+    { path: 'Anchor.toml', content: code.anchorToml },
+    { path: 'Cargo.toml', content: WORKSPACE_CARGO_TOML },
+    { path: 'package.json', content: packageJson(code.tests) },
+    { path: 'tsconfig.json', content: toJson(TSCONFIG) },
+    { path: '.gitignore', content: GITIGNORE },
+    { path: '.prettierignore', content: PRETTIERIGNORE },
+    { path: 'migrations/deploy.ts', content: DEPLOY_SCRIPT },
+    { path: `${programDir}/Cargo.toml`, content: code.cargoToml },
+    { path: `${programDir}/Xargo.toml`, content: XARGO_TOML },
+    { path: `${programDir}/src/lib.rs`, content: code.lib },
+    { path: `${programDir}/src/instructions/mod.rs`, content: code.instructionsMod },
+    ...code.instructions.map((content, index) => ({
+      path: `${programDir}/src/instructions/${code.instructionModules[index]}.rs`,
+      content,
+    })),
+    { path: `tests/${settings.crateName}.ts`, content: code.tests },
+    { path: `app/${settings.programName}.json`, content: code.idl },
+    { path: `app/${settings.programName}.ts`, content: code.client },
+    ...code.programIdls.map(idl => ({ path: `idls/${idl.name}.json`, content: `${idl.content}\n` })),
+  ];
+};
+
+// Everything sits under one top-level folder named after the crate
+export const exportWorkspaceZip = (code: GeneratedCode, settings: ProjectSettings): Promise<Blob> => {
+  const zip = new JSZip();
+  const root = zip.folder(settings.crateName)!;
+  buildWorkspaceFiles(code, settings).forEach(file => root.file(file.path, file.content));
+  return zip.generateAsync({ type: 'blob' });
+};
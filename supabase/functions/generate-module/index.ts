@@ -36,14 +36,14 @@ Based on the user's description, create a JSON response with the following struc
   "parameters": [
     {"name": "param_name", "type": "string|number|boolean", "description": "param description", "required": true}
   ],
-  "code": "// Rust/Anchor code implementation",
+  "code": "// Rust statements for the instruction handler body",
   "documentation": "Usage instructions and examples"
 }
 
 Guidelines:
 - Choose appropriate input/output types based on Solana program patterns
 - Include realistic parameters that would be needed
-- Generate actual Rust/Anchor code that demonstrates the functionality
+- Write "code" as statements that run inside the generated Anchor handler: use ctx.accounts.<name>, the parameters by name and ErrorCode; do not include declare_id!, #[program], accounts structs or the fn signature, and end with a statement rather than Ok(())
 - Make the module name concise but descriptive
 - Ensure the type matches the functionality (instruction for actions, account for data structures, etc.)`;
 
@@ -0,0 +1,5 @@
+-- Allow localnet, testnet and custom RPC networks
+ALTER TABLE public.projects DROP CONSTRAINT projects_network_check;
+ALTER TABLE public.projects
+  ADD CONSTRAINT projects_network_check
+  CHECK (network IN ('localnet', 'devnet', 'testnet', 'mainnet', 'custom'));
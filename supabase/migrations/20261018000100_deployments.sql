@@ -0,0 +1,45 @@
+-- Create deployments table: one row per deploy or upgrade attempt
+CREATE TABLE public.deployments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('deploy', 'upgrade')),
+  network TEXT NOT NULL CHECK (network IN ('localnet', 'devnet', 'testnet', 'mainnet', 'custom')),
+  program_id TEXT NOT NULL,
+  signature TEXT,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  -- SHA-256 of the generated workspace that was built
+  source_hash TEXT NOT NULL,
+  idl JSONB,
+  -- Canvas nodes and connections the source was generated from
+  graph JSONB NOT NULL DEFAULT '{}',
+  deployer TEXT,
+  build_logs TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.deployments ENABLE ROW LEVEL SECURITY;
+
+-- Releases are records of what happened on chain, so they are never updated
+CREATE POLICY "Users can view their own deployments" 
+  ON public.deployments 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record deployments of their own projects" 
+  ON public.deployments 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.projects WHERE id = project_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own deployments" 
+  ON public.deployments 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create index for better performance
+CREATE INDEX idx_deployments_project_id ON public.deployments(project_id, created_at DESC);
@@ -0,0 +1,36 @@
+-- Create program_activity table: transactions and account changes seen by the monitor
+CREATE TABLE public.program_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  network TEXT NOT NULL CHECK (network IN ('localnet', 'devnet', 'testnet', 'mainnet', 'custom')),
+  kind TEXT NOT NULL CHECK (kind IN ('transaction', 'account')),
+  slot BIGINT NOT NULL,
+  -- The decoded activity as shown in the monitor
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.program_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own program activity" 
+  ON public.program_activity 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record activity of their own projects" 
+  ON public.program_activity 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.projects WHERE id = project_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own program activity" 
+  ON public.program_activity 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create index for better performance
+CREATE INDEX idx_program_activity_project_id ON public.program_activity(project_id, created_at DESC);
@@ -0,0 +1,39 @@
+-- Create compute_profiles table: compute units measured by each test run
+CREATE TABLE public.compute_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users NOT NULL,
+  network TEXT NOT NULL CHECK (network IN ('localnet', 'devnet', 'testnet', 'mainnet', 'custom')),
+  -- SHA-256 of the generated workspace that was tested
+  source_hash TEXT NOT NULL,
+  -- Canvas nodes and connections the source was generated from
+  graph JSONB NOT NULL DEFAULT '{}',
+  -- Per instruction: transaction and program compute units, and whether the test passed
+  instructions JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.compute_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Measurements are never edited, so regressions stay comparable to what was measured
+CREATE POLICY "Users can view their own compute profiles" 
+  ON public.compute_profiles 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record compute profiles of their own projects" 
+  ON public.compute_profiles 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.projects WHERE id = project_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own compute profiles" 
+  ON public.compute_profiles 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create index for better performance
+CREATE INDEX idx_compute_profiles_project_id ON public.compute_profiles(project_id, created_at DESC);